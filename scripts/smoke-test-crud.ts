@@ -109,6 +109,11 @@ check("S3: has custom source result", customResult !== undefined);
 check("S3: custom result has id (not fdcId)", typeof customResult?.id === "string", `id=${customResult?.id}`);
 check("S3: custom result description matches", customResult?.description === "Huel Black", `desc=${customResult?.description}`);
 check("S3: custom search result exposes netCarbs", customResult?.netCarbs === 22, `netCarbs=${customResult?.netCarbs}`);
+check("S3: exact search reports matchType", searchJson.matchType === "exact", `matchType=${searchJson.matchType}`);
+const prefixSearch = JSON.parse(run("search", "hu").stdout);
+check("S3: last word matches as a prefix", prefixSearch.matchType === "prefix" && prefixSearch.results.some((r: { description: string }) => r.description === "Huel Black"), `stdout=${JSON.stringify(prefixSearch)}`);
+const typoSearch = JSON.parse(run("search", "hueel", "blak").stdout);
+check("S3: misspelled search falls back to fuzzy", typoSearch.matchType === "fuzzy" && typoSearch.results[0]?.description === "Huel Black", `stdout=${JSON.stringify(typoSearch)}`);
 
 // ============================================================
 // Section 4: Custom Foods — barcode lookup integration
@@ -138,6 +143,36 @@ const listAfterJson = JSON.parse(listAfterDelete.stdout);
 check("S5: foods list count = 1 after delete", listAfterJson.count === 1, `count=${listAfterJson.count}`);
 check("S5: only Huel remains", listAfterJson.foods[0]?.name === "Huel Black", `name=${listAfterJson.foods[0]?.name}`);
 
+// ============================================================
+// Section 5b: Custom Foods — edit, history, restore
+// ============================================================
+console.log("\n--- Section 5b: Custom Foods — edit, history, restore ---");
+
+const editHuel = run("foods", "edit", huelId, "--calories", "420", "--brand", "Huel Ltd");
+check("S5b: foods edit exits 0", editHuel.exitCode === 0, `stderr=${editHuel.stderr}`);
+const editHuelJson = JSON.parse(editHuel.stdout);
+check("S5b: foods edit reports changed fields", JSON.stringify(editHuelJson.updated) === JSON.stringify(["brand", "calories"]), `updated=${JSON.stringify(editHuelJson.updated)}`);
+check("S5b: foods edit saves revision 1", editHuelJson.revision === 1, `revision=${editHuelJson.revision}`);
+
+const huelHistory = JSON.parse(run("foods", "history", huelId).stdout);
+check("S5b: history keeps previous calories", huelHistory.revisions[0]?.data.calories === 400, `data=${JSON.stringify(huelHistory.revisions[0]?.data)}`);
+
+const restoreHuel = run("foods", "restore", huelId, "--revision", "1");
+check("S5b: foods restore exits 0", restoreHuel.exitCode === 0, `stderr=${restoreHuel.stderr}`);
+const huelAfterRestore = JSON.parse(run("foods", "list").stdout).foods[0];
+check("S5b: restore brings calories back", huelAfterRestore?.calories === 400, `calories=${huelAfterRestore?.calories}`);
+
+const restoreDeleted = run("foods", "restore", barId);
+check("S5b: deleted food restores under the same id", restoreDeleted.exitCode === 0 && JSON.parse(restoreDeleted.stdout).id === barId, `stdout=${restoreDeleted.stdout}`);
+
+runEval(`
+  import { initializeDatabase, getDb } from "./src/db.ts";
+  initializeDatabase();
+  getDb().query("UPDATE revisions SET data = ? WHERE entity_id = ? AND revision = 1").run('{"name":"Huel","calories":"lots"}', ${JSON.stringify(huelId)});
+`);
+const restoreCorrupt = run("foods", "restore", huelId, "--revision", "1");
+check("S5b: restore rejects a malformed revision", restoreCorrupt.exitCode === 1 && restoreCorrupt.stderr.includes("calories"), `stderr=${restoreCorrupt.stderr}`);
+
 // ============================================================
 // Section 6: Recipes
 // ============================================================
@@ -186,6 +221,77 @@ const listRecipesAfterDelete = run("recipe", "list");
 const listRecipesAfterDeleteJson = JSON.parse(listRecipesAfterDelete.stdout);
 check("S6: recipe list count = 0 after delete", listRecipesAfterDeleteJson.count === 0, `count=${listRecipesAfterDeleteJson.count}`);
 
+// ============================================================
+// Section 6b: Composite recipes
+// ============================================================
+console.log("\n--- Section 6b: Composite recipes ---");
+resetDb();
+
+const rice = JSON.parse(run("foods", "add", "Rice", "--serving", "1 cup (158 g)", "--calories", "200", "--protein", "4", "--carbs", "44", "--fat", "0.4", "--fiber", "0.6").stdout);
+const beans = JSON.parse(run("foods", "add", "Black Beans", "--serving", "100 g", "--calories", "130", "--protein", "9", "--carbs", "24", "--fat", "0.5", "--fiber", "9").stdout);
+
+const ingredients = JSON.stringify([
+  { foodId: rice.id, qty: 2, unit: "cup" },
+  { foodId: beans.id, qty: 300, unit: "g" },
+]);
+const createComposite = run("recipe", "create", "Rice and Beans", "--servings", "4", "--ingredients", ingredients);
+check("S6b: composite recipe create exits 0", createComposite.exitCode === 0, `stderr=${createComposite.stderr}`);
+const composite = JSON.parse(createComposite.stdout);
+check("S6b: composite recipe has 2 ingredients", composite.ingredients?.length === 2, `ingredients=${composite.ingredients?.length}`);
+check("S6b: composite recipe servings = 4", composite.servings === 4, `servings=${composite.servings}`);
+check("S6b: per-serving calories from ingredients", composite.calories === 197.5, `calories=${composite.calories}`);
+
+const logComposite = JSON.parse(run("recipe", "log", composite.id, "--servings", "1.5").stdout);
+check("S6b: recipe log --servings scales per serving", logComposite.actualNutrition?.calories === 296.3, `calories=${logComposite.actualNutrition?.calories}`);
+
+const beansIngredient = composite.ingredients.find((i: { refId: string }) => i.refId === beans.id);
+const updateIngredient = run("recipe", "update-ingredient", composite.id, beansIngredient.id, "--qty", "100");
+check("S6b: update-ingredient exits 0", updateIngredient.exitCode === 0, `stderr=${updateIngredient.stderr}`);
+check("S6b: recipe recomputed after ingredient edit", JSON.parse(updateIngredient.stdout).calories === 132.5, `calories=${JSON.parse(updateIngredient.stdout).calories}`);
+
+const badUnit = run("recipe", "add-ingredient", composite.id, "--food-id", beans.id, "--qty", "1", "--unit", "slice");
+check("S6b: add-ingredient rejects unconvertible unit", badUnit.exitCode === 1, `exit=${badUnit.exitCode}`);
+
+const selfInclude = run("recipe", "add-ingredient", composite.id, "--recipe", composite.id);
+check("S6b: recipe cannot include itself", selfInclude.exitCode === 1, `exit=${selfInclude.exitCode}`);
+
+const badServings = run("recipe", "log", composite.id, "--servings", "two");
+check("S6b: recipe log rejects non-numeric --servings", badServings.exitCode === 1 && badServings.stderr.includes("Invalid --servings"), `stderr=${badServings.stderr}`);
+check("S6b: recipe edit rejects non-numeric --servings", run("recipe", "edit", composite.id, "--servings", "two").exitCode === 1);
+check("S6b: update-ingredient rejects non-numeric --qty", run("recipe", "update-ingredient", composite.id, beansIngredient.id, "--qty", "lots").exitCode === 1);
+
+// ============================================================
+// Section 6c: Micronutrients
+// ============================================================
+console.log("\n--- Section 6c: Micronutrients ---");
+resetDb();
+
+const spinach = JSON.parse(run("foods", "add", "Spinach", "--serving", "100 g", "--calories", "23", "--iron", "2.7", "--potassium", "558").stdout);
+const logSpinach = run("log", "--food-id", spinach.id, "--qty", "200", "--unit", "g");
+check("S6c: log carries food micronutrients", JSON.parse(logSpinach.stdout).nutrition?.nutrients?.iron === 5.4, `stdout=${logSpinach.stdout}`);
+run("log", "Multivitamin", "--iron", "18", "--vitamin-c", "60");
+
+const todayNutrients = JSON.parse(run("today").stdout).totals.nutrients;
+check("S6c: today totals sum micronutrients", todayNutrients?.iron === 23.4 && todayNutrients?.vitaminC === 60, `nutrients=${JSON.stringify(todayNutrients)}`);
+
+const trendNutrients = JSON.parse(run("trends", "--days", "7").stdout).averages.nutrients;
+check("S6c: trends average micronutrients", trendNutrients?.potassium === 1116, `nutrients=${JSON.stringify(trendNutrients)}`);
+
+run("profile", "--age", "30", "--sex", "female");
+const driReport = JSON.parse(run("dri").stdout);
+const driRow = (key: string) => driReport.nutrients.find((n: { key: string }) => n.key === key);
+check("S6c: dri uses the life-stage group", driReport.basis === "dri" && driReport.group === "female 19-30" && driReport.mealCount === 2, `group=${driReport.group}`);
+check("S6c: dri iron met (18 mg RDA)", driRow("iron")?.status === "met" && driRow("iron")?.percent === 130, `iron=${JSON.stringify(driRow("iron"))}`);
+check("S6c: partial data is unknown, not below", driRow("vitaminC")?.status === "unknown" && driRow("vitaminC")?.mealsWithData === 1, `vitaminC=${JSON.stringify(driRow("vitaminC"))}`);
+check("S6c: no data reports null intake", driRow("calcium")?.intake === null && driRow("calcium")?.status === "unknown", `calcium=${JSON.stringify(driRow("calcium"))}`);
+const todayDri = JSON.parse(run("today", "--dri").stdout).dri;
+check("S6c: today --dri includes the report", todayDri?.nutrients?.length === driReport.nutrients.length, `dri=${JSON.stringify(todayDri?.group)}`);
+
+const nutrientGoals = JSON.parse(run("goals", "--vitamin-c", "90", "--iron", "18").stdout);
+check("S6c: goals accept registry nutrients", nutrientGoals.goalsSet?.includes("vitaminC") && nutrientGoals.goalsSet?.includes("iron"), `stdout=${JSON.stringify(nutrientGoals)}`);
+const nutrientProgress = JSON.parse(run("progress").stdout).today;
+check("S6c: progress tracks nutrient goals", nutrientProgress.vitaminC?.remaining === 30 && nutrientProgress.iron?.actual === 23.4, `today=${JSON.stringify(nutrientProgress)}`);
+
 // ============================================================
 // Section 7: Trend recipe suggestions
 // ============================================================
@@ -299,6 +405,276 @@ check("S7: edited protein unchanged = 10", editedMeal?.protein === 10, `protein=
 check("S7: edited fiber = 8", editedMeal?.fiber === 8, `fiber=${editedMeal?.fiber}`);
 check("S7: edited netCarbs = 12", editedMeal?.netCarbs === 12, `netCarbs=${editedMeal?.netCarbs}`);
 
+// ============================================================
+// Section 9a: Logging options
+// ============================================================
+console.log("\n--- Section 9a: Logging options ---");
+resetDb();
+
+const oats = JSON.parse(run("foods", "add", "Rolled Oats", "--calories", "380", "--protein", "13", "--serving", "100g").stdout);
+const linkedLog = JSON.parse(run("log", "--food-id", oats.id, "--qty", "50", "--unit", "g").stdout);
+check("S9a: --food-id scales nutrition", linkedLog.foodName === "Rolled Oats" && linkedLog.nutrition?.calories === 190 && linkedLog.foodId === oats.id, `stdout=${JSON.stringify(linkedLog)}`);
+const rescaled = JSON.parse(run("edit", linkedLog.id, "--qty", "100").stdout);
+const rescaledMeal = JSON.parse(run("today").stdout).meals.find((m: { id: string }) => m.id === linkedLog.id);
+check("S9a: edit --qty rescales linked meal", rescaled.success === true && rescaledMeal?.calories === 380, `calories=${rescaledMeal?.calories}`);
+for (const qty of ["-5", "0", "abc"]) {
+  const badQty = run("log", "--food-id", oats.id, "--qty", qty, "--unit", "g");
+  check(`S9a: --qty ${qty} rejected`, badQty.exitCode === 1 && badQty.stderr.includes("Invalid --qty"), `stderr=${badQty.stderr}`);
+}
+const ozLog = JSON.parse(run("log", "--food-id", oats.id, "--qty", "2", "--unit", "oz").stdout);
+check("S9a: oz converts through the gram serving", ozLog.nutrition?.calories === 215.5, `calories=${ozLog.nutrition?.calories}`);
+const cupLog = run("log", "--food-id", oats.id, "--qty", "1", "--unit", "cup");
+check("S9a: volume without a density is rejected", cupLog.exitCode === 1 && cupLog.stderr.includes("Supported units"), `stderr=${cupLog.stderr}`);
+const backdated = JSON.parse(run("log", "Late Dinner", "--calories", "500", "--date", "2025-03-01", "--at", "19:30").stdout);
+check("S9a: --date with --at sets loggedAt", backdated.loggedAt === "2025-03-01 19:30:00", `loggedAt=${backdated.loggedAt}`);
+const rollover = run("log", "Late Dinner", "--calories", "500", "--date", "2025-02-30");
+check("S9a: --date 2025-02-30 rejected, not rolled over", rollover.exitCode === 1 && rollover.stderr.includes("Invalid --date"), `stderr=${rollover.stderr}`);
+const badHour = run("log", "Late Dinner", "--calories", "500", "--at", "2025-03-01 25:10");
+check("S9a: --at 25:10 rejected", badHour.exitCode === 1 && badHour.stderr.includes("Invalid --at"), `stderr=${badHour.stderr}`);
+const future = run("log", "Late Dinner", "--calories", "500", "--date", "+1");
+check("S9a: future --date rejected", future.exitCode === 1, `exit=${future.exitCode}`);
+const mealsBeforeBatch = JSON.parse(run("today").stdout).totals.mealCount;
+const failedBatch = run("log-batch", JSON.stringify([{ food: "Rice", calories: 200 }, { foodId: "missing", qty: 1 }]));
+const mealsAfterBatch = JSON.parse(run("today").stdout).totals.mealCount;
+check("S9a: log-batch is all or nothing", failedBatch.exitCode === 1 && mealsAfterBatch === mealsBeforeBatch, `before=${mealsBeforeBatch} after=${mealsAfterBatch}`);
+const mealGroup = JSON.parse(run("group", "create", "Lunch Out", "--type", "lunch").stdout);
+run("log", "Soup", "--calories", "120", "--group", mealGroup.id);
+run("log", "Bread", "--calories", "80", "--group", mealGroup.id);
+const groupShown = JSON.parse(run("group", "show", mealGroup.id).stdout);
+check("S9a: group totals its items", groupShown.mealCount === 2 && groupShown.totals.calories === 200 && groupShown.meals.every((m: { mealType: string }) => m.mealType === "lunch"), `stdout=${JSON.stringify(groupShown.totals)}`);
+const badEditQty = run("edit", linkedLog.id, "--qty", "-1");
+check("S9a: edit --qty -1 rejected", badEditQty.exitCode === 1, `exit=${badEditQty.exitCode}`);
+const badFdc = run("log", "--fdc", "12abc");
+check("S9a: --fdc 12abc rejected", badFdc.exitCode === 1 && badFdc.stderr.includes('"12abc"'), `stderr=${badFdc.stderr}`);
+
+// ============================================================
+// Section 9b: Goals — history and profiles
+// ============================================================
+console.log("\n--- Section 9b: Goals — history and profiles ---");
+resetDb();
+
+run("goals", "--calories", "2500", "--from", "-2");
+for (const date of ["-2", "-1", "0"]) run("log", "Goal Day", "--calories", "2400", "--date", date);
+run("goals", "--calories", "2000");
+
+const goalHistory = JSON.parse(run("goals", "history", "--key", "calories").stdout);
+check("S9b: goal history keeps both versions", goalHistory.count === 2, `stdout=${JSON.stringify(goalHistory)}`);
+const localDay = (offset: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() + offset);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+check("S9b: versions take effect on their local dates", goalHistory.history[0]?.effectiveFrom === localDay(-2) && goalHistory.history[1]?.effectiveFrom === localDay(0), `history=${JSON.stringify(goalHistory.history.map((v: { effectiveFrom: string }) => v.effectiveFrom))}`);
+const calStreak = JSON.parse(run("progress").stdout).streaks.calories;
+check("S9b: past days judged against past goal", calStreak?.best === 2 && calStreak?.current === 0, `streak=${JSON.stringify(calStreak)}`);
+
+run("goals", "--profile", "big", "--calories", "3000");
+const override = run("goals", "override", "today", "big");
+check("S9b: override exits 0", override.exitCode === 0, `stderr=${override.stderr}`);
+const bigProgress = JSON.parse(run("progress").stdout);
+check("S9b: progress reports active profile", bigProgress.goalProfile === "big" && bigProgress.today.calories?.goal === 3000, `stdout=${JSON.stringify(bigProgress.today)}`);
+run("goals", "--profile", "big", "--protein", "20-40");
+run("log", "Goal Snack", "--protein", "30");
+const proteinRange = JSON.parse(run("progress").stdout).today.protein;
+check("S9b: range goal reports in-range", proteinRange?.zone === "in-range" && proteinRange?.min === 20, `protein=${JSON.stringify(proteinRange)}`);
+run("goals", "--profile", "big", "--split", "40/30/30");
+const splitReport = JSON.parse(run("today").stdout).split;
+check("S9b: split goal reports target and actual shares", splitReport?.target?.carbs === 40 && splitReport?.grams?.protein === 225 && splitReport?.actual?.protein === 100, `split=${JSON.stringify(splitReport)}`);
+const overrideSuggest = JSON.parse(run("goals", "suggest", "--sex", "male", "--age", "30", "--height", "180", "--weight", "80", "--activity", "light").stdout);
+check("S9b: goals suggest applies to today's profile", overrideSuggest.hints?.[0]?.command?.endsWith(" --profile big"), `hints=${JSON.stringify(overrideSuggest.hints)}`);
+const badSchedule = run("goals", "schedule", "--mon", "missing");
+check("S9b: schedule rejects unknown profile", badSchedule.exitCode === 1, `exit=${badSchedule.exitCode}`);
+
+// ============================================================
+// Section 9c: Weigh-ins
+// ============================================================
+console.log("\n--- Section 9c: Weigh-ins ---");
+resetDb();
+
+run("weight", "log", "80", "--date", "-7");
+const lbLog = JSON.parse(run("weight", "log", "174", "--unit", "lb", "--waist", "34").stdout);
+check("S9c: lb weigh-in keeps its unit", lbLog.unit === "lb" && lbLog.weight === 174 && lbLog.waistUnit === "in", `stdout=${JSON.stringify(lbLog)}`);
+check("S9c: trend lags the scale", lbLog.trend > 174 && lbLog.ratePerWeek < 0, `trend=${lbLog.trend} rate=${lbLog.ratePerWeek}`);
+const kgList = JSON.parse(run("weight", "--unit", "kg").stdout);
+check("S9c: list converts to kg", kgList.count === 2 && kgList.weighIns[0].weight === 78.9, `stdout=${JSON.stringify(kgList.weighIns[0])}`);
+const weightEdit = JSON.parse(run("weight", "edit", lbLog.id, "--body-fat", "19").stdout);
+check("S9c: edit sets body fat", weightEdit.updated.includes("bodyFat") && weightEdit.weighIn.bodyFatPct === 19, `stdout=${JSON.stringify(weightEdit)}`);
+const badWeight = run("weight", "log", "-5", "--unit", "lb");
+check("S9c: invalid weight quotes the typed value", badWeight.exitCode === 1 && badWeight.stderr.includes('"-5"'), `stderr=${badWeight.stderr}`);
+const weightDelete = run("weight", "delete", lbLog.id);
+check("S9c: delete exits 0", weightDelete.exitCode === 0, `stderr=${weightDelete.stderr}`);
+const thinTdee = JSON.parse(run("tdee", "--rate", "-0.5").stdout);
+const suggested = JSON.parse(run("goals", "suggest", "--sex", "female", "--age", "30", "--height", "165", "--weight", "60", "--unit", "kg", "--activity", "light").stdout);
+check("S9c: goals suggest uses Mifflin-St Jeor", suggested.formula === "mifflin-st-jeor" && suggested.bmr === 1320, `stdout=${JSON.stringify(suggested)}`);
+check("S9c: goals suggest hints an apply command", suggested.hints?.[0]?.command?.startsWith(`nomnom goals --calories ${suggested.goals.calories}`), `hints=${JSON.stringify(suggested.hints)}`);
+check("S9c: tdee explains missing data", thinTdee.tdee === null && typeof thinTdee.reason === "string" && !thinTdee.proposal, `stdout=${JSON.stringify(thinTdee)}`);
+
+// ============================================================
+// Section 9d: Meal plan
+// ============================================================
+console.log("\n--- Section 9d: Meal plan ---");
+resetDb();
+
+run("goals", "--calories", "2000");
+const planRecipe = JSON.parse(run("recipe", "create", "Plan Chili", "--calories", "500", "--protein", "35").stdout);
+check("S9d: plan add rejects non-numeric --servings", run("plan", "add", "today", planRecipe.id, "--servings", "two").exitCode === 1);
+const plannedChili = JSON.parse(run("plan", "add", "today", planRecipe.id, "--servings", "2", "--type", "dinner").stdout);
+check("S9d: plan add scales the recipe", plannedChili.source === "recipe" && plannedChili.calories === 1000, `stdout=${JSON.stringify(plannedChili)}`);
+run("plan", "add", "tomorrow", "Oats", "--calories", "300", "--type", "breakfast");
+const upcoming = JSON.parse(run("plan", "list").stdout);
+check("S9d: plan list shows upcoming items", upcoming.count === 2, `count=${upcoming.count}`);
+run("log", "Lunch", "--calories", "600");
+const plannedToday = JSON.parse(run("today").stdout).plan;
+check("S9d: today projects logged + planned", plannedToday?.projected.calories === 1600 && plannedToday?.projectedRemaining?.calories === 400, `plan=${JSON.stringify(plannedToday)}`);
+const planLog = run("plan", "log", plannedChili.id);
+check("S9d: plan log exits 0", planLog.exitCode === 0, `stderr=${planLog.stderr}`);
+const afterPlanLog = JSON.parse(run("today").stdout);
+check("S9d: logged plan item counts once", afterPlanLog.totals.calories === 1600 && afterPlanLog.plan?.pending.mealCount === 0, `totals=${JSON.stringify(afterPlanLog.totals)}`);
+check("S9d: plan log twice fails", run("plan", "log", plannedChili.id).exitCode === 1);
+
+const groceryRice = JSON.parse(run("foods", "add", "Rice", "--serving", "1 cup (158 g)", "--calories", "200").stdout);
+const groceryBeans = JSON.parse(run("foods", "add", "Black Beans", "--serving", "100 g", "--calories", "130").stdout);
+const bowl = JSON.parse(run("recipe", "create", "Rice and Beans", "--servings", "4", "--ingredients", JSON.stringify([
+  { foodId: groceryRice.id, qty: 2, unit: "cup" },
+  { foodId: groceryBeans.id, qty: 300, unit: "g" },
+])).stdout);
+run("plan", "add", "tomorrow", bowl.id, "--servings", "2");
+run("plan", "add", "2", bowl.id, "--servings", "6");
+const grocery = JSON.parse(run("grocery", "--from", "today", "--to", "2").stdout);
+const beansLine = grocery.items.find((i: { name: string }) => i.name === "Black Beans");
+const riceLine = grocery.items.find((i: { name: string }) => i.name === "Rice");
+check("S9d: grocery merges scaled ingredients", beansLine?.quantities[0]?.amount === 600 && beansLine?.quantities[0]?.unit === "g", `beans=${JSON.stringify(beansLine)}`);
+check("S9d: grocery buys by the food's weight", riceLine?.quantities[0]?.amount === 632 && riceLine?.quantities[0]?.unit === "g", `rice=${JSON.stringify(riceLine)}`);
+const groceryPb = JSON.parse(run("foods", "add", "Peanut Butter", "--serving", "2 tbsp (32 g)", "--calories", "190").stdout);
+run("plan", "add", "tomorrow", groceryPb.id, "--qty", "0.1", "--unit", "tbsp");
+const pbLine = JSON.parse(run("grocery", "--from", "today", "--to", "2").stdout).items.find((i: { name: string }) => i.name === "Peanut Butter");
+check("S9d: grocery keeps small amounts by weight", pbLine?.quantities[0]?.amount === 1.6 && pbLine?.quantities[0]?.unit === "g", `pb=${JSON.stringify(pbLine)}`);
+check("S9d: grocery skips logged items", grocery.plannedCount === 3 && !grocery.items.some((i: { name: string }) => i.name === "Plan Chili"), `items=${JSON.stringify(grocery.items.map((i: { name: string }) => i.name))}`);
+
+// ============================================================
+// Section 9e: Pantry
+// ============================================================
+console.log("\n--- Section 9e: Pantry ---");
+resetDb();
+
+const pantryOats = JSON.parse(run("foods", "add", "Oats", "--serving", "1 cup (80 g)", "--calories", "300").stdout);
+const pantryMilk = JSON.parse(run("foods", "add", "Milk", "--serving", "1 cup (240 ml)", "--calories", "120").stdout);
+const porridge = JSON.parse(run("recipe", "create", "Porridge", "--servings", "2", "--ingredients", JSON.stringify([
+  { foodId: pantryOats.id, qty: 1, unit: "cup" },
+  { foodId: pantryMilk.id, qty: 480, unit: "ml" },
+])).stdout);
+run("pantry", "add", pantryOats.id, "--qty", "500", "--unit", "g", "--low", "100");
+const restock = JSON.parse(run("pantry", "add", pantryOats.id, "--qty", "1", "--unit", "cup").stdout);
+check("S9e: restock converts to the unit on hand", restock.quantity === 580 && restock.unit === "g", `stdout=${JSON.stringify(restock)}`);
+run("pantry", "add", pantryMilk.id, "--qty", "1", "--unit", "l");
+const makeable = JSON.parse(run("pantry", "recipes").stdout);
+check("S9e: pantry recipes counts servings", makeable.recipes[0]?.recipeId === porridge.id && makeable.recipes[0]?.servings === 4.1, `recipes=${JSON.stringify(makeable.recipes)}`);
+const pantryLog = JSON.parse(run("log", "--food-id", pantryOats.id, "--qty", "2", "--unit", "cup").stdout);
+check("S9e: log draws the pantry down", pantryLog.pantry?.[0]?.remaining === 420, `pantry=${JSON.stringify(pantryLog.pantry)}`);
+const porridgeLog = JSON.parse(run("recipe", "log", porridge.id, "--servings", "8").stdout);
+const oatsUse = porridgeLog.pantry?.find((u: { name: string }) => u.name === "Oats");
+const milkUse = porridgeLog.pantry?.find((u: { name: string }) => u.name === "Milk");
+check("S9e: recipe log uses scaled ingredients", oatsUse?.used === 320 && oatsUse?.remaining === 100 && oatsUse?.low === true, `pantry=${JSON.stringify(porridgeLog.pantry)}`);
+check("S9e: stock floors at zero", milkUse?.remaining === 0, `milk=${JSON.stringify(milkUse)}`);
+check("S9e: low stock adds a restock hint", porridgeLog.hints?.some((h: { action: string }) => h.action === "restock"), `hints=${JSON.stringify(porridgeLog.hints)}`);
+run("log", "--food-id", pantryOats.id, "--qty", "1", "--no-pantry");
+const lowList = JSON.parse(run("pantry", "list", "--low").stdout);
+check("S9e: --no-pantry leaves stock alone", lowList.count === 2 && lowList.items.find((i: { name: string }) => i.name === "Oats")?.quantity === 100, `items=${JSON.stringify(lowList.items)}`);
+const badPantryQty = run("pantry", "use", pantryOats.id, "--qty", "abc");
+check("S9e: pantry use rejects a non-numeric --qty", badPantryQty.exitCode === 1 && badPantryQty.stderr.includes("Invalid --qty"), `stderr=${badPantryQty.stderr}`);
+check("S9e: pantry add rejects --qty 0", run("pantry", "add", pantryOats.id, "--qty", "0").exitCode === 1);
+const batchPantry = JSON.parse(run("log-batch", JSON.stringify([{ foodId: pantryOats.id, qty: 50, unit: "g" }])).stdout);
+check("S9e: log-batch draws the pantry down", batchPantry.pantry?.[0]?.remaining === 50 && batchPantry.count === 1, `stdout=${JSON.stringify(batchPantry)}`);
+
+// ============================================================
+// Section 9f: Search ranking
+// ============================================================
+console.log("\n--- Section 9f: Search ranking ---");
+resetDb();
+
+run("foods", "add", "Protein Bar Chocolate", "--calories", "200");
+const vanillaBar = JSON.parse(run("foods", "add", "Protein Bar Vanilla", "--calories", "210").stdout);
+run("log", "--food-id", vanillaBar.id, "--date", "-2");
+const rankedSearch = JSON.parse(run("search", "protein", "bar").stdout);
+check("S9f: logged food ranks first", rankedSearch.rank === "personal" && rankedSearch.results[0]?.id === vanillaBar.id && typeof rankedSearch.results[0]?.score === "number", `results=${JSON.stringify(rankedSearch.results.map((r: { description: string; score?: number }) => [r.description, r.score]))}`);
+const ftsSearch = JSON.parse(run("search", "protein", "bar", "--rank", "fts").stdout);
+check("S9f: --rank fts has no scores", ftsSearch.rank === "fts" && ftsSearch.results.every((r: { score?: number }) => r.score === undefined), `stdout=${JSON.stringify(ftsSearch)}`);
+
+// ============================================================
+// Section 9g: Search filters
+// ============================================================
+console.log("\n--- Section 9g: Search filters ---");
+resetDb();
+
+const leanFood = JSON.parse(run("foods", "add", "Turkey Slices", "--calories", "110", "--protein", "22", "--serving", "100g").stdout);
+run("foods", "add", "Turkey Sausage", "--calories", "250", "--protein", "14", "--serving", "100g");
+run("foods", "add", "Turkey Jerky", "--calories", "80", "--protein", "11", "--serving", "1 piece");
+const filtered = JSON.parse(run("search", "turkey", "--min-protein", "15", "--max-calories", "200").stdout);
+check("S9g: bounds filter per 100g", filtered.count === 1 && filtered.results[0]?.id === leanFood.id && filtered.results[0]?.per?.basis === "100g", `results=${JSON.stringify(filtered.results.map((r: { description: string }) => r.description))}`);
+const browsed = JSON.parse(run("search", "--per", "serving", "--sort", "protein-per-calorie").stdout);
+check("S9g: browse without query sorts per calorie", browsed.matchType === "browse" && browsed.count === 3 && browsed.results[0]?.id === leanFood.id && browsed.results[0]?.sortValue === 20, `stdout=${JSON.stringify(browsed.results.map((r: { description: string; sortValue?: number }) => [r.description, r.sortValue]))}`);
+const badBound = run("search", "turkey", "--min-bogus", "5");
+check("S9g: unknown nutrient bound exits 1", badBound.exitCode === 1, `exit=${badBound.exitCode}`);
+
+const brandedTurkey = JSON.parse(run("foods", "add", "Turkey Bacon", "--brand", "Butterball", "--barcode", "022655715013", "--calories", "35").stdout);
+const generic = JSON.parse(run("search", "turkey", "--generic-only", "--source", "custom").stdout);
+check("S9g: --generic-only drops branded foods", generic.count === 3 && generic.results.every((r: { brand: string | null }) => r.brand === null), `results=${JSON.stringify(generic.results.map((r: { description: string }) => r.description))}`);
+const byBrand = JSON.parse(run("search", "turkey", "--brand", "butter", "--has-barcode", "--source", "custom").stdout);
+check("S9g: --brand and --has-barcode", byBrand.count === 1 && byBrand.results[0]?.id === brandedTurkey.id && byBrand.filters?.brand === "butter", `stdout=${JSON.stringify(byBrand)}`);
+const page = JSON.parse(run("search", "turkey", "--source", "custom", "--rank", "fts", "--limit", "2", "--offset", "2").stdout);
+check("S9g: --offset pages results", page.offset === 2 && page.count === 2, `stdout=${JSON.stringify(page)}`);
+
+// ============================================================
+// Section 9h: Barcode normalization
+// ============================================================
+console.log("\n--- Section 9h: Barcode normalization ---");
+resetDb();
+
+const upcFood = JSON.parse(run("foods", "add", "Cola Can", "--barcode", "049000028911", "--calories", "140").stdout);
+const gtinLookup = JSON.parse(run("lookup", "00049000028911").stdout);
+check("S9h: GTIN-14 finds food saved by UPC-A", gtinLookup.found === true && gtinLookup.id === upcFood.id && gtinLookup.canonical === "00049000028911", `stdout=${JSON.stringify(gtinLookup)}`);
+const upcEFood = JSON.parse(run("foods", "add", "Mint Gum", "--barcode", "04252614", "--calories", "5").stdout);
+const upcELookup = JSON.parse(run("lookup", "042100005264").stdout);
+check("S9h: UPC-A finds food saved by UPC-E", upcELookup.found === true && upcELookup.id === upcEFood.id, `stdout=${JSON.stringify(upcELookup)}`);
+const shortFood = JSON.parse(run("foods", "add", "Corn Chips", "--barcode", "0048500001", "--calories", "160").stdout);
+const paddedLookup = JSON.parse(run("lookup", "00048500001").stdout);
+check("S9h: leading zeros don't matter for short codes", paddedLookup.found === true && paddedLookup.id === shortFood.id, `stdout=${JSON.stringify(paddedLookup)}`);
+run("foods", "edit", upcFood.id, "--barcode", "5000112637922");
+const editedLookup = JSON.parse(run("lookup", "05000112637922").stdout);
+check("S9h: edited barcode is looked up by its new key", editedLookup.id === upcFood.id && !run("lookup", "049000028911").stdout.includes(upcFood.id), `stdout=${JSON.stringify(editedLookup)}`);
+
+// Databases from before barcode keys get them backfilled
+runEval(`
+  import { initializeDatabase, getDb } from "./src/db.ts";
+  initializeDatabase();
+  const db = getDb();
+  db.exec("DROP INDEX idx_custom_foods_barcode_key");
+  db.exec("ALTER TABLE custom_foods DROP COLUMN barcode_key");
+  db.exec("PRAGMA user_version = 7");
+`);
+const backfilledLookup = JSON.parse(run("lookup", "042100005264").stdout);
+check("S9h: migration backfills barcode keys", backfilledLookup.found === true && backfilledLookup.id === upcEFood.id, `stdout=${JSON.stringify(backfilledLookup)}`);
+
+// A stand-in USDA database, only when there is no real one to clobber
+const usdaPath = join(dataDir, "usda", "usda_fdc.sqlite");
+if (!existsSync(usdaPath)) {
+  runEval(`
+    import { Database } from "bun:sqlite";
+    import { mkdirSync } from "node:fs";
+    mkdirSync(${JSON.stringify(join(dataDir, "usda"))}, { recursive: true });
+    const db = new Database(${JSON.stringify(usdaPath)});
+    db.exec("CREATE TABLE food (fdc_id INTEGER PRIMARY KEY, description TEXT, brand TEXT, barcode TEXT, data TEXT)");
+    db.query("INSERT INTO food VALUES (1, 'Tortilla Chips', 'Acme', '0071234500', '{\\"cal\\":140}')").run();
+    db.query("INSERT INTO food VALUES (2, 'Diet Cola', 'Fizz', '00049000028911', '{\\"cal\\":0}')").run();
+    db.close();
+  `);
+  const usdaShort = JSON.parse(run("lookup", "00071234500").stdout);
+  check("S9h: USDA short code found with extra leading zero", usdaShort.found === true && usdaShort.fdcId === 1, `stdout=${JSON.stringify(usdaShort)}`);
+  const usdaUpc = JSON.parse(run("lookup", "049000028911").stdout);
+  check("S9h: USDA GTIN-14 found by its UPC-A", usdaUpc.found === true && usdaUpc.fdcId === 2, `stdout=${JSON.stringify(usdaUpc)}`);
+  rmSync(join(dataDir, "usda"), { recursive: true });
+}
+
 // ============================================================
 // Section 10: Error cases
 // ============================================================
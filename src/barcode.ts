@@ -0,0 +1,69 @@
+/**
+ * Barcode normalization. UPC-A, UPC-E, EAN-8, EAN-13 and GTIN-14 forms of one product
+ * all come down to the same zero-padded GTIN-14, which is what lookups compare.
+ */
+
+export type BarcodeFormat = "upc-a" | "upc-e" | "ean-8" | "ean-13" | "gtin-14";
+
+export interface NormalizedBarcode {
+  /** 14 digits, zero-padded */
+  gtin14: string;
+  format: BarcodeFormat;
+}
+
+/** Spaces and dashes dropped, as printed under the bars ("0 12345 67890 5") */
+export function cleanBarcode(input: string): string {
+  return input.replace(/[\s-]/g, "");
+}
+
+/** GS1 check digit for the digits before it: weights 3 and 1 alternating from the right */
+export function gtinCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = body.charCodeAt(body.length - 1 - i) - 48;
+    sum += digit * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function hasValidCheckDigit(digits: string): boolean {
+  return /^\d{8,14}$/.test(digits) && gtinCheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+}
+
+/** The UPC-A an 8-digit UPC-E stands for (number system, six digits, check); null if not UPC-E */
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+  const [ns, x1, x2, x3, x4, x5, x6, check] = code.split("") as [string, string, string, string, string, string, string, string];
+  let body: string;
+  if (x6 === "0" || x6 === "1" || x6 === "2") body = `${x1}${x2}${x6}0000${x3}${x4}${x5}`;
+  else if (x6 === "3") body = `${x1}${x2}${x3}00000${x4}${x5}`;
+  else if (x6 === "4") body = `${x1}${x2}${x3}${x4}00000${x5}`;
+  else body = `${x1}${x2}${x3}${x4}${x5}0000${x6}`;
+  return `${ns}${body}${check}`;
+}
+
+/** GTIN-14 for a UPC-A, UPC-E, EAN-8, EAN-13 or GTIN-14; null when it isn't one */
+export function normalizeBarcode(input: string): NormalizedBarcode | null {
+  const digits = cleanBarcode(input);
+  if (!/^\d+$/.test(digits)) return null;
+
+  if (digits.length === 8) {
+    const upcA = expandUpcE(digits);
+    if (upcA && hasValidCheckDigit(upcA)) return { gtin14: upcA.padStart(14, "0"), format: "upc-e" };
+  }
+  const format = ({ 8: "ean-8", 12: "upc-a", 13: "ean-13", 14: "gtin-14" } as Record<number, BarcodeFormat>)[digits.length];
+  if (!format || !hasValidCheckDigit(digits)) return null;
+  return { gtin14: digits.padStart(14, "0"), format };
+}
+
+/**
+ * What a barcode is stored and looked up by. Digit codes are zero-padded to 14 like a
+ * GTIN (UPC-E expanded first), so forms that differ only in leading zeros meet, even when
+ * the check digit is off; anything else is kept as typed. Null for a blank barcode.
+ */
+export function barcodeKey(input: string | null | undefined): string | null {
+  const code = cleanBarcode(input ?? "");
+  if (!code) return null;
+  if (!/^\d{1,14}$/.test(code)) return code;
+  return normalizeBarcode(code)?.gtin14 ?? code.padStart(14, "0");
+}
@@ -0,0 +1,88 @@
+/**
+ * Starting goals from body stats: BMR from Mifflin-St Jeor (Katch-McArdle when body fat
+ * is known) times an activity factor, adjusted for the objective.
+ */
+
+import type { Sex } from "./dri";
+
+export const ACTIVITY_FACTORS = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  "very-active": 1.9,
+} as const;
+
+export type ActivityLevel = keyof typeof ACTIVITY_FACTORS;
+
+interface ObjectiveSpec {
+  /** Multiplier on TDEE */
+  calories: number;
+  /** Grams per kg of body weight */
+  proteinPerKg: number;
+  /** Share of calories from fat */
+  fatShare: number;
+}
+
+// Higher protein on a cut preserves lean mass; a modest surplus limits fat gain on a bulk
+export const OBJECTIVES = {
+  cut: { calories: 0.8, proteinPerKg: 2.0, fatShare: 0.25 },
+  maintain: { calories: 1, proteinPerKg: 1.6, fatShare: 0.3 },
+  bulk: { calories: 1.1, proteinPerKg: 1.8, fatShare: 0.25 },
+} as const satisfies Record<string, ObjectiveSpec>;
+
+export type Objective = keyof typeof OBJECTIVES;
+
+export type BmrFormula = "mifflin-st-jeor" | "katch-mcardle";
+
+export interface BodyStats {
+  sex: Sex;
+  age: number;
+  heightCm: number;
+  weightKg: number;
+  bodyFatPct: number | null;
+}
+
+export interface GoalSuggestion {
+  formula: BmrFormula;
+  bmr: number;
+  tdee: number;
+  proteinPerKg: number;
+  goals: { calories: number; protein: number; carbs: number; fat: number; fiber: number };
+}
+
+export function isActivityLevel(value: string): value is ActivityLevel {
+  return Object.hasOwn(ACTIVITY_FACTORS, value);
+}
+
+export function isObjective(value: string): value is Objective {
+  return Object.hasOwn(OBJECTIVES, value);
+}
+
+export function mifflinStJeor(stats: Pick<BodyStats, "sex" | "age" | "heightCm" | "weightKg">): number {
+  return 10 * stats.weightKg + 6.25 * stats.heightCm - 5 * stats.age + (stats.sex === "male" ? 5 : -161);
+}
+
+export function katchMcArdle(weightKg: number, bodyFatPct: number): number {
+  return 370 + 21.6 * weightKg * (1 - bodyFatPct / 100);
+}
+
+export function suggestGoals(stats: BodyStats, activity: ActivityLevel, objective: Objective): GoalSuggestion {
+  const formula: BmrFormula = stats.bodyFatPct !== null ? "katch-mcardle" : "mifflin-st-jeor";
+  const bmr = stats.bodyFatPct !== null ? katchMcArdle(stats.weightKg, stats.bodyFatPct) : mifflinStJeor(stats);
+  const tdee = bmr * ACTIVITY_FACTORS[activity];
+  const spec = OBJECTIVES[objective];
+
+  const calories = Math.round((tdee * spec.calories) / 10) * 10;
+  const protein = Math.round(stats.weightKg * spec.proteinPerKg);
+  const fat = Math.round((calories * spec.fatShare) / 9);
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4));
+  return {
+    formula,
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    proteinPerKg: spec.proteinPerKg,
+    // Fiber at 14 g per 1000 kcal
+    goals: { calories, protein, carbs, fat, fiber: Math.round((calories / 1000) * 14) },
+  };
+}
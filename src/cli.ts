@@ -2,13 +2,15 @@
 import {
   searchFoods,
   lookupBarcode,
-  logMeal,
+  getFoodById,
+  logMeals,
   getMealById,
   deleteMeal,
   updateMeal,
   getMealsByDate,
   getMealHistory,
   getDailyTotals,
+  getNutrientCoverage,
   isUSDBAvailable,
   loadConfig,
   saveConfig,
@@ -20,27 +22,115 @@ import {
   downloadUSDADatabase,
   usdaDbExists,
   setGoal,
+  setGoalRange,
+  setGoalSplit,
   setGoalTolerance,
+  goalSplit,
   getGoals,
+  getGoalHistory,
+  goalActual,
+  createGoalResolver,
+  copyGoalProfile,
+  listGoalProfiles,
+  listGoalOverrides,
+  setGoalOverride,
+  setGoalSchedule,
+  DEFAULT_GOAL_PROFILE,
+  WEEKDAYS,
+  type Weekday,
   resetGoals,
   addCustomFood,
   listCustomFoods,
+  getCustomFoodById,
   deleteCustomFood,
   searchCustomFoods,
+  getLoggedFoods,
+  browseFoods,
+  scaleAll,
   lookupCustomBarcode,
   addRecipe,
   listRecipes,
   getRecipeById,
   deleteRecipe,
   getRecipeSuggestions,
+  calculateNetCarbs,
+  scaleNutrition,
+  linkUSDAFood,
+  linkCustomFood,
+  addCompositeRecipe,
+  addRecipeIngredient,
+  updateRecipeIngredient,
+  removeRecipeIngredient,
+  recomputeRecipe,
+  customFoodFields,
+  recipeFields,
+  updateCustomFood,
+  restoreCustomFood,
+  updateRecipe,
+  restoreRecipe,
+  listRevisions,
+  createMealGroup,
+  getMealGroupById,
+  getMealGroupsByIds,
+  listMealGroups,
+  getMealsByGroup,
+  getMealGroupTotals,
+  updateMealGroup,
+  deleteMealGroup,
+  addMealsToGroup,
+  removeMealsFromGroup,
+  getProfile,
+  updateProfile,
+  resetProfile,
+  getDriProfile,
+  addPlannedMeal,
+  getPlannedMealById,
+  listPlannedMeals,
+  deletePlannedMeal,
+  logPlannedMeal,
+  getPlannedTotals,
+  getProjectedTotals,
+  getGroceryNeeds,
+  recipeIngredientNeeds,
+  addToPantry,
+  findPantryItem,
+  listPantryItems,
+  usePantry,
+  removePantryItem,
+  getPantryRecipes,
+  isLowStock,
+  addWeighIn,
+  getWeighInById,
+  listWeighIns,
+  getAllWeighIns,
+  updateWeighIn,
+  deleteWeighIn,
   type FoodResult,
+  type NutritionValues,
+  type FoodAttributeFilter,
+  type NutrientCoverage,
+  type MatchType,
+  type SearchMatches,
   type CustomFood,
   type MealResult,
   type Recipe,
   getAllDailyTotals,
   getTrendData,
   type Goal,
+  type GoalDirection,
   type DailyTotal,
+  type Profile,
+  type LogMealInput,
+  type MealGroup,
+  type LinkedFood,
+  type RecipeIngredient,
+  type RecipeIngredientInput,
+  type Revision,
+  type WeighIn,
+  type PantryItem,
+  type PantrySource,
+  type PlannedMeal,
+  type PlannedMealInput,
 } from "./db";
 import {
   ConfigUpdatePayloadSchema,
@@ -48,37 +138,142 @@ import {
   CustomFoodListItemSchema,
   CustomFoodSearchOutputSchema,
   DeletePayloadSchema,
+  DriPayloadSchema,
   EditPayloadSchema,
   FoodOutputSchema,
   FoodsAddPayloadSchema,
   FoodsDeletePayloadSchema,
+  FoodsEditPayloadSchema,
   FoodsListPayloadSchema,
+  GoalsHistoryPayloadSchema,
+  GoalOverridePayloadSchema,
+  GoalProfilesPayloadSchema,
+  GoalSchedulePayloadSchema,
   GoalsResetPayloadSchema,
+  GroupCreatePayloadSchema,
+  GroupDeletePayloadSchema,
+  GroupEditPayloadSchema,
+  GroupListPayloadSchema,
+  GroupMembershipPayloadSchema,
   GoalsSetPayloadSchema,
+  GoalsSuggestPayloadSchema,
   GoalsViewPayloadSchema,
+  GroceryPayloadSchema,
   HistoryPayloadSchema,
   InitPayloadSchema,
+  LogBatchInputSchema,
+  LogBatchPayloadSchema,
   LogPayloadSchema,
   LookupPayloadSchema,
+  MealGroupDetailSchema,
+  MealGroupOutputSchema,
   MealOutputSchema,
+  PantryAddPayloadSchema,
+  PantryItemSchema,
+  PantryListPayloadSchema,
+  PantryRecipesPayloadSchema,
+  PantryRemovePayloadSchema,
+  PantryUsePayloadSchema,
+  PlanAddPayloadSchema,
+  PlanDeletePayloadSchema,
+  PlanListPayloadSchema,
+  PlanLogPayloadSchema,
+  PlannedMealOutputSchema,
+  ProfilePayloadSchema,
   ProgressPayloadSchema,
   RecipeCreatePayloadSchema,
   RecipeDeletePayloadSchema,
+  RecipeEditPayloadSchema,
+  RecipeIngredientsInputSchema,
+  RecipeIngredientPayloadSchema,
   RecipeApplySuggestionPayloadSchema,
   RecipeListPayloadSchema,
   RecipeLogPayloadSchema,
   RecipeOutputSchema,
+  RestorePayloadSchema,
+  RevisionHistoryPayloadSchema,
   SearchPayloadSchema,
+  TdeePayloadSchema,
   TodayPayloadSchema,
   TrendRecipeSuggestionsPayloadSchema,
   TrendsPayloadSchema,
+  WeightDeletePayloadSchema,
+  WeightEditPayloadSchema,
+  WeightListPayloadSchema,
+  WeightLogPayloadSchema,
   type CustomFoodListItem,
+  type DriReport,
   type CustomFoodSearchOutput,
   type FoodOutput,
+  type GroceryItemOutput,
+  type LogBatchItem,
+  type LogBatchMeal,
+  type MealGroupDetail,
   type MealOutput,
+  type PantryItemOutput,
+  type PantryUseOutput,
+  type PlanDay,
+  type PlannedMealOutput,
+  type RecipeIngredientInputItem,
   type RecipeOutput,
   type RecipeSuggestionOutput,
+  type SplitReport,
+  type WeighInOutput,
+  type WeightSummary,
 } from "./contracts";
+import { normalizeBarcode } from "./barcode";
+import { ACTIVITY_FACTORS, isActivityLevel, isObjective, suggestGoals, type ActivityLevel, type Objective } from "./bmr";
+import { formatLocalDate, formatLocalDateTime, parseDay, parseLocalDateTime, resolveTimestamp } from "./dates";
+import { compareToReference, getReferenceValues, lifeStageGroup, type Sex } from "./dri";
+import {
+  basisMultiplier,
+  matchesBounds,
+  parseNutrientSort,
+  readNutrientBounds,
+  sortValue,
+  type FilterBasis,
+} from "./filters";
+import { buildGroceryList } from "./grocery";
+import {
+  GOAL_KEYS,
+  SPLIT_GOAL_KEYS,
+  describeNutrientFlags,
+  formatNutrients,
+  getNutrient,
+  goalFlag,
+  goalLabel,
+  mergeNutrients,
+  nutrientsFromFlags,
+  scaleNutrients,
+  sumNutrients,
+  type NutrientMap,
+} from "./nutrients";
+import { rankResults, type RankCandidate } from "./ranking";
+import {
+  SPLIT_MACROS,
+  isEnergyFactors,
+  macroShares,
+  parseSplit,
+  splitToGrams,
+  type EnergyFactors,
+  type MacroSplit,
+} from "./split";
+import { MIN_TDEE_DAYS, caloriesForRate, confidenceLevel, estimateTdee } from "./tdee";
+import { customFoodMeasures, usdaFoodMeasures, type FoodMeasures } from "./units";
+import {
+  fromCm,
+  fromKg,
+  isWeightInRange,
+  MAX_WEIGHT_KG,
+  isWeightUnit,
+  lengthUnitFor,
+  parseLength,
+  toCm,
+  toKg,
+  trendRate,
+  weightTrend,
+  type WeightUnit,
+} from "./weight";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
 
@@ -88,6 +283,11 @@ export interface CommandResult {
   exitCode: number;
 }
 
+export interface CommandOptions {
+  /** Reads piped input for commands that accept it; omitted where stdin is not ours (MCP) */
+  readStdin?: () => Promise<string>;
+}
+
 class CliError extends Error {
   constructor(message: string) {
     super(message);
@@ -152,12 +352,25 @@ function parseNonNegativeInt(value: string | undefined, defaultValue: number, ma
   return Math.min(n, max);
 }
 
+// Amounts that scale linked nutrition; bad input would store negative or made-up totals
+function parseQuantity(value: string | undefined, defaultValue: number, flag: string = "qty"): number {
+  if (value === undefined) return defaultValue;
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n) || n <= 0) {
+    throw new CliError(`Invalid --${flag} "${value}". Must be a number greater than 0.`);
+  }
+  return n;
+}
+
 function parseOptionalFloat(value: string | undefined): number | undefined {
   if (value === undefined) return undefined;
   const n = parseFloat(value);
   return isNaN(n) ? undefined : n;
 }
 
+// From strictest to loosest; "none" means nothing matched
+const MATCH_TYPE_ORDER: MatchType[] = ["none", "browse", "exact", "prefix", "fuzzy"];
+
 const VALID_MEAL_TYPES = new Set(["breakfast", "lunch", "dinner", "snack"]);
 
 function parseOutput<T>(schema: { parse: (data: unknown) => T }, data: unknown): T {
@@ -179,6 +392,7 @@ function formatFood(food: FoodResult): FoodOutput {
     netCarbs: food.netCarbs,
     sugar: food.sugar,
     sodium: food.sodium,
+    nutrients: food.nutrients,
     source: "usda",
   });
 }
@@ -198,6 +412,7 @@ function formatCustomFood(f: CustomFood): CustomFoodSearchOutput {
     netCarbs: f.netCarbs,
     sugar: f.sugar,
     sodium: f.sodium,
+    nutrients: f.nutrients,
     source: "custom",
   });
 }
@@ -206,17 +421,23 @@ function formatMeal(meal: MealResult): MealOutput {
   return parseOutput(MealOutputSchema, {
     id: meal.id,
     foodName: meal.foodName,
+    foodId: meal.foodId,
+    barcode: meal.barcode,
     quantity: meal.quantity,
     unit: meal.unit,
     mealType: meal.mealType,
     loggedAt: meal.loggedAt,
     notes: meal.notes,
+    groupId: meal.groupId,
     calories: meal.calories,
     protein: meal.protein,
     carbs: meal.carbs,
     fat: meal.fat,
     fiber: meal.fiber,
+    sugar: meal.sugar,
+    sodium: meal.sodium,
     netCarbs: meal.netCarbs,
+    nutrients: meal.nutrients,
   });
 }
 
@@ -235,15 +456,46 @@ function formatCustomFoodListItem(food: CustomFood): CustomFoodListItem {
     netCarbs: food.netCarbs,
     sugar: food.sugar,
     sodium: food.sodium,
+    nutrients: food.nutrients,
     createdAt: food.createdAt,
   });
 }
 
+function formatMealGroup(group: MealGroup) {
+  return parseOutput(MealGroupOutputSchema, group);
+}
+
+function formatMealGroupDetail(group: MealGroup): MealGroupDetail {
+  return parseOutput(MealGroupDetailSchema, {
+    ...group,
+    totals: getMealGroupTotals(group.id),
+    meals: getMealsByGroup(group.id).map(formatMeal),
+  });
+}
+
+/** Split meals into ungrouped ones and the full groups the rest belong to */
+function nestMealsByGroup(meals: MealResult[]): { meals: MealResult[]; groups: MealGroupDetail[] } {
+  const groupIds = [...new Set(meals.flatMap((m) => (m.groupId ? [m.groupId] : [])))];
+  return {
+    meals: meals.filter((m) => !m.groupId),
+    groups: getMealGroupsByIds(groupIds).map(formatMealGroupDetail),
+  };
+}
+
+function formatMealGroupSummary(group: MealGroupDetail): string {
+  return `${group.name} [${group.mealType}] ${group.loggedAt} (${group.id})\n` +
+    `  ${group.totals.mealCount} items | ${formatNutritionSummary(group.totals)}${group.notes ? ` | ${group.notes}` : ""}` +
+    (group.meals.length > 0
+      ? "\n" + group.meals.map((m) => `  - ${m.foodName} (${m.quantity} ${m.unit}): ${formatNutritionSummary(m)}`).join("\n")
+      : "");
+}
+
 function formatRecipe(recipe: Recipe): RecipeOutput {
   return parseOutput(RecipeOutputSchema, {
     id: recipe.id,
     name: recipe.name,
     servingSize: recipe.servingSize,
+    servings: recipe.servings,
     calories: recipe.calories,
     protein: recipe.protein,
     carbs: recipe.carbs,
@@ -252,10 +504,39 @@ function formatRecipe(recipe: Recipe): RecipeOutput {
     netCarbs: recipe.netCarbs,
     sugar: recipe.sugar,
     sodium: recipe.sodium,
+    nutrients: recipe.nutrients,
+    ingredients: recipe.ingredients,
     createdAt: recipe.createdAt,
   });
 }
 
+function formatRevisions(revisions: Revision[]): string {
+  if (revisions.length === 0) return "No revisions";
+  return revisions.map((r) => {
+    const values = Object.entries(r.data)
+      .filter(([key]) => r.changed.includes(key))
+      .map(([key, value]) => `${key}: ${Array.isArray(value) ? `${value.length} items` : value ?? "-"}`);
+    return `#${r.revision} ${r.createdAt} | changed: ${r.changed.join(", ")}` +
+      (values.length > 0 ? `\n   was ${values.join(" | ")}` : "");
+  }).join("\n");
+}
+
+function formatRecipeDetail(recipe: Recipe): string {
+  const lines = [
+    `${recipe.name} [${recipe.id}]`,
+    `Yield: ${recipe.servings} serving${recipe.servings === 1 ? "" : "s"}${recipe.servingSize ? ` of ${recipe.servingSize}` : ""}`,
+    `Per serving: ${formatNutritionSummary(recipe)}`,
+  ];
+  if (Object.keys(recipe.nutrients).length > 0) lines.push(`  ${formatNutrients(recipe.nutrients)}`);
+  if (recipe.ingredients.length > 0) {
+    lines.push("", "Ingredients:");
+    lines.push(...recipe.ingredients.map((i: RecipeIngredient) =>
+      `- [${i.id}] ${i.name} (${i.quantity} ${i.unit}, ${i.source} ${i.refId})\n  ${formatNutritionSummary(i)}`
+    ));
+  }
+  return lines.join("\n");
+}
+
 function formatNutritionSummary(values: {
   calories: number | null;
   protein: number | null;
@@ -273,9 +554,240 @@ function formatNutritionSummary(values: {
   return `${values.calories ?? "?"} cal | ${values.protein ?? "?"}p ${carbSummary} ${values.fat ?? "?"}f${fiberSummary}`;
 }
 
-function scaleNutrition(value: number | null, multiplier: number): number | null {
-  if (value === null) return null;
-  return Math.round(value * multiplier * 10) / 10;
+// Core totals and the nutrient map flattened into one intake record
+function driIntake(totals: {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+  nutrients: NutrientMap;
+}): Record<string, number> {
+  return {
+    calories: totals.calories,
+    protein: totals.protein,
+    carbs: totals.carbs,
+    fat: totals.fat,
+    fiber: totals.fiber,
+    sodium: totals.sodium,
+    ...totals.nutrients,
+  };
+}
+
+function buildDriReport(intake: Record<string, number>, coverage: NutrientCoverage, useDailyValues: boolean): DriReport {
+  const references = getReferenceValues(useDailyValues ? null : getDriProfile());
+  return {
+    basis: references.basis,
+    group: references.group,
+    mealCount: coverage.mealCount,
+    nutrients: compareToReference(intake, references, coverage),
+  };
+}
+
+function formatDriReport(report: DriReport): string {
+  const marks = { below: "", met: " ✓", within: "", over: " ⚠", unknown: "" };
+  return `Reference: ${report.group}\n` +
+    report.nutrients.map((n) =>
+      `  ${n.name.padEnd(20)} ${`${n.intake ?? "?"} / ${n.amount} ${n.unit}`.padEnd(24)} ${String(n.percent ?? "?").padStart(4)}%` +
+      `${n.kind === "limit" ? " (limit)" : ""}${marks[n.status]}` +
+      (n.mealsWithData === 0 && report.mealCount > 0 ? " (no data)"
+        : n.mealsWithData < report.mealCount ? ` (data for ${n.mealsWithData} of ${report.mealCount} meals)` : "")
+    ).join("\n");
+}
+
+function formatProfile(profile: Profile): string {
+  if (profile.age === null && profile.sex === null && profile.heightCm === null) return "No profile set";
+  return [
+    `Age: ${profile.age ?? "-"}`,
+    `Sex: ${profile.sex ?? "-"}`,
+    ...(profile.lifeStage ? [`Life stage: ${profile.lifeStage}`] : []),
+    ...(profile.heightCm !== null ? [`Height: ${profile.heightCm} cm`] : []),
+  ].join(" | ");
+}
+
+/** Actual energy split, plus the target and its gram equivalents when split goals are in force */
+function buildSplitReport(
+  totals: { protein: number; carbs: number; fat: number; fiber: number },
+  goals: Goal[],
+  factors: EnergyFactors
+): SplitReport {
+  const report: SplitReport = { factors, actual: macroShares(totals, factors) };
+  const target = goalSplit(goals);
+  if (target) {
+    report.target = target;
+    const calories = goals.find((g) => g.key === "calories");
+    if (calories) report.grams = splitToGrams(calories.target, target);
+  }
+  return report;
+}
+
+function formatSplit(split: MacroSplit): string {
+  return SPLIT_MACROS.map((m) => split[m]).join("/");
+}
+
+function formatSplitReport(report: SplitReport): string {
+  return `Split (carbs/protein/fat %): ${formatSplit(report.actual)}` +
+    (report.target ? ` | target ${formatSplit(report.target)}` : "") +
+    (report.grams ? ` (${report.grams.carbs}c ${report.grams.protein}p ${report.grams.fat}f g)` : "");
+}
+
+function formatPlannedMeal(p: PlannedMeal): PlannedMealOutput {
+  return parseOutput(PlannedMealOutputSchema, {
+    id: p.id,
+    plannedFor: p.plannedFor,
+    mealType: p.mealType,
+    source: p.source,
+    refId: p.refId,
+    foodName: p.foodName,
+    quantity: p.quantity,
+    unit: p.unit,
+    notes: p.notes,
+    calories: p.calories,
+    protein: p.protein,
+    carbs: p.carbs,
+    fat: p.fat,
+    fiber: p.fiber,
+    sugar: p.sugar,
+    sodium: p.sodium,
+    netCarbs: calculateNetCarbs(p.carbs, p.fiber),
+    nutrients: p.nutrients,
+    status: p.mealId ? "logged" : "planned",
+    mealId: p.mealId,
+  });
+}
+
+function formatPlannedMealLine(p: PlannedMealOutput): string {
+  return `[${p.id}] ${p.plannedFor} ${p.mealType}: ${p.foodName} (${p.quantity} ${p.unit})` +
+    `${p.status === "logged" ? " ✓ logged" : ""}\n  ${formatNutritionSummary(p)}${p.notes ? ` | ${p.notes}` : ""}`;
+}
+
+/** A day's plan with the end-of-day projection (logged + still planned); null with nothing planned */
+function buildPlanDay(date: string, goals: Goal[], factors: EnergyFactors): PlanDay | null {
+  const items = listPlannedMeals({ from: date, to: date });
+  if (items.length === 0) return null;
+  const projected = getProjectedTotals(date);
+  const day: PlanDay = {
+    items: items.map(formatPlannedMeal),
+    planned: getPlannedTotals(date),
+    pending: getPlannedTotals(date, true),
+    projected,
+  };
+  if (goals.length > 0) {
+    day.projectedRemaining = Object.fromEntries(
+      goals.map((g) => [g.key, Math.round((g.target - goalActual(projected, g.key, factors)) * 10) / 10])
+    );
+  }
+  return day;
+}
+
+function formatGroceryLine(item: GroceryItemOutput): string {
+  const amounts = item.quantities.map((q) => `${q.amount} ${q.unit}`).join(" + ");
+  return `[ ] ${item.name} — ${amounts}` + (item.recipes.length > 0 ? ` (${item.recipes.join(", ")})` : "");
+}
+
+function formatPantryItem(item: PantryItem): PantryItemOutput {
+  return parseOutput(PantryItemSchema, { ...item, low: isLowStock(item) });
+}
+
+function formatPantryLine(item: PantryItemOutput): string {
+  return `[${item.refId}] ${item.name}: ${item.quantity} ${item.unit}` +
+    (item.lowStock !== null ? ` (low at ${item.lowStock})` : "") + (item.low ? " ⚠ low" : "");
+}
+
+/** A restock hint for each pantry item that is now low or out */
+function pantryHints(items: Array<{ refId: string; unit: string; low: boolean }>): Array<{ action: string; command: string; confidence: number }> {
+  return items.filter((i) => i.low).map((i) => ({
+    action: "restock",
+    command: `nomnom pantry add ${i.refId} --qty <n> --unit ${/\s/.test(i.unit) ? shellQuote(i.unit) : i.unit}`,
+    confidence: 0.7,
+  }));
+}
+
+/** Human summary of what logging took from the pantry; empty when nothing tracked was used */
+function formatPantryUses(uses: PantryUseOutput[]): string {
+  if (uses.length === 0) return "";
+  return "\nPantry: " + uses.map((u) =>
+    u.used === null
+      ? `${u.name} not updated (can't convert to ${u.unit})`
+      : `${u.name} ${u.remaining} ${u.unit} left${u.low ? " ⚠ low" : ""}`
+  ).join(" | ");
+}
+
+function formatPlanDay(plan: PlanDay): string {
+  const logged = plan.items.filter((p) => p.status === "logged").length;
+  const { projected } = plan;
+  return `Plan: ${plan.items.length} items (${logged} logged) | projected ${projected.calories} cal | ` +
+    `${projected.protein}p ${projected.carbs}c ${projected.fat}f` +
+    (plan.projectedRemaining
+      ? `\nProjected remaining: ${Object.entries(plan.projectedRemaining).map(([k, v]) => `${k}: ${v}`).join(" | ")}`
+      : "") +
+    `\n${plan.items.map((p) => `- [${p.mealType}] ${p.foodName} (${p.quantity} ${p.unit}) ${p.status}`).join("\n")}`;
+}
+
+/** Trend by day and the current summary over every weigh-in, in `unit` */
+function buildWeightReport(unit: WeightUnit): { trendByDate: Map<string, number>; summary: WeightSummary } {
+  const trend = weightTrend(getAllWeighIns().map((w) => ({ date: w.weighedAt.slice(0, 10), weightKg: w.weightKg })));
+  const last = trend[trend.length - 1];
+  const rate = trendRate(trend);
+  return {
+    trendByDate: new Map(trend.map((p) => [p.date, p.trendKg])),
+    summary: {
+      unit,
+      latest: last ? fromKg(last.weightKg, unit) : null,
+      trend: last ? fromKg(last.trendKg, unit) : null,
+      ratePerWeek: rate ? fromKg(rate.perWeekKg, unit) : null,
+      rateWindowDays: rate ? rate.days : null,
+    },
+  };
+}
+
+function formatWeighIn(w: WeighIn, trendKg: number, unit: WeightUnit): WeighInOutput {
+  const waistUnit = lengthUnitFor(unit);
+  return {
+    id: w.id,
+    weighedAt: w.weighedAt,
+    weight: fromKg(w.weightKg, unit),
+    unit,
+    trend: fromKg(trendKg, unit),
+    bodyFatPct: w.bodyFatPct,
+    waist: w.waistCm === null ? null : fromCm(w.waistCm, waistUnit),
+    waistUnit,
+    notes: w.notes,
+  };
+}
+
+function formatWeighInLine(w: WeighInOutput): string {
+  return `[${w.id}] ${w.weighedAt.slice(0, 16)} | ${w.weight} ${w.unit} (trend ${w.trend})` +
+    (w.bodyFatPct !== null ? ` | ${w.bodyFatPct}% body fat` : "") +
+    (w.waist !== null ? ` | waist ${w.waist} ${w.waistUnit}` : "") +
+    (w.notes ? ` | ${w.notes}` : "");
+}
+
+function formatWeightRate(summary: WeightSummary): string {
+  if (summary.ratePerWeek === null) return "rate needs weigh-ins on two different days";
+  const sign = summary.ratePerWeek > 0 ? "+" : "";
+  return `${sign}${summary.ratePerWeek} ${summary.unit}/week over ${summary.rateWindowDays} days`;
+}
+
+interface FoodRefInput {
+  fdc?: string;
+  foodId?: string;
+  barcode?: string;
+}
+
+function scaleRecipe(recipe: Recipe, multiplier: number) {
+  return {
+    calories: scaleNutrition(recipe.calories, multiplier),
+    protein: scaleNutrition(recipe.protein, multiplier),
+    carbs: scaleNutrition(recipe.carbs, multiplier),
+    fat: scaleNutrition(recipe.fat, multiplier),
+    fiber: scaleNutrition(recipe.fiber, multiplier),
+    sugar: scaleNutrition(recipe.sugar, multiplier),
+    sodium: scaleNutrition(recipe.sodium, multiplier),
+    netCarbs: scaleNutrition(recipe.netCarbs, multiplier),
+    nutrients: scaleNutrients(recipe.nutrients, multiplier),
+  };
 }
 
 function shellQuote(value: string): string {
@@ -339,22 +851,66 @@ Commands:
   init                        Initialize database (auto-runs if needed)
     --download-usda           Download USDA food database (~200MB)
     
-  search <query>              Search foods by name (auto-downloads USDA if needed)
+  search <query>              Search foods by name (auto-downloads USDA if needed). The last
+                              word also matches as a prefix, and misspelled words fall back
+                              to close spellings (matchType: exact, prefix or fuzzy)
     --limit <n>               Max results (default: 10)
+    --offset <n>              Skip first N results (default: 0)
+    --rank <r>                personal (default): custom and USDA foods in one list, boosted
+                              by how often and how recently you logged them (see score);
+                              fts: custom foods, then USDA, in plain text-match order
+    --min-<nutrient> <n>      Only foods with at least this much (e.g. --min-protein 20,
+    --max-<nutrient> <n>      --max-calories 200, --max-sodium 400). The query is optional
+                              with filters: without one, all foods are browsed (matchType: browse)
+    --per <basis>             100g (default; 100 ml for drinks) or serving. Foods that can't be
+                              put on this basis are left out
+    --sort <nutrient>         Highest first by a nutrient, or by <nutrient>-per-calorie
+                              (amount per 100 kcal, e.g. protein-per-calorie)
+    --asc                     Lowest first with --sort
+    --brand <name>            Only foods whose brand contains this (case-insensitive)
+    --generic-only            Only foods without a brand ("banana", not banana chips)
+    --branded-only            Only foods with a brand
+    --source <s>              custom or usda (default: both)
+    --has-barcode             Only foods with a barcode
     
-  lookup <barcode>            Lookup food by barcode (auto-downloads USDA if needed)
+  lookup <barcode>            Lookup food by barcode (auto-downloads USDA if needed). UPC-A,
+                              UPC-E, EAN-8, EAN-13 and GTIN-14 forms of a code all match
+                              (canonical: the GTIN-14)
     
   log <food> [options]        Log a meal
+    --fdc <fdcId>             Pull nutrition from a USDA food (name optional)
+    --food-id <id>            Pull nutrition from a custom food (name optional)
+    --barcode <code>          Pull nutrition from a barcode lookup (name optional)
     --qty <n>                 Quantity (default: 1)
-    --unit <u>                Unit (default: serving)
+    --unit <u>                Unit (default: serving). Linked foods convert g, kg, oz, lb,
+                              ml, cup, tbsp, tsp, fl oz and household units like "slice"
     --type <t>                Meal type: breakfast/lunch/dinner/snack
+    --at <when>               Time eaten: "2026-10-18 19:30", "7:30pm", "yesterday 8am"
+    --date <d>                Day eaten: YYYY-MM-DD, yesterday or offset (-1)
     --calories <n>            Calories
     --protein <n>             Protein (g)
     --carbs <n>               Carbs (g)
     --fat <n>                 Fat (g)
     --fiber <n>               Fiber (g)
+    --sugar <n>               Sugar (g)
+    --sodium <n>              Sodium (mg)
+    --<nutrient> <n>          Micronutrients, e.g. --iron 2.1 --vitamin-c 30 (see Nutrients)
     --notes <text>            Notes
+    --group <id>              Add to a meal group (inherits its type and time)
+    --no-pantry               Don't take a linked food out of the pantry
+    Nutrition flags override values pulled from --fdc/--food-id/--barcode.
     
+  log-batch <json>            Log several items atomically (JSON array, or pipe it on stdin)
+    Item fields: food, fdc, foodId, barcode, recipe, qty, unit, multiplier,
+                 type, at, date, notes, calories, protein, carbs, fat, fiber, sugar, sodium,
+                 nutrients (e.g. {"iron": 2.1, "vitaminC": 30})
+    --type <t>                Default meal type for items without one
+    --at <when>               Default time for items without at/date
+    --date <d>                Default day for items without at/date
+    --notes <text>            Default notes
+    --group <id>              Add every item to a meal group
+    --no-pantry               Don't take linked foods and recipe ingredients out of the pantry
+
   delete <id>                 Delete a logged meal by ID
 
   edit <id> [options]         Edit a logged meal
@@ -362,12 +918,18 @@ Commands:
     --qty <n>                 Quantity
     --unit <u>                Unit
     --type <t>                Meal type
+    --at <when>               Move to a new time (keeps the day unless one is given)
+    --date <d>                Move to a new day (keeps the time of day)
     --calories <n>            Calories
     --protein <n>             Protein (g)
     --carbs <n>               Carbs (g)
     --fat <n>                 Fat (g)
     --fiber <n>               Fiber (g)
+    --sugar <n>               Sugar (g)
+    --sodium <n>              Sodium (mg)
+    --<nutrient> <n>          Micronutrients (a flag without a number clears it)
     --notes <text>            Notes
+    Changing --qty/--unit on a meal logged from a food rescales its nutrition.
 
   foods [subcommand]          Manage custom foods
     foods add <name>          Add a custom food
@@ -378,14 +940,24 @@ Commands:
       --fiber <n>             Fiber (g)
       --sugar <n>             Sugar (g)
       --sodium <n>            Sodium (mg)
+      --<nutrient> <n>        Micronutrients per serving (see Nutrients)
       --serving <text>        Serving size description
       --brand <text>          Brand name
       --barcode <text>        Barcode
     foods list                List all custom foods
-    foods delete <id>         Delete a custom food
+    foods edit <id>           Edit a custom food (--name, --brand, --barcode, --serving and
+                              any nutrition flag); recipes using it are recomputed
+    foods history <id>        Show saved previous values
+    foods restore <id>        Restore the latest revision (re-creates a deleted food)
+      --revision <n>          Restore a specific revision
+    foods delete <id>         Delete a custom food (restorable)
 
   recipe [subcommand]         Manage reusable recipe templates
     recipe create <name>      Save a reusable recipe template
+      --ingredients <json>    Build from ingredients, e.g. '[{"fdc":171077,"qty":400,"unit":"g"},
+                              {"foodId":"<id>","qty":2},{"recipe":"<id>","qty":1}]'
+                              (nutrition is computed; do not pass nutrition flags)
+      --servings <n>          Total yield in servings (default: 1); nutrition is per serving
       --calories <n>          Calories
       --protein <n>           Protein (g)
       --carbs <n>             Carbs (g)
@@ -393,22 +965,105 @@ Commands:
       --fiber <n>             Fiber (g)
       --sugar <n>             Sugar (g)
       --sodium <n>            Sodium (mg)
+      --<nutrient> <n>        Micronutrients per serving (see Nutrients)
       --serving <text>        Serving size description
     recipe list               List saved recipes
+    recipe show <id>          Show a recipe with its ingredients
+    recipe edit <id>          Edit --name, --serving, --servings (and nutrition flags on
+                              hand-entered recipes)
+    recipe history <id>       Show saved previous values, including ingredient lists
+    recipe restore <id>       Restore the latest revision (re-creates a deleted recipe)
+      --revision <n>          Restore a specific revision
+    recipe add-ingredient <id> Add an ingredient and recompute
+      --fdc <fdcId> | --food-id <id> | --barcode <code> | --recipe <id>
+      --qty <n>               Quantity (default: 1)
+      --unit <u>              Unit (same conversions as log)
+      --name <text>           Display name override
+    recipe update-ingredient <id> <ingredient-id>  Change --qty/--unit and recompute
+    recipe remove-ingredient <id> <ingredient-id>  Remove an ingredient and recompute
+    recipe refresh <id>       Recompute from current food data
     recipe log <id>           Log a saved recipe
-      --multiplier <n>        Multiply saved nutrition (default: 1)
+      --servings <n>          Servings eaten (default: 1; --multiplier also works)
       --type <t>              Meal type: breakfast/lunch/dinner/snack
+      --at <when>             Time eaten (same forms as log --at)
+      --date <d>              Day eaten (same forms as log --date)
       --notes <text>          Notes
-    recipe delete <id>        Delete a saved recipe
+      --group <id>            Add to a meal group
+      --no-pantry             Don't take its ingredients out of the pantry
+    recipe delete <id>        Delete a saved recipe (restorable)
 
-  today                       Show today's meals and totals
+  group [subcommand]          Tie logged items into one meal occasion
+    group create <name>       Create a meal group
+      --type <t>              Meal type: breakfast/lunch/dinner/snack
+      --at <when>             Shared time (same forms as log --at)
+      --date <d>              Shared day (same forms as log --date)
+      --notes <text>          Notes
+      --meals <id,id,...>     Move existing meals into the group
+    group list                List meal groups
+      --date <d>              Only groups on this day
+      --limit <n>             Max results (default: 20)
+      --offset <n>            Skip first N results (default: 0)
+    group show <id>           Show a group with its items and totals
+    group edit <id>           Edit a group (--name, --type, --at, --date, --notes);
+                              a new time or type moves its items too
+    group add <id> <meal-id>... Move meals into a group
+    group remove <meal-id>... Take meals out of their group
+    group delete <id>         Delete a group and keep its items ungrouped
+      --with-meals            Delete its items as well
+
+  plan [subcommand]           Plan meals ahead; today and progress project the day's end
+    plan add <date> <ref>     Plan a recipe id, custom food id, fdcId or a food name
+                              for today or later (YYYY-MM-DD, today, tomorrow, +2)
+      --servings <n>          Recipe servings (default: 1)
+      --qty <n>, --unit <u>   Food amount, as for log
+      --type <t>              Meal type: breakfast/lunch/dinner/snack
+      --notes <text>          Notes
+      --calories <n> ...      Nutrition for a named food without a reference
+    plan list                 Planned meals from today on
+      --from <d>, --to <d>    Date range
+      --date <d>              One day
+      --all                   Past plans too
+    plan log <plan-id>        Log a planned item as a meal on its planned day
+      --at <when>, --date <d> Log at another time (e.g. --date today for an early meal)
+      --type <t>, --group <id> As for log
+      --no-pantry             Don't take it out of the pantry
+    plan delete <plan-id>     Delete a planned item (a meal logged from it is kept)
+
+  grocery                     Shopping list for the planned meals not yet logged:
+                              recipe ingredients scaled and merged, each food in g/kg
+                              or ml/l as its nutrition is measured (--human prints a
+                              checklist)
+    --from <d>, --to <d>      Date range (default: today and the next 6 days)
+
+  pantry [subcommand]         Food on hand; log, recipe log and plan log draw it down
+    pantry add <ref>          Add stock of a custom food id or fdcId (or --fdc/--food-id/
+                              --barcode), kept in the unit first added in
+      --qty <n>, --unit <u>   Amount (default: 1, in the unit on hand)
+      --low <n>               Warn at or below this amount (default: when it runs out)
+    pantry use <ref>          Take stock out by hand
+      --qty <n>, --unit <u>   Amount (default: 1, in the unit on hand)
+    pantry list               Stock on hand, with restock hints for low items
+      --low                   Only items running low
+    pantry remove <ref>       Stop tracking a food
+    pantry recipes            Recipes the pantry covers, and whether a serving fits what
+                              today's goals leave after planned meals
+      --all                   Include recipes missing ingredients
+
+  today                       Show today's meals and totals, plus the day's plan
+    --grouped                 Nest grouped items under their meal group
+    --dri                     Add a percent-of-reference report (see dri)
+    --factors <f>             Report the macro split using 4-4-9 (default) or atwater
+                              (fiber at 2 kcal/g); shown by default with split goals
     
   history [options]           Show meal history
     --limit <n>               Max results (default: 20)
     --offset <n>              Skip first N results (default: 0)
+    --grouped                 Nest grouped items under their meal group
     
   trends [options]            Show nutrition trends over time
     --days <n>                Number of days to analyze (default: 7, max: 90)
+    --dri                     Compare daily averages against reference intakes
+    --factors <f>             Report the average macro split (4-4-9 or atwater)
     suggest-recipes           Suggest recipe templates from repeated combos
       --days <n>              Lookback window (default: 30, max: 180)
       --min-occurrences <n>   Minimum repeated days to suggest (default: 3)
@@ -422,14 +1077,85 @@ Commands:
     --carbs <n>                Daily carbs target (g)
     --fat <n>                  Daily fat target (g)
     --netCarbs <n>             Daily net carbs target (g)
-    --<macro>-direction <d>    Goal direction: under or over
-    --<macro>-tolerance <n>    Tolerance percentage (0-100) for grace zone
-    --reset                    Clear all goals
-
-  progress [options]           Show progress vs goals (streaks, weekly avg)
+    --fiber <n>                Daily fiber target (g, default direction over)
+    --sugar <n>                Daily sugar target (g)
+    --sodium <n>               Daily sodium target (mg)
+    --<nutrient> <n>           Any nutrient below, e.g. --vitamin-c 90 (default over;
+                               saturated fat, trans fat and cholesterol default under)
+    --<goal>-direction <d>     Goal direction: under or over
+    --<goal> <min>-<max>       Range goal, e.g. --protein 140-180 (also --<goal>-min
+                               and --<goal>-max); met anywhere in between
+    --split <c/p/f>            Macro split as % of energy, e.g. 40/30/30 (carbs/protein/
+                               fat); sets carbsPercent, proteinPercent and fatPercent
+    --split-tolerance <n>      Points either side of each share (default: 5)
+    --<goal>-tolerance <n>     Tolerance percentage (0-100) for grace zone
+    --from <day>               Date the change takes effect (default: today); earlier
+                               days keep the goals that were in force then
+    --reset                    Clear all goals (from today or --from)
+    --profile <name>           Set, view or reset a named goal profile (default: default)
+    --copy <profile>           With --profile, start from another profile's goals
+    history                    Every goal change with its effective date
+      --key <k>                Only one goal, e.g. calories or vitamin-c
+      --profile <name>         Only one profile
+    profiles                   List goal profiles with their goals and weekdays
+    schedule                   View or set which profile applies on each weekday
+      --mon ... --sun <name>   Profile for a weekday ("default" to unassign)
+      --weekdays <name>        Monday to Friday
+      --weekend <name>         Saturday and Sunday
+      --from <day>             Date the schedule takes effect (default: today)
+    override <day> <profile>   Use a profile on one date regardless of the schedule
+      --clear                  Remove the override for that date
+    suggest                    Recommend starting goals from body stats (Mifflin-St Jeor,
+                               or Katch-McArdle with body fat); prints an apply command
+      --activity <a>           sedentary, light, moderate, active or very-active
+      --objective <o>          cut, maintain (default) or bulk
+      --sex, --age, --height   Default to the profile (height in cm with kg, in with lb)
+      --weight <n>             Default: latest trend weight
+      --body-fat <pct>         Default: latest weigh-in's body fat, if any
+      --unit <u>               kg or lb for --weight and --height
+
+  progress [options]           Show progress vs goals (streaks, weekly avg), judging
+                               each day against the goals in force on it
     --date <n>                 Day offset (0=today, -1=yesterday)
-
-  config [options]            View or set configuration
+    --factors <f>              Energy factors for split goals: 4-4-9 (default) or atwater
+
+  profile [options]            View or set the profile used for reference intakes
+    --age <years>              Age in years
+    --sex <s>                  male or female
+    --life-stage <s>           pregnant, lactating or none
+    --height <h>               Height in cm, or with a suffix like 71in (none clears);
+                               used by goals suggest
+    --reset                    Clear the profile
+
+  dri [options]                Percent of reference intake per nutrient (RDA/AI for the
+                               profile's life-stage group, FDA Daily Values without one).
+                               Meals logged without a nutrient leave it unknown, not low
+    --date <d>                 Day: YYYY-MM-DD, yesterday or offset (default: today)
+    --days <n>                 Average over the last n days instead
+    --basis <b>                dri or dv (force label Daily Values)
+
+  weight [list]                Weigh-ins with the smoothed trend and weekly rate of change
+    --unit <u>                 kg or lb (default: unit of the latest weigh-in)
+    --limit <n>                Max results (default: 20)
+    --offset <n>               Skip the first n results
+    log <weight>               Record a weigh-in
+      --unit <u>               kg or lb; waist is in cm with kg, inches with lb
+      --body-fat <pct>         Body fat percent
+      --waist <n>              Waist circumference
+      --at <when>              When weighed (default: now)
+      --notes <text>           Notes
+    edit <id>                  Change a weigh-in (--weight, --unit, --body-fat, --waist,
+                               --at, --notes; --body-fat or --waist alone clears it)
+    delete <id>                Delete a weigh-in
+
+  tdee [options]               Estimate maintenance calories from logged intake and the
+                               weight trend (energy balance over the days before today)
+    --days <n>                 Window in days (default: 28, 7-90)
+    --rate <n>                 Propose a calorie goal for this weekly change
+                               (e.g. -0.5 to lose, 0.25 to gain)
+    --unit <u>                 kg or lb for --rate and output (default: latest weigh-in)
+
+  config [options]           View or set configuration
     --set-data-dir <path>     Set data directory
     --set-usda-path <path>    Set USDA database path
     --reset                   Reset to defaults
@@ -438,6 +1164,12 @@ Commands:
     
   help                        Show this help
 
+Nutrients:
+  Beyond the nutrition flags above, these are carried from USDA foods, custom foods and
+  recipes into logged meals, reported under "nutrients" by today and trends, and can
+  be used as goals:
+${describeNutrientFlags("    ")}
+
 Environment Variables:
   NOMNOM_DATA_DIR    Override data directory
   NOMNOM_CONFIG_DIR  Override config directory
@@ -449,15 +1181,37 @@ Output is JSON by default. Add --human or -h for readable format.
 function computeDateStr(offset: number): string {
   const d = new Date();
   d.setDate(d.getDate() + offset);
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+  return formatLocalDate(d);
 }
 
+// Resolve --at/--date on top of `base` (now for new meals, the old timestamp for edits)
+function resolveLoggedAt(flags: Record<string, string>, base: Date = new Date(), what: string = "meals"): string {
+  if (flags.at === undefined && flags.date === undefined) return formatLocalDateTime(base);
+  const when = resolveTimestamp({ at: flags.at, date: flags.date }, base);
+  if (formatLocalDate(when) > formatLocalDate(new Date())) {
+    throw new CliError(`Cannot log ${what} on a future date (${formatLocalDate(when)})`);
+  }
+  return formatLocalDateTime(when);
+}
+
+type GoalZone = "met" | "near" | "over" | "under" | "below" | "in-range" | "above";
+
+/** For range goals `min` is the floor and `target` the ceiling; bandMin is the lower grace edge */
 function computeZone(
   actual: number,
   target: number,
-  direction: "under" | "over",
-  tolerance: number
-): { zone: "met" | "near" | "over" | "under"; band: number } {
+  direction: GoalDirection,
+  tolerance: number,
+  min: number | null = null
+): { zone: GoalZone; band: number; bandMin?: number } {
+  if (direction === "range") {
+    const floor = min ?? 0;
+    const band = Math.round(target * (1 + tolerance / 100) * 10) / 10;
+    const bandMin = Math.round(floor * (1 - tolerance / 100) * 10) / 10;
+    if (actual < floor) return { zone: actual >= bandMin ? "near" : "below", band, bandMin };
+    if (actual <= target) return { zone: "in-range", band, bandMin };
+    return { zone: actual <= band ? "near" : "above", band, bandMin };
+  }
   if (direction === "under") {
     const band = Math.round(target * (1 + tolerance / 100) * 10) / 10;
     if (actual <= target) return { zone: "met", band };
@@ -471,7 +1225,22 @@ function computeZone(
   }
 }
 
-export async function executeCommand(argv: string[]): Promise<CommandResult> {
+/** A goal as reported in JSON; range goals add their bounds */
+function formatGoalSetting(g: Goal): {
+  target: number; direction: GoalDirection; tolerance: number; effectiveFrom: string; min?: number; max?: number;
+} {
+  const setting = { target: g.target, direction: g.direction, tolerance: g.tolerance, effectiveFrom: g.effectiveFrom };
+  return g.direction === "range" ? { ...setting, min: g.min ?? 0, max: g.target } : setting;
+}
+
+/** "140-180 (range ±5%)" or "2000 (under)" */
+function describeGoal(g: Pick<Goal, "target" | "direction" | "tolerance" | "min">): string {
+  const tolStr = g.tolerance > 0 ? ` ±${g.tolerance}%` : "";
+  const amount = g.direction === "range" ? `${g.min}-${g.target}` : `${g.target}`;
+  return `${amount} (${g.direction}${tolStr})`;
+}
+
+export async function executeCommand(argv: string[], options: CommandOptions = {}): Promise<CommandResult> {
   let stdoutBuf = "";
   let stderrBuf = "";
 
@@ -524,6 +1293,207 @@ export async function executeCommand(argv: string[]): Promise<CommandResult> {
     return { ready: false, error: `Failed to download USDA database: ${result.error}` };
   }
 
+  // Resolve an --fdc / --food-id / --barcode reference into a food with nutrition scaled to the logged amount
+  async function resolveLinkedFood(
+    ref: FoodRefInput,
+    quantity: number,
+    unit: string | undefined
+  ): Promise<LinkedFood | null> {
+    const sources = [ref.fdc, ref.foodId, ref.barcode].filter((v) => v !== undefined);
+    if (sources.length === 0) return null;
+    if (sources.length > 1) printError("Use only one of --fdc, --food-id or --barcode");
+    if (ref.fdc !== undefined && !/^\d+$/.test(ref.fdc)) printError(`Invalid fdcId "${ref.fdc}". Must be a number.`);
+
+    if (ref.foodId !== undefined) {
+      const food = getCustomFoodById(ref.foodId);
+      if (!food) printError(`Custom food not found: ${ref.foodId}`);
+      return linkCustomFood(food!, quantity, unit);
+    }
+
+    if (ref.barcode !== undefined) {
+      const customFood = lookupCustomBarcode(ref.barcode);
+      if (customFood) return linkCustomFood(customFood, quantity, unit);
+    }
+
+    const usda = await ensureUSDA();
+    if (!usda.ready) printError(usda.error || "USDA database not available");
+
+    if (ref.barcode !== undefined) {
+      const food = lookupBarcode(ref.barcode);
+      if (!food) printError(`Barcode not found: ${ref.barcode}`);
+      return linkUSDAFood(food!, quantity, unit);
+    }
+
+    const fdcId = parseInt(ref.fdc!, 10);
+    const food = getFoodById(fdcId);
+    if (!food) printError(`USDA food not found: ${ref.fdc}`);
+    return linkUSDAFood(food!, quantity, unit);
+  }
+
+  // Turn an ingredient reference into a stored source id; USDA barcodes resolve to their fdcId
+  async function resolveIngredient(item: RecipeIngredientInputItem): Promise<RecipeIngredientInput> {
+    const refs = [item.fdc, item.foodId, item.barcode, item.recipe].filter((v) => v !== undefined);
+    if (refs.length !== 1) printError("Each ingredient needs exactly one of fdc, foodId, barcode or recipe");
+    const quantity = item.qty ?? 1;
+
+    if (item.recipe !== undefined) {
+      if (!getRecipeById(item.recipe)) printError(`Recipe not found: ${item.recipe}`);
+      return { source: "recipe", refId: item.recipe, quantity, unit: item.unit, name: item.name };
+    }
+
+    const linked = await resolveLinkedFood(
+      { fdc: item.fdc === undefined ? undefined : String(item.fdc), foodId: item.foodId, barcode: item.barcode },
+      quantity,
+      item.unit
+    );
+    return { source: linked!.source, refId: linked!.foodId, quantity, unit: linked!.unit, name: item.name };
+  }
+
+  // --basis dv forces label Daily Values; dri (the default once a profile is set) needs a profile
+  function resolveDriBasis(flags: Record<string, string>): boolean {
+    const basis = flags.basis;
+    if (basis === undefined) return false;
+    if (basis !== "dri" && basis !== "dv") printError(`Invalid --basis "${basis}". Must be dri or dv.`);
+    if (basis === "dri" && !getDriProfile()) {
+      printError("Reference intakes need a profile. Set one with: nomnom profile --age <years> --sex <male|female>");
+    }
+    return basis === "dv";
+  }
+
+  /** --factors for macro splits; null when not given */
+  function resolveEnergyFactors(flags: Record<string, string>): EnergyFactors | null {
+    const factors = flags.factors;
+    if (factors === undefined) return null;
+    if (!isEnergyFactors(factors)) printError(`Invalid --factors "${factors}". Must be 4-4-9 or atwater.`);
+    return factors as EnergyFactors;
+  }
+
+  function findMealGroup(id: string | undefined): MealGroup | null {
+    if (!id) return null;
+    const group = getMealGroupById(id);
+    if (!group) printError(`Meal group not found: ${id}`);
+    return group;
+  }
+
+  // Meals added to a group take its meal type and time unless the flags say otherwise
+  function resolveMealSlot(flags: Record<string, string>, group: MealGroup | null): { mealType: string; loggedAt: string } {
+    const mealType = flags.type || group?.mealType || "snack";
+    if (!VALID_MEAL_TYPES.has(mealType)) {
+      printError(`Invalid meal type "${mealType}". Must be one of: breakfast, lunch, dinner, snack`);
+    }
+    const loggedAt = group && flags.at === undefined && flags.date === undefined
+      ? group.loggedAt
+      : resolveLoggedAt(flags);
+    return { mealType, loggedAt };
+  }
+
+  // Turn one log-batch item into a meal row without writing anything yet
+  async function buildBatchMeal(
+    item: LogBatchItem,
+    flags: Record<string, string>,
+    group: MealGroup | null
+  ): Promise<{ input: LogMealInput; source: LogBatchMeal["source"]; foodId: string | null }> {
+    const mealType = item.type ?? flags.type ?? group?.mealType ?? "snack";
+    if (!VALID_MEAL_TYPES.has(mealType)) {
+      printError(`Invalid meal type "${mealType}". Must be one of: breakfast, lunch, dinner, snack`);
+    }
+
+    const when: Record<string, string> = {};
+    if (item.at !== undefined || item.date !== undefined) {
+      if (item.at !== undefined) when.at = item.at;
+      if (item.date !== undefined) when.date = String(item.date);
+    } else {
+      if (flags.at !== undefined) when.at = flags.at;
+      if (flags.date !== undefined) when.date = flags.date;
+    }
+    const loggedAt = group && Object.keys(when).length === 0 ? group.loggedAt : resolveLoggedAt(when);
+
+    const overrides = {
+      calories: item.calories,
+      protein: item.protein,
+      carbs: item.carbs,
+      fat: item.fat,
+      fiber: item.fiber,
+      sugar: item.sugar,
+      sodium: item.sodium,
+    };
+
+    if (item.recipe !== undefined) {
+      if (item.fdc !== undefined || item.foodId !== undefined || item.barcode !== undefined) {
+        printError("Use either recipe or a food reference (fdc, foodId, barcode), not both");
+      }
+      const recipe = getRecipeById(item.recipe);
+      if (!recipe) printError(`Recipe not found: ${item.recipe}`);
+      const multiplier = item.multiplier ?? item.qty ?? 1;
+      const scaled = scaleRecipe(recipe!, multiplier);
+      return {
+        source: "recipe",
+        foodId: null,
+        input: {
+          foodName: item.food ?? recipe!.name,
+          quantity: multiplier,
+          unit: recipe!.servingSize || "serving",
+          mealType,
+          notes: item.notes ?? flags.notes,
+          loggedAt,
+          groupId: group?.id,
+          calories: overrides.calories ?? scaled.calories ?? undefined,
+          protein: overrides.protein ?? scaled.protein ?? undefined,
+          carbs: overrides.carbs ?? scaled.carbs ?? undefined,
+          fat: overrides.fat ?? scaled.fat ?? undefined,
+          fiber: overrides.fiber ?? scaled.fiber ?? undefined,
+          sugar: overrides.sugar ?? scaled.sugar ?? undefined,
+          sodium: overrides.sodium ?? scaled.sodium ?? undefined,
+          nutrients: { ...scaled.nutrients, ...item.nutrients } as NutrientMap,
+        },
+      };
+    }
+
+    const quantity = item.qty ?? 1;
+    const linked = await resolveLinkedFood(
+      { fdc: item.fdc === undefined ? undefined : String(item.fdc), foodId: item.foodId, barcode: item.barcode },
+      quantity,
+      item.unit
+    );
+    const foodName = item.food ?? linked?.name;
+    if (!foodName) printError("Each item needs a food name, fdc, foodId, barcode or recipe");
+
+    return {
+      source: linked?.source ?? "manual",
+      foodId: linked?.foodId ?? null,
+      input: {
+        foodName: foodName!,
+        foodId: linked?.foodId,
+        barcode: linked?.barcode ?? undefined,
+        quantity,
+        unit: linked?.unit ?? item.unit ?? "serving",
+        mealType,
+        notes: item.notes ?? flags.notes,
+        loggedAt,
+        groupId: group?.id,
+        calories: overrides.calories ?? linked?.nutrition.calories ?? undefined,
+        protein: overrides.protein ?? linked?.nutrition.protein ?? undefined,
+        carbs: overrides.carbs ?? linked?.nutrition.carbs ?? undefined,
+        fat: overrides.fat ?? linked?.nutrition.fat ?? undefined,
+        fiber: overrides.fiber ?? linked?.nutrition.fiber ?? undefined,
+        sugar: overrides.sugar ?? linked?.nutrition.sugar ?? undefined,
+        sodium: overrides.sodium ?? linked?.nutrition.sodium ?? undefined,
+        nutrients: { ...linked?.nutrition.nutrients, ...item.nutrients } as NutrientMap,
+      },
+    };
+  }
+
+  // Re-resolve a logged meal's food_id; null when the food is gone or USDA is unavailable
+  async function relinkFood(foodId: string, quantity: number, unit: string): Promise<LinkedFood | null> {
+    if (/^\d+$/.test(foodId)) {
+      const usda = await ensureUSDA(false);
+      const food = usda.ready ? getFoodById(parseInt(foodId, 10)) : null;
+      return food ? linkUSDAFood(food, quantity, unit) : null;
+    }
+    const food = getCustomFoodById(foodId);
+    return food ? linkCustomFood(food, quantity, unit) : null;
+  }
+
   try {
     const command = argv[0];
 
@@ -636,34 +1606,154 @@ To change settings:
       }
 
       case "search": {
+        const usage = "Usage: nomnom search [query] [--limit <n>] [--offset <n>] [--rank personal|fts] [--min-<nutrient> <n>] [--max-<nutrient> <n>] [--per 100g|serving] [--sort <nutrient>[-per-calorie]] [--brand <name>] [--generic-only|--branded-only] [--source custom|usda] [--has-barcode]";
         const query = positional.join(" ");
-        if (!query) printError("Usage: nomnom search <query>");
         const limit = parsePositiveInt(flags.limit, 10, 100);
+        const offset = parseNonNegativeInt(flags.offset, 0);
+        const rank = flags.rank ?? "personal";
+        if (rank !== "personal" && rank !== "fts") printError(`Invalid --rank "${rank}". Must be personal or fts.`);
+        const source = flags.source;
+        if (source !== undefined && source !== "custom" && source !== "usda") {
+          printError(`Invalid --source "${source}". Must be custom or usda.`);
+        }
+        if (flags["generic-only"] === "true" && flags["branded-only"] === "true") {
+          printError("Use only one of --generic-only and --branded-only");
+        }
+        if (flags.brand === "true" || flags.brand?.trim() === "") printError("--brand needs a brand name, e.g. --brand chobani");
+        const attributes: FoodAttributeFilter = {
+          brand: flags.brand?.trim(),
+          branded: flags["generic-only"] === "true" ? false : flags["branded-only"] === "true" ? true : undefined,
+          hasBarcode: flags["has-barcode"] === "true" || undefined,
+        };
+        const narrowed = Object.values(attributes).some((v) => v !== undefined) || source !== undefined;
+
+        const { bounds, invalid } = readNutrientBounds(flags);
+        if (invalid) {
+          printError(`Invalid --${invalid} "${flags[invalid]}". Use --min-<nutrient> <n> or --max-<nutrient> <n>, e.g. --min-protein 20 --max-calories 200`);
+        }
+        const sort = flags.sort === undefined ? null : parseNutrientSort(flags.sort, flags.asc === "true");
+        if (flags.sort !== undefined && !sort) {
+          printError(`Invalid --sort "${flags.sort}". Use a nutrient (protein, fiber, vitamin-c) or <nutrient>-per-calorie`);
+        }
+        const basis = flags.per ?? "100g";
+        if (basis !== "100g" && basis !== "serving") printError(`Invalid --per "${basis}". Must be 100g or serving.`);
+        const filtering = bounds.length > 0 || sort !== null;
+        // Without a query, the filters alone pick the foods
+        if (!query && !filtering && !narrowed) printError(usage);
+
+        // Filters and personal ranking work on a wider pool than they return, so matches can
+        // come from further down the FTS order. Pages past the first need the rows before them
+        const end = offset + limit;
+        const pool = filtering ? Math.max(200, end) : rank === "fts" ? end : Math.min(Math.max(end * 3, 30), offset + 100);
+        const criteria = { bounds, sort, basis: basis as FilterBasis };
+        const browse = <T,>(results: T[]): SearchMatches<T> =>
+          ({ results, matchTypes: results.map(() => "browse" as const), matchType: results.length > 0 ? "browse" : "none" });
+
+        const noMatches = <T,>(): SearchMatches<T> => ({ results: [], matchTypes: [], matchType: "none" });
 
         // Search custom foods first (no USDA dependency)
-        const customResults = searchCustomFoods(query, limit);
+        const custom: SearchMatches<CustomFood> = source === "usda"
+          ? noMatches()
+          : query ? searchCustomFoods(query, pool, attributes) : browse(listCustomFoods(attributes));
+
+        // Search USDA (not even downloaded when only custom foods are wanted)
+        const usda = source === "custom" ? { ready: false } : await ensureUSDA();
+        const usdaMatches: SearchMatches<FoodResult> = !usda.ready
+          ? noMatches()
+          : query ? searchFoods(query, pool, attributes) : browse(browseFoods(criteria, pool, attributes));
+
+        interface SearchHit {
+          output: FoodOutput | CustomFoodSearchOutput;
+          matchType: MatchType;
+          per?: NutritionValues & { basis: FilterBasis; netCarbs: number | null };
+          sortValue?: number | null;
+        }
+        const candidates: RankCandidate<SearchHit>[] = [];
+        const addCandidate = (
+          output: FoodOutput | CustomFoodSearchOutput,
+          values: NutritionValues,
+          measures: FoodMeasures,
+          foodId: string,
+          matchType: MatchType,
+          position: number
+        ) => {
+          const hit: SearchHit = { output, matchType };
+          if (filtering) {
+            // Compare every food on the same basis; ones that can't be converted drop out
+            const multiplier = basisMultiplier(measures, criteria.basis);
+            if (multiplier === null) return;
+            const scaled = scaleAll(values, multiplier);
+            if (!matchesBounds(scaled, bounds)) return;
+            hit.per = { basis: criteria.basis, ...scaled, netCarbs: calculateNetCarbs(scaled.carbs, scaled.fiber) };
+            if (sort) hit.sortValue = sortValue(scaled, sort);
+          }
+          candidates.push({ item: hit, foodId, name: output.description, matchType, position });
+        };
+        custom.results.forEach((f, i) =>
+          addCandidate(formatCustomFood(f), f, customFoodMeasures(f.servingSize), f.id, custom.matchTypes[i]!, i)
+        );
+        usdaMatches.results.forEach((f, i) =>
+          addCandidate(formatFood(f), f, usdaFoodMeasures(f), String(f.fdcId), usdaMatches.matchTypes[i]!, i)
+        );
 
-        // Search USDA
-        const usda = await ensureUSDA();
-        let usdaResults: FoodResult[] = [];
-        if (usda.ready) {
-          usdaResults = searchFoods(query, limit);
+        // --sort wins; otherwise personal ranking, or with --rank fts the old order: custom
+        // foods, then USDA, each in FTS rank order
+        let hits: Array<SearchHit & { score?: number }>;
+        if (sort) {
+          const direction = sort.ascending ? 1 : -1;
+          hits = candidates
+            .map((c) => c.item)
+            .sort((a, b) => {
+              if (a.sortValue == null || b.sortValue == null) return (a.sortValue == null ? 1 : 0) - (b.sortValue == null ? 1 : 0);
+              return direction * (a.sortValue - b.sortValue);
+            })
+            .slice(offset, end);
+        } else if (rank === "fts") {
+          hits = candidates.map((c) => c.item).slice(offset, end);
+        } else {
+          hits = rankResults(
+            candidates,
+            getLoggedFoods(candidates.map((c) => c.foodId), candidates.map((c) => c.name)),
+            computeDateStr(0)
+          ).slice(offset, end).map((r) => ({ ...r.item, score: r.score }));
         }
 
-        const allResults = [
-          ...customResults.map(formatCustomFood),
-          ...usdaResults.map(formatFood),
-        ];
+        const allResults = hits.map((h) => ({
+          ...h.output,
+          score: h.score,
+          per: h.per,
+          sortValue: h.sortValue == null ? undefined : Math.round(h.sortValue * 100) / 100,
+        }));
+
+        // Fuzzy if any result had to guess
+        const matchType = hits
+          .map((h) => h.matchType)
+          .reduce((a, b) => (MATCH_TYPE_ORDER.indexOf(b) > MATCH_TYPE_ORDER.indexOf(a) ? b : a), "none");
 
         printResult(
-          parseOutput(SearchPayloadSchema, { query, count: allResults.length, results: allResults }),
+          parseOutput(SearchPayloadSchema, {
+            query,
+            rank,
+            matchType,
+            filters: filtering || narrowed
+              ? {
+                ...(filtering ? { basis, bounds, sort: sort ?? undefined } : {}),
+                ...attributes,
+                source,
+              }
+              : undefined,
+            count: allResults.length,
+            offset,
+            results: allResults,
+          }),
           allResults.length === 0
-            ? `No results for "${query}"`
-            : allResults
+            ? (query && !filtering && !narrowed ? `No results for "${query}"` : "No foods match those filters")
+            : (matchType === "fuzzy" ? `Includes close spellings of "${query}"\n\n` : "") + allResults
               .map(
                 (f, i) =>
                   `${i + 1}. [${f.source}] ${f.description}${f.brand ? ` (${f.brand})` : ""}\n` +
-                  `   ${formatNutritionSummary(f)}`
+                  `   ${formatNutritionSummary(f.per ?? f)}${f.per ? ` per ${f.per.basis}` : ""}` +
+                  (f.sortValue !== undefined ? ` | ${flags.sort}: ${f.sortValue}` : "")
               )
               .join("\n\n")
         );
@@ -673,14 +1763,16 @@ To change settings:
       case "lookup": {
         const barcode = positional[0];
         if (!barcode) printError("Usage: nomnom lookup <barcode>");
+        const canonical = normalizeBarcode(barcode!)?.gtin14 ?? null;
 
         // Check custom foods first
         const customFood = lookupCustomBarcode(barcode!);
         if (customFood) {
           printResult(
-            parseOutput(LookupPayloadSchema, { found: true, ...formatCustomFood(customFood) }),
+            parseOutput(LookupPayloadSchema, { found: true, ...formatCustomFood(customFood), canonical }),
             `[custom] ${customFood.description}${customFood.brand ? ` (${customFood.brand})` : ""}\n` +
-            `${formatNutritionSummary(customFood)}`
+            `${formatNutritionSummary(customFood)}` +
+            (Object.keys(customFood.nutrients).length > 0 ? `\n${formatNutrients(customFood.nutrients)}` : "")
           );
           break;
         }
@@ -692,12 +1784,16 @@ To change settings:
         }
         const food = lookupBarcode(barcode!);
         if (!food) {
-          printResult(parseOutput(LookupPayloadSchema, { found: false, barcode }), `Barcode ${barcode} not found`);
+          printResult(
+            parseOutput(LookupPayloadSchema, { found: false, barcode, canonical }),
+            `Barcode ${barcode} not found` + (canonical ? "" : " (not a valid UPC, EAN or GTIN: check the digits)")
+          );
         } else {
           printResult(
-            parseOutput(LookupPayloadSchema, { found: true, ...formatFood(food) }),
+            parseOutput(LookupPayloadSchema, { found: true, ...formatFood(food), canonical }),
             `${food.description}${food.brand ? ` (${food.brand})` : ""}\n` +
-            `${formatNutritionSummary(food)}`
+            `${formatNutritionSummary(food)}` +
+            (Object.keys(food.nutrients).length > 0 ? `\n${formatNutrients(food.nutrients)}` : "")
           );
         }
         break;
@@ -729,17 +1825,32 @@ To change settings:
         // Merge flags on top of existing values
         const merged = {
           foodName: flags.food || existing!.foodName,
-          quantity: parseOptionalFloat(flags.qty) ?? existing!.quantity,
+          quantity: parseQuantity(flags.qty, existing!.quantity),
           unit: flags.unit || existing!.unit,
           mealType: flags.type || existing!.mealType,
           notes: flags.notes !== undefined ? flags.notes : existing!.notes,
-          calories: flags.calories !== undefined ? parseOptionalFloat(flags.calories) ?? null : existing!.calories,
-          protein: flags.protein !== undefined ? parseOptionalFloat(flags.protein) ?? null : existing!.protein,
-          carbs: flags.carbs !== undefined ? parseOptionalFloat(flags.carbs) ?? null : existing!.carbs,
-          fat: flags.fat !== undefined ? parseOptionalFloat(flags.fat) ?? null : existing!.fat,
-          fiber: flags.fiber !== undefined ? parseOptionalFloat(flags.fiber) ?? null : existing!.fiber,
+          loggedAt: resolveLoggedAt(flags, parseLocalDateTime(existing!.loggedAt)),
+          calories: existing!.calories,
+          protein: existing!.protein,
+          carbs: existing!.carbs,
+          fat: existing!.fat,
+          fiber: existing!.fiber,
+          sugar: existing!.sugar,
+          sodium: existing!.sodium,
+          nutrients: existing!.nutrients,
         };
 
+        // Meals logged from a food rescale when the amount changes
+        if (existing!.foodId && (merged.quantity !== existing!.quantity || merged.unit !== existing!.unit)) {
+          const linked = await relinkFood(existing!.foodId, merged.quantity, merged.unit);
+          if (linked) Object.assign(merged, linked.nutrition);
+        }
+
+        for (const key of ["calories", "protein", "carbs", "fat", "fiber", "sugar", "sodium"] as const) {
+          if (flags[key] !== undefined) merged[key] = parseOptionalFloat(flags[key]) ?? null;
+        }
+        merged.nutrients = mergeNutrients(merged.nutrients, nutrientsFromFlags(flags));
+
         // Same validation as log
         if (!VALID_MEAL_TYPES.has(merged.mealType)) {
           printError(`Invalid meal type "${merged.mealType}". Must be one of: breakfast, lunch, dinner, snack`);
@@ -752,11 +1863,15 @@ To change settings:
         if (merged.unit !== existing!.unit) updated.push("unit");
         if (merged.mealType !== existing!.mealType) updated.push("type");
         if (merged.notes !== existing!.notes) updated.push("notes");
+        if (merged.loggedAt !== existing!.loggedAt) updated.push("loggedAt");
         if (merged.calories !== existing!.calories) updated.push("calories");
         if (merged.protein !== existing!.protein) updated.push("protein");
         if (merged.carbs !== existing!.carbs) updated.push("carbs");
         if (merged.fat !== existing!.fat) updated.push("fat");
         if (merged.fiber !== existing!.fiber) updated.push("fiber");
+        if (merged.sugar !== existing!.sugar) updated.push("sugar");
+        if (merged.sodium !== existing!.sodium) updated.push("sodium");
+        if (JSON.stringify(merged.nutrients) !== JSON.stringify(existing!.nutrients)) updated.push("nutrients");
 
         if (updated.length === 0) {
           printResult(
@@ -776,32 +1891,167 @@ To change settings:
       }
 
       case "log": {
-        const foodName = positional.join(" ");
-        if (!foodName) printError("Usage: nomnom log <food> [--qty <n>] [--calories <n>] ...");
-
-        const quantity = parseOptionalFloat(flags.qty) ?? 1;
-        const mealType = flags.type || "snack";
-
-        if (!VALID_MEAL_TYPES.has(mealType)) {
-          printError(`Invalid meal type "${mealType}". Must be one of: breakfast, lunch, dinner, snack`);
-        }
+        const quantity = parseQuantity(flags.qty, 1);
+        const group = findMealGroup(flags.group);
+        const { mealType, loggedAt } = resolveMealSlot(flags, group);
+        const linked = await resolveLinkedFood(
+          { fdc: flags.fdc, foodId: flags["food-id"], barcode: flags.barcode },
+          quantity,
+          flags.unit
+        );
+        const foodName = positional.join(" ") || linked?.name;
+        if (!foodName) printError("Usage: nomnom log <food> [--qty <n>] [--calories <n>] ... | nomnom log --fdc <fdcId> [--qty <n>] [--unit <u>]");
+
+        const unit = linked?.unit ?? (flags.unit || "serving");
+        const nutrition = {
+          calories: parseOptionalFloat(flags.calories) ?? linked?.nutrition.calories ?? undefined,
+          protein: parseOptionalFloat(flags.protein) ?? linked?.nutrition.protein ?? undefined,
+          carbs: parseOptionalFloat(flags.carbs) ?? linked?.nutrition.carbs ?? undefined,
+          fat: parseOptionalFloat(flags.fat) ?? linked?.nutrition.fat ?? undefined,
+          fiber: parseOptionalFloat(flags.fiber) ?? linked?.nutrition.fiber ?? undefined,
+          sugar: parseOptionalFloat(flags.sugar) ?? linked?.nutrition.sugar ?? undefined,
+          sodium: parseOptionalFloat(flags.sodium) ?? linked?.nutrition.sodium ?? undefined,
+          nutrients: mergeNutrients(linked?.nutrition.nutrients ?? {}, nutrientsFromFlags(flags)),
+        };
 
-        const id = logMeal({
-          foodName,
+        const { ids: [id], pantryUses } = logMeals([{
+          foodName: foodName!,
+          foodId: linked?.foodId,
+          barcode: linked?.barcode ?? undefined,
           quantity,
-          unit: flags.unit || "serving",
+          unit,
           mealType,
           notes: flags.notes,
-          calories: parseOptionalFloat(flags.calories),
-          protein: parseOptionalFloat(flags.protein),
-          carbs: parseOptionalFloat(flags.carbs),
-          fat: parseOptionalFloat(flags.fat),
-          fiber: parseOptionalFloat(flags.fiber),
+          loggedAt,
+          groupId: group?.id,
+          ...nutrition,
+        }], linked && flags["no-pantry"] !== "true" ? [{ source: linked.source, refId: linked.foodId, quantity, unit }] : []);
+        const pantryHintList = pantryHints(pantryUses);
+
+        const actualNutrition = linked
+          ? {
+            calories: nutrition.calories ?? null,
+            protein: nutrition.protein ?? null,
+            carbs: nutrition.carbs ?? null,
+            fat: nutrition.fat ?? null,
+            fiber: nutrition.fiber ?? null,
+            sugar: nutrition.sugar ?? null,
+            sodium: nutrition.sodium ?? null,
+            netCarbs: calculateNetCarbs(nutrition.carbs, nutrition.fiber),
+            nutrients: nutrition.nutrients,
+          }
+          : undefined;
+
+        printResult(
+          parseOutput(LogPayloadSchema, {
+            success: true,
+            id: id!,
+            foodName,
+            quantity,
+            unit,
+            loggedAt,
+            foodId: linked?.foodId,
+            source: linked?.source,
+            nutrition: actualNutrition,
+            pantry: pantryUses.length > 0 ? pantryUses : undefined,
+            hints: pantryHintList.length > 0 ? pantryHintList : undefined,
+          }),
+          `Logged ${quantity} ${unit} of ${foodName} at ${loggedAt}${group ? ` (${group.name})` : ""}` +
+          (actualNutrition ? `\n${formatNutritionSummary(actualNutrition)}` : "") +
+          formatPantryUses(pantryUses)
+        );
+        break;
+      }
+
+      case "log-batch": {
+        const usage = "Usage: nomnom log-batch '<json array>' [--type <meal>] [--at <when>] (or pipe the JSON array on stdin)";
+        let raw = positional.join(" ");
+        if (!raw || raw === "-") {
+          if (!options.readStdin) printError(usage);
+          raw = (await options.readStdin!()).trim();
+        }
+        if (!raw) printError(usage);
+
+        let json: unknown;
+        try {
+          json = JSON.parse(raw);
+        } catch (e) {
+          printError(`log-batch input is not valid JSON: ${e instanceof Error ? e.message : raw}`);
+        }
+
+        const parsed = LogBatchInputSchema.safeParse(json);
+        if (!parsed.success) {
+          const issue = parsed.error.issues[0]!;
+          const where = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+          printError(`Invalid log-batch input${where}: ${issue.message}`);
+        }
+
+        // Resolve every item before writing so a bad item leaves the log untouched
+        const group = findMealGroup(flags.group);
+        const pending: Array<Awaited<ReturnType<typeof buildBatchMeal>>> = [];
+        for (const [index, item] of parsed.data!.entries()) {
+          try {
+            pending.push(await buildBatchMeal(item, flags, group));
+          } catch (e) {
+            printError(`Item ${index + 1}: ${e instanceof Error ? e.message : "invalid item"}`);
+          }
+        }
+
+        const pantryNeeds = flags["no-pantry"] === "true" ? [] : pending.flatMap((p, i) => {
+          const recipeId = parsed.data![i]!.recipe;
+          const recipe = recipeId !== undefined ? getRecipeById(recipeId) : null;
+          if (recipe) return recipeIngredientNeeds(recipe, p.input.quantity / recipe.servings);
+          if ((p.source === "usda" || p.source === "custom") && p.foodId) {
+            return [{ source: p.source, refId: p.foodId, name: p.input.foodName, quantity: p.input.quantity, unit: p.input.unit ?? "serving" }];
+          }
+          return [];
         });
+        const { ids, pantryUses } = logMeals(pending.map((p) => p.input), pantryNeeds);
+        const batchHints = [
+          ...(getGoals().length > 0 ? [{ action: "check-progress", command: "nomnom progress", confidence: 0.84 }] : []),
+          ...pantryHints(pantryUses),
+        ];
+
+        const meals = pending.map((p, i) => ({
+          id: ids[i]!,
+          foodName: p.input.foodName,
+          quantity: p.input.quantity,
+          unit: p.input.unit ?? "serving",
+          mealType: p.input.mealType ?? "snack",
+          loggedAt: p.input.loggedAt!,
+          source: p.source,
+          foodId: p.foodId,
+          nutrition: {
+            calories: p.input.calories ?? null,
+            protein: p.input.protein ?? null,
+            carbs: p.input.carbs ?? null,
+            fat: p.input.fat ?? null,
+            fiber: p.input.fiber ?? null,
+            sugar: p.input.sugar ?? null,
+            sodium: p.input.sodium ?? null,
+            netCarbs: calculateNetCarbs(p.input.carbs, p.input.fiber),
+            nutrients: p.input.nutrients,
+          },
+        }));
+
+        const dates = [...new Set(meals.map((m) => m.loggedAt.slice(0, 10)))].sort();
+        const days = dates.map((date) => ({ date, totals: getDailyTotals(date) }));
 
         printResult(
-          parseOutput(LogPayloadSchema, { success: true, id, foodName, quantity }),
-          `Logged ${quantity} ${flags.unit || "serving"} of ${foodName}`
+          parseOutput(LogBatchPayloadSchema, {
+            success: true,
+            count: ids.length,
+            ids,
+            meals,
+            days,
+            pantry: pantryUses.length > 0 ? pantryUses : undefined,
+            hints: batchHints.length > 0 ? batchHints : undefined,
+          }),
+          `Logged ${meals.length} item${meals.length === 1 ? "" : "s"}:\n` +
+          meals.map((m) => `- ${m.foodName} (${m.quantity} ${m.unit}) [${m.mealType}] ${m.loggedAt}\n  ${formatNutritionSummary(m.nutrition)}`).join("\n") +
+          `\n\n` +
+          days.map((d) => `${d.date}: ${d.totals.mealCount} meals | ${d.totals.calories} cal | ${d.totals.protein}p ${d.totals.carbs}c (${d.totals.netCarbs} net) ${d.totals.fat}f`).join("\n") +
+          formatPantryUses(pantryUses)
         );
         break;
       }
@@ -812,8 +2062,12 @@ To change settings:
         const meals = getMealsByDate(today);
         const totals = getDailyTotals(today);
 
-        // Include goals/remaining if goals are set
-        const goals = getGoals();
+        // Include goals/remaining if goals are set (those in force on that day)
+        const goalResolver = createGoalResolver();
+        const goalProfile = goalResolver.profileOn(today);
+        const goals = goalResolver.goalsOn(today);
+        const factorsFlag = resolveEnergyFactors(flags);
+        const factors = factorsFlag ?? "4-4-9";
         let goalsObj: Record<string, number> | null = null;
         let remainingObj: Record<string, number> | null = null;
 
@@ -822,42 +2076,62 @@ To change settings:
           remainingObj = {};
           for (const g of goals) {
             goalsObj[g.key] = g.target;
-            const actual = (totals as Record<string, number>)[g.key] ?? 0;
+            const actual = goalActual(totals, g.key, factors);
             remainingObj[g.key] = Math.round((g.target - actual) * 10) / 10;
           }
         }
 
+        // --grouped nests grouped items under their meal group; meals then lists only the rest
+        const nested = flags.grouped === "true" ? nestMealsByGroup(meals) : null;
+        const listedMeals = nested?.meals ?? meals;
+
         const result: {
           date: string;
           totals: typeof totals;
           meals: MealOutput[];
+          groups?: MealGroupDetail[];
           goals?: Record<string, number>;
           remaining?: Record<string, number>;
+          goalProfile?: string;
+          split?: SplitReport;
+          dri?: DriReport;
+          plan?: PlanDay;
         } = {
           date: today,
           totals,
-          meals: meals.map(formatMeal),
+          meals: listedMeals.map(formatMeal),
         };
+        if (nested) result.groups = nested.groups;
         if (goalsObj) result.goals = goalsObj;
         if (remainingObj) result.remaining = remainingObj;
+        if (goalsObj) result.goalProfile = goalProfile;
+        if (factorsFlag || goalSplit(goals)) result.split = buildSplitReport(totals, goals, factors);
+        if (flags.dri === "true") result.dri = buildDriReport(driIntake(totals), getNutrientCoverage(today, today), resolveDriBasis(flags));
+        const plan = buildPlanDay(today, goals, factors);
+        if (plan) result.plan = plan;
 
         printResult(
           parseOutput(TodayPayloadSchema, result),
           `Today's Summary (${today})\n` +
           `${totals.mealCount} meals | ${totals.calories} cal | ${totals.protein}p ${totals.carbs}c (${totals.netCarbs} net) ${totals.fat}f\n` +
+          (Object.keys(totals.nutrients).length > 0 ? `${formatNutrients(totals.nutrients)}\n` : "") +
           (goalsObj && remainingObj
-            ? `\nRemaining: ${Object.entries(remainingObj).map(([k, v]) => `${k}: ${v}`).join(" | ")}\n`
+            ? `\nRemaining${goalProfile === DEFAULT_GOAL_PROFILE ? "" : ` (${goalProfile})`}: ${Object.entries(remainingObj).map(([k, v]) => `${k}: ${v}`).join(" | ")}\n`
             : "") +
+          (result.split ? `${formatSplitReport(result.split)}\n` : "") +
           `\n` +
+          (nested && nested.groups.length > 0 ? nested.groups.map(formatMealGroupSummary).join("\n\n") + "\n\n" : "") +
           (meals.length === 0
             ? "No meals logged"
-            : meals
+            : listedMeals
               .map(
                 (m) =>
                   `- ${m.foodName} (${m.quantity} ${m.unit}) [${m.mealType}]\n` +
                   `  ${formatNutritionSummary(m)}${m.notes ? ` | ${m.notes}` : ""} | ${m.loggedAt}`
               )
-              .join("\n"))
+              .join("\n")) +
+          (result.dri ? `\n\n${formatDriReport(result.dri)}` : "") +
+          (plan ? `\n\n${formatPlanDay(plan)}` : "")
         );
         break;
       }
@@ -866,104 +2140,372 @@ To change settings:
         const limit = parsePositiveInt(flags.limit, 20, 500);
         const offset = parseNonNegativeInt(flags.offset, 0);
         const meals = getMealHistory(limit, offset);
+        const nested = flags.grouped === "true" ? nestMealsByGroup(meals) : null;
+        const listedMeals = nested?.meals ?? meals;
         printResult(
-          parseOutput(HistoryPayloadSchema, { count: meals.length, offset, meals: meals.map(formatMeal) }),
+          parseOutput(HistoryPayloadSchema, {
+            count: meals.length,
+            offset,
+            meals: listedMeals.map(formatMeal),
+            groups: nested?.groups,
+          }),
           meals.length === 0
             ? "No meals in history"
-            : meals
-              .map(
+            : [
+              ...(nested?.groups ?? []).map(formatMealGroupSummary),
+              ...listedMeals.map(
                 (m) =>
                   `${m.loggedAt} - ${m.foodName} (${m.quantity} ${m.unit})\n` +
                   `  ${formatNutritionSummary(m)}`
-              )
-              .join("\n\n")
+              ),
+            ].join("\n\n")
         );
         break;
       }
 
       case "goals": {
+        const subcommand = positional[0];
+
+        // --from dates a change; it applies from that day until the next change
+        let effectiveFrom: string | undefined;
+        if (flags.from !== undefined) {
+          const day = parseDay(flags.from);
+          if (!day) printError(`Invalid --from "${flags.from}". Use YYYY-MM-DD, today, yesterday or an offset like -1`);
+          effectiveFrom = formatLocalDate(day!);
+        }
+        const goalProfile = flags.profile;
+        if (goalProfile === "true") printError("--profile needs a name");
+
+        if (subcommand === "history") {
+          let key: string | undefined;
+          if (flags.key !== undefined) {
+            key = GOAL_KEYS.find((k) => k === flags.key || goalFlag(k) === flags.key);
+            if (!key) printError(`Invalid goal key: ${flags.key}`);
+          }
+          const history = getGoalHistory({ key, profile: goalProfile });
+          printResult(
+            parseOutput(GoalsHistoryPayloadSchema, { count: history.length, history }),
+            history.length === 0
+              ? "No goal history"
+              : history
+                .map((v) => {
+                  const prefix = `${v.effectiveFrom}  ${v.profile === DEFAULT_GOAL_PROFILE ? "" : `[${v.profile}] `}${v.key}`;
+                  if (v.target === null) return `${prefix}: removed`;
+                  return `${prefix}: ${describeGoal({ ...v, target: v.target })}`;
+                })
+                .join("\n")
+          );
+          break;
+        }
+
+        if (subcommand === "profiles") {
+          const today = formatLocalDate(new Date());
+          const schedule = createGoalResolver().scheduleOn(today);
+          const profiles = listGoalProfiles().map((name) => ({
+            name,
+            goals: getGoals(today, name).map((g) => g.key),
+            weekdays: WEEKDAYS.filter((w) => schedule[w] === name),
+          }));
+          printResult(
+            parseOutput(GoalProfilesPayloadSchema, { count: profiles.length, profiles }),
+            profiles
+              .map((p) => `${p.name}: ${p.goals.length > 0 ? p.goals.join(", ") : "no goals"}` +
+                (p.weekdays.length > 0 ? ` | ${p.weekdays.join(" ")}` : ""))
+              .join("\n")
+          );
+          break;
+        }
+
+        if (subcommand === "schedule") {
+          // --weekdays and --weekend are shorthand; a single day's flag wins over them
+          const assignments: Partial<Record<Weekday, string>> = {};
+          for (const w of WEEKDAYS) {
+            const group = w === "sat" || w === "sun" ? flags.weekend : flags.weekdays;
+            const profile = flags[w] ?? group;
+            if (profile === undefined) continue;
+            if (profile === "true") printError(`--${w} needs a profile name`);
+            assignments[w] = profile;
+          }
+
+          const updated = Object.keys(assignments);
+          if (updated.length > 0) {
+            try {
+              setGoalSchedule(assignments, effectiveFrom);
+            } catch (e) {
+              printError(e instanceof Error ? e.message : "Failed to set goal schedule");
+            }
+          }
+
+          const date = effectiveFrom ?? formatLocalDate(new Date());
+          const schedule = createGoalResolver().scheduleOn(date);
+          const overrides = listGoalOverrides();
+          printResult(
+            parseOutput(GoalSchedulePayloadSchema, {
+              date,
+              schedule,
+              overrides,
+              ...(updated.length > 0 ? { updated } : {}),
+            }),
+            `Goal schedule from ${date}\n` +
+            WEEKDAYS.map((w) => `${w}: ${schedule[w]}`).join("\n") +
+            (overrides.length > 0 ? `\n\nOverrides:\n${overrides.map((o) => `${o.date}: ${o.profile}`).join("\n")}` : "")
+          );
+          break;
+        }
+
+        if (subcommand === "override") {
+          const dayArg = positional[1];
+          if (!dayArg) printError("Usage: nomnom goals override <day> <profile> | nomnom goals override <day> --clear");
+          const day = parseDay(dayArg!);
+          if (!day) printError(`Invalid day "${dayArg}". Use YYYY-MM-DD, today, yesterday or an offset like -1`);
+          const date = formatLocalDate(day!);
+
+          const profile = flags.clear === "true" ? null : positional[2] ?? null;
+          if (profile === null && flags.clear !== "true") printError("Give a profile name, or --clear to remove the override");
+          try {
+            setGoalOverride(date, profile);
+          } catch (e) {
+            printError(e instanceof Error ? e.message : "Failed to set goal override");
+          }
+
+          printResult(
+            parseOutput(GoalOverridePayloadSchema, { success: true, date, goalProfile: profile }),
+            profile ? `${date} uses goal profile ${profile}` : `Override cleared for ${date}`
+          );
+          break;
+        }
+
+        if (subcommand === "suggest") {
+          if (flags.unit !== undefined && !isWeightUnit(flags.unit)) printError(`Invalid unit "${flags.unit}". Must be kg or lb`);
+          const activity = flags.activity;
+          if (!activity || !isActivityLevel(activity)) {
+            printError(`${activity ? `Invalid --activity "${activity}"` : "Missing --activity"}. Use one of: ${Object.keys(ACTIVITY_FACTORS).join(", ")}`);
+          }
+          const objective = flags.objective ?? "maintain";
+          if (!isObjective(objective)) printError(`Invalid --objective "${objective}". Use cut, maintain or bulk`);
+
+          // Flags win; otherwise fall back on the profile and the latest weigh-in
+          const profile = getProfile();
+          const latest = listWeighIns({ limit: 1 })[0];
+          const unit = (flags.unit as WeightUnit | undefined) ?? latest?.unit ?? "kg";
+          const sex = flags.sex ?? profile.sex;
+          if (sex && sex !== "male" && sex !== "female") printError(`Invalid sex "${sex}". Must be male or female`);
+          const age = flags.age !== undefined ? parseFloat(flags.age) : profile.age;
+          const heightCm = flags.height !== undefined ? parseLength(flags.height, lengthUnitFor(unit)) : profile.heightCm;
+          const trend = weightTrend(getAllWeighIns().map((w) => ({ date: w.weighedAt.slice(0, 10), weightKg: w.weightKg })));
+          const weightKg = flags.weight !== undefined ? toKg(parseFloat(flags.weight), unit) : trend[trend.length - 1]?.trendKg ?? null;
+          const bodyFatPct = flags["body-fat"] !== undefined ? parseFloat(flags["body-fat"]) : latest?.bodyFatPct ?? null;
+
+          const missing = [
+            ...(!sex ? ["--sex"] : []),
+            ...(age === null || !(age > 0) ? ["--age"] : []),
+            ...(heightCm === null || !(heightCm > 0) ? ["--height"] : []),
+            ...(weightKg === null || !(weightKg > 0) ? ["--weight"] : []),
+          ];
+          if (missing.length > 0) {
+            printError(`Missing or invalid ${missing.join(", ")}. Pass them here, or set them once with nomnom profile and nomnom weight log`);
+          }
+          if (bodyFatPct !== null && !(bodyFatPct >= 1 && bodyFatPct <= 75)) printError(`Invalid --body-fat "${flags["body-fat"]}"`);
+
+          const stats = { sex: sex as Sex, age: age!, heightCm: heightCm!, weightKg: weightKg!, bodyFatPct };
+          const suggestion = suggestGoals(stats, activity as ActivityLevel, objective as Objective);
+          const { calories, protein, carbs, fat, fiber } = suggestion.goals;
+          // Aim at the profile in force today (override, weekday schedule) unless one was named
+          const targetProfile = goalProfile ?? createGoalResolver().profileOn(formatLocalDate(new Date()));
+          const applyCommand = `nomnom goals --calories ${calories} --protein ${protein} --carbs ${carbs} --fat ${fat} --fiber ${fiber}` +
+            (targetProfile === DEFAULT_GOAL_PROFILE ? "" : ` --profile ${targetProfile}`);
+
+          printResult(
+            parseOutput(GoalsSuggestPayloadSchema, {
+              inputs: {
+                ...stats,
+                heightCm: Math.round(stats.heightCm * 10) / 10,
+                weightKg: Math.round(stats.weightKg * 10) / 10,
+                activity,
+                objective,
+              },
+              ...suggestion,
+              hints: [
+                { action: "apply-goals", command: applyCommand, confidence: suggestion.formula === "katch-mcardle" ? 0.8 : 0.75 },
+                // Formulas are a starting point; measured maintenance replaces them after a few weeks
+                { action: "measure-tdee", command: "nomnom tdee", confidence: 0.6 },
+              ],
+            }),
+            `${suggestion.formula === "katch-mcardle" ? "Katch-McArdle" : "Mifflin-St Jeor"}: BMR ${suggestion.bmr} kcal, ` +
+            `TDEE ${suggestion.tdee} kcal (${activity}), objective ${objective}\n` +
+            `Calories ${calories} | Protein ${protein}g (${suggestion.proteinPerKg} g/kg) | Carbs ${carbs}g | Fat ${fat}g | Fiber ${fiber}g\n` +
+            `  ${applyCommand}`
+          );
+          break;
+        }
+
+        if (subcommand) printError(`Unknown goals subcommand: ${subcommand}. Use history, profiles, schedule, override or suggest`);
+
+        const changeOptions = { effectiveFrom, profile: goalProfile };
+
         // Reset
         if (flags.reset) {
-          resetGoals();
+          resetGoals(changeOptions);
           printResult(parseOutput(GoalsResetPayloadSchema, { success: true }), "Goals reset");
           break;
         }
 
-        // Set goals (at least one macro flag required)
-        const macros = ["calories", "protein", "carbs", "fat", "netCarbs"] as const;
-        const toSet: Array<{ key: string; target: number; direction?: "under" | "over"; tolerance?: number }> = [];
+        // --copy fills a profile with another profile's goals
+        if (flags.copy !== undefined) {
+          if (!goalProfile) printError("--copy needs --profile <name> to copy into");
+          let copied: string[] = [];
+          try {
+            copied = copyGoalProfile(flags.copy, goalProfile!, effectiveFrom);
+          } catch (e) {
+            printError(e instanceof Error ? e.message : "Failed to copy goals");
+          }
+          printResult(
+            parseOutput(GoalsSetPayloadSchema, {
+              success: true,
+              goalsSet: copied,
+              effectiveFrom: effectiveFrom ?? formatLocalDate(new Date()),
+              goalProfile,
+            }),
+            `Copied ${copied.join(", ")} from ${flags.copy} to ${goalProfile}`
+          );
+          break;
+        }
+
+        // Set goals (at least one goal flag required): macros, fiber/sugar/sodium, or any nutrient
+        // A range is "--protein 140-180" or "--protein-min 140 --protein-max 180"
+        const toSet: Array<{ key: string; target: number; direction?: "under" | "over"; tolerance?: number; min?: number }> = [];
         const tolOnly: Array<{ key: string; tolerance: number }> = [];
-        for (const m of macros) {
-          const val = parseOptionalFloat(flags[m]);
-          const tolVal = parseOptionalFloat(flags[`${m}-tolerance`]);
+        for (const key of GOAL_KEYS) {
+          const flag = goalFlag(key);
+          const tolVal = parseOptionalFloat(flags[`${flag}-tolerance`]);
           if (tolVal !== undefined && (tolVal < 0 || tolVal > 100)) {
-            printError(`Invalid ${m}-tolerance ${tolVal}: must be 0-100`);
+            printError(`Invalid ${flag}-tolerance ${tolVal}: must be 0-100`);
+          }
+
+          const rangeMatch = flags[flag]?.match(/^\s*(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)\s*$/);
+          const minVal = rangeMatch ? parseFloat(rangeMatch[1]!) : parseOptionalFloat(flags[`${flag}-min`]);
+          const maxVal = rangeMatch ? parseFloat(rangeMatch[2]!) : parseOptionalFloat(flags[`${flag}-max`]);
+          if ((minVal === undefined) !== (maxVal === undefined)) {
+            printError(`A ${flag} range needs both --${flag}-min and --${flag}-max`);
+          }
+          if (minVal !== undefined && maxVal !== undefined) {
+            toSet.push({ key, target: maxVal, tolerance: tolVal, min: minVal });
+            continue;
           }
+
+          const val = parseOptionalFloat(flags[flag]);
           if (val !== undefined) {
-            const dirFlag = flags[`${m}-direction`];
+            const dirFlag = flags[`${flag}-direction`];
             const direction = dirFlag === "over" || dirFlag === "under" ? dirFlag : undefined;
-            toSet.push({ key: m, target: val, direction, tolerance: tolVal });
+            toSet.push({ key, target: val, direction, tolerance: tolVal });
           } else if (tolVal !== undefined) {
             // Tolerance-only update (no new target)
-            tolOnly.push({ key: m, tolerance: tolVal });
+            tolOnly.push({ key, tolerance: tolVal });
           }
         }
 
-        if (toSet.length > 0 || tolOnly.length > 0) {
+        // --split 40/30/30 (carbs/protein/fat) sets the three energy-share goals together
+        let split: MacroSplit | null = null;
+        if (flags.split !== undefined) {
+          split = parseSplit(flags.split);
+          if (!split) printError(`Invalid --split "${flags.split}". Use carbs/protein/fat percentages adding up to 100, e.g. 40/30/30`);
+        }
+
+        if (toSet.length > 0 || tolOnly.length > 0 || split) {
           const allKeys: string[] = [];
+          if (split) {
+            const points = parseOptionalFloat(flags["split-tolerance"]);
+            try {
+              setGoalSplit(split, points, changeOptions);
+            } catch (e) {
+              printError(e instanceof Error ? e.message : "Failed to set macro split");
+            }
+            allKeys.push(...SPLIT_MACROS.map((m) => SPLIT_GOAL_KEYS[m]));
+          }
           for (const g of toSet) {
-            setGoal(g.key, g.target, g.direction, g.tolerance);
+            try {
+              if (g.min !== undefined) setGoalRange(g.key, g.min, g.target, g.tolerance, changeOptions);
+              else setGoal(g.key, g.target, g.direction, g.tolerance, changeOptions);
+            } catch (e) {
+              printError(e instanceof Error ? e.message : `Failed to set goal for ${g.key}`);
+            }
             allKeys.push(g.key);
           }
           for (const t of tolOnly) {
             try {
-              setGoalTolerance(t.key, t.tolerance);
+              setGoalTolerance(t.key, t.tolerance, changeOptions);
               allKeys.push(t.key);
             } catch (e) {
               printError(e instanceof Error ? e.message : `Failed to set tolerance for ${t.key}`);
             }
           }
           printResult(
-            parseOutput(GoalsSetPayloadSchema, { success: true, goalsSet: allKeys }),
-            `Goals set: ${allKeys.join(", ")}`
+            parseOutput(GoalsSetPayloadSchema, {
+              success: true,
+              goalsSet: allKeys,
+              effectiveFrom: effectiveFrom ?? formatLocalDate(new Date()),
+              goalProfile: goalProfile ?? DEFAULT_GOAL_PROFILE,
+            }),
+            `Goals set: ${allKeys.join(", ")}` +
+            (goalProfile ? ` [${goalProfile}]` : "") +
+            (effectiveFrom ? ` (from ${effectiveFrom})` : "")
           );
           break;
         }
 
-        // View goals
-        const goals = getGoals();
+        // View goals: a given profile, else the one active today
+        const viewDate = formatLocalDate(new Date());
+        const viewProfile = goalProfile ?? createGoalResolver().profileOn(viewDate);
+        const goals = getGoals(viewDate, viewProfile);
         if (goals.length === 0) {
-          printResult(parseOutput(GoalsViewPayloadSchema, { goals: null }), "No goals set. Use: nomnom goals --calories 2000 --protein 120");
+          printResult(
+            parseOutput(GoalsViewPayloadSchema, { goals: null, goalProfile: viewProfile }),
+            `No goals set${viewProfile === DEFAULT_GOAL_PROFILE ? "" : ` in profile ${viewProfile}`}. Use: nomnom goals --calories 2000 --protein 120`
+          );
           break;
         }
 
-        const goalsObj: Record<string, { target: number; direction: string; tolerance: number }> = {};
+        const goalsObj: Record<string, ReturnType<typeof formatGoalSetting>> = {};
         let latestUpdate = "";
         for (const g of goals) {
-          goalsObj[g.key] = { target: g.target, direction: g.direction, tolerance: g.tolerance };
+          goalsObj[g.key] = formatGoalSetting(g);
           if (g.updatedAt > latestUpdate) latestUpdate = g.updatedAt;
         }
 
         printResult(
-          parseOutput(GoalsViewPayloadSchema, { goals: { ...goalsObj, updatedAt: latestUpdate } }),
+          parseOutput(GoalsViewPayloadSchema, { goals: { ...goalsObj, updatedAt: latestUpdate }, goalProfile: viewProfile }),
+          `Profile: ${viewProfile}\n` +
           goals
-            .map((g) => {
-              const tolStr = g.tolerance > 0 ? ` ±${g.tolerance}%` : "";
-              return `${g.key}: ${g.target} (${g.direction}${tolStr})`;
-            })
+            .map((g) => `${g.key}: ${describeGoal(g)} since ${g.effectiveFrom}`)
             .join("\n") + `\n\nLast updated: ${latestUpdate}`
         );
         break;
       }
 
       case "progress": {
-        const goals = getGoals();
+        const offsetDays = parseInt(flags.date ?? "0", 10);
+        const targetDate = computeDateStr(isNaN(offsetDays) ? 0 : offsetDays);
+
+        // Each day is judged against the goals in force on that day, from its active profile
+        const goalResolver = createGoalResolver();
+        const goalsByDate = new Map<string, Map<string, Goal>>();
+        function goalsOn(date: string): Map<string, Goal> {
+          let goals = goalsByDate.get(date);
+          if (!goals) {
+            goals = new Map(goalResolver.goalsOn(date).map((g) => [g.key, g]));
+            goalsByDate.set(date, goals);
+          }
+          return goals;
+        }
+
+        const goalProfile = goalResolver.profileOn(targetDate);
+        const goals = [...goalsOn(targetDate).values()];
+        const factorsFlag = resolveEnergyFactors(flags);
+        const factors = factorsFlag ?? "4-4-9";
         if (goals.length === 0) {
           printError("No goals set. Use 'nomnom goals --calories 2000 ...' to set goals.");
         }
 
-        const offsetDays = parseInt(flags.date ?? "0", 10);
-        const targetDate = computeDateStr(isNaN(offsetDays) ? 0 : offsetDays);
         const todayTotals = getDailyTotals(targetDate);
         const allDays = getAllDailyTotals();
 
@@ -972,19 +2514,20 @@ To change settings:
         for (const d of allDays) dayMap.set(d.date, d);
 
         // Goals object
-        const goalsObj: Record<string, { target: number; direction: string; tolerance: number }> = {};
-        for (const g of goals) goalsObj[g.key] = { target: g.target, direction: g.direction, tolerance: g.tolerance };
+        const goalsObj: Record<string, ReturnType<typeof formatGoalSetting>> = {};
+        for (const g of goals) goalsObj[g.key] = formatGoalSetting(g);
 
         // Today's progress per macro
+        // Range goals report against their ceiling (goal = max) and add min and bandMin
         const todayProgress: Record<string, {
           actual: number; goal: number; remaining: number; percent: number;
-          tolerance: number; band: number; zone: string;
+          tolerance: number; band: number; zone: GoalZone; min?: number; max?: number; bandMin?: number;
         }> = {};
         for (const g of goals) {
-          const actual = todayTotals[g.key as keyof typeof todayTotals] as number;
+          const actual = goalActual(todayTotals, g.key, factors);
           const remaining = g.target - actual;
           const percent = g.target === 0 ? (actual === 0 ? 100 : 999) : Math.round((actual / g.target) * 100);
-          const { zone, band } = computeZone(actual, g.target, g.direction, g.tolerance);
+          const { zone, band, bandMin } = computeZone(actual, g.target, g.direction, g.tolerance, g.min);
           todayProgress[g.key] = {
             actual, goal: g.target,
             remaining: Math.round(remaining * 10) / 10,
@@ -992,15 +2535,32 @@ To change settings:
             tolerance: g.tolerance,
             band,
             zone,
+            ...(g.direction === "range" ? { min: g.min ?? 0, max: g.target, bandMin } : {}),
           };
         }
 
-        // Helper: check if a day meets a single goal
-        function meetsGoal(day: DailyTotal | undefined, goal: Goal): boolean {
-          if (!day || day.mealCount === 0) return false;
-          const actual = day[goal.key as keyof DailyTotal] as number;
-          const { zone } = computeZone(actual, goal.target, goal.direction, goal.tolerance);
-          return zone === "met" || zone === "near";
+        // End-of-day projection when planned items are still waiting to be logged
+        const pendingPlan = getPlannedTotals(targetDate, true);
+        const projected: Record<string, { projected: number; goal: number; remaining: number; zone: GoalZone }> = {};
+        if (pendingPlan.mealCount > 0) {
+          const projectedTotals = getProjectedTotals(targetDate);
+          for (const g of goals) {
+            const value = goalActual(projectedTotals, g.key, factors);
+            projected[g.key] = {
+              projected: value,
+              goal: g.target,
+              remaining: Math.round((g.target - value) * 10) / 10,
+              zone: computeZone(value, g.target, g.direction, g.tolerance, g.min).zone,
+            };
+          }
+        }
+
+        // Helper: check if a day meets a goal (false when that goal was not in force)
+        function meetsGoal(day: DailyTotal | undefined, goal: Goal | undefined): boolean {
+          if (!day || day.mealCount === 0 || !goal) return false;
+          const actual = goalActual(day, goal.key, factors);
+          const { zone } = computeZone(actual, goal.target, goal.direction, goal.tolerance, goal.min);
+          return zone === "met" || zone === "near" || zone === "in-range";
         }
 
         // Helper: generate dates going backwards from a start date
@@ -1025,7 +2585,7 @@ To change settings:
           for (const date of datesBack) {
             const day = dayMap.get(date);
             if (!day || day.mealCount === 0) break;
-            if (meetsGoal(day, g)) {
+            if (meetsGoal(day, goalsOn(date).get(g.key))) {
               current++;
             } else {
               break;
@@ -1036,7 +2596,7 @@ To change settings:
           let best = 0;
           let run = 0;
           for (const day of allDays) {
-            if (meetsGoal(day, g)) {
+            if (meetsGoal(day, goalsOn(day.date).get(g.key))) {
               run++;
               if (run > best) best = run;
             } else {
@@ -1047,13 +2607,20 @@ To change settings:
           streaks[g.key] = { current, best, direction: g.direction };
         }
 
-        // allGoals streak
+        // allGoals streak: every goal in force that day was met
+        function meetsAllGoals(day: DailyTotal): boolean {
+          const dayGoals = [...goalsOn(day.date).values()];
+          return dayGoals.length > 0 && dayGoals.every((g) => meetsGoal(day, g));
+        }
+
         let allCurrent = 0;
+        const streakProfiles = new Set<string>();
         for (const date of datesBack) {
           const day = dayMap.get(date);
           if (!day || day.mealCount === 0) break;
-          if (goals.every((g) => meetsGoal(day, g))) {
+          if (meetsAllGoals(day)) {
             allCurrent++;
+            streakProfiles.add(goalResolver.profileOn(date));
           } else {
             break;
           }
@@ -1061,7 +2628,7 @@ To change settings:
         let allBest = 0;
         let allRun = 0;
         for (const day of allDays) {
-          if (goals.every((g) => meetsGoal(day, g))) {
+          if (meetsAllGoals(day)) {
             allRun++;
             if (allRun > allBest) allBest = allRun;
           } else {
@@ -1079,14 +2646,24 @@ To change settings:
           }
         }
         let weekCal = 0, weekPro = 0, weekCarb = 0, weekNetCarb = 0, weekFat = 0, daysTracked = 0;
+        let weekFiber = 0, weekSugar = 0, weekSodium = 0;
+        const weekNutrients: NutrientMap[] = [];
+        const goalsMet: Record<string, number> = Object.fromEntries(goals.map((g) => [g.key, 0]));
         for (const wd of weekDates) {
           const day = dayMap.get(wd);
           if (day && day.mealCount > 0) {
+            for (const g of goals) {
+              if (meetsGoal(day, goalsOn(wd).get(g.key))) goalsMet[g.key]!++;
+            }
             weekCal += day.calories;
             weekPro += day.protein;
             weekCarb += day.carbs;
             weekNetCarb += day.netCarbs;
             weekFat += day.fat;
+            weekFiber += day.fiber;
+            weekSugar += day.sugar;
+            weekSodium += day.sodium;
+            weekNutrients.push(day.nutrients);
             daysTracked++;
           }
         }
@@ -1098,54 +2675,372 @@ To change settings:
             carbs: Math.round((weekCarb / daysTracked) * 10) / 10,
             netCarbs: Math.round((weekNetCarb / daysTracked) * 10) / 10,
             fat: Math.round((weekFat / daysTracked) * 10) / 10,
+            fiber: Math.round((weekFiber / daysTracked) * 10) / 10,
+            sugar: Math.round((weekSugar / daysTracked) * 10) / 10,
+            sodium: Math.round((weekSodium / daysTracked) * 10) / 10,
+            nutrients: scaleNutrients(sumNutrients(weekNutrients), 1 / daysTracked),
             daysTracked,
+            goalsMet,
           }
-          : { calories: 0, protein: 0, carbs: 0, netCarbs: 0, fat: 0, daysTracked: 0 };
+          : { calories: 0, protein: 0, carbs: 0, netCarbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0, nutrients: {}, daysTracked: 0, goalsMet };
 
         // Build JSON result
         const result = {
           date: targetDate,
+          goalProfile,
           goals: goalsObj,
           today: { ...todayProgress, mealCount: todayTotals.mealCount },
-          streaks: { ...streaks, allGoals: { current: allCurrent, best: allBest } },
+          streaks: {
+            ...streaks,
+            allGoals: { current: allCurrent, best: allBest, goalProfiles: [...streakProfiles].sort() },
+          },
           weeklyAvg,
+          ...(factorsFlag || goalSplit(goals) ? { split: buildSplitReport(todayTotals, goals, factors) } : {}),
+          ...(pendingPlan.mealCount > 0 ? { projected: { ...projected, pendingCount: pendingPlan.mealCount } } : {}),
         };
 
         // Human-readable format
-        function bar(percent: number): string {
+        // Range goals shade the unfilled part of the bar from the floor up (100% = ceiling)
+        function bar(percent: number, minPercent?: number): string {
           const filled = Math.min(Math.round(percent / 10), 10);
-          return "■".repeat(filled) + "░".repeat(10 - filled);
+          const rangeStart = minPercent === undefined ? 10 : Math.min(Math.round(minPercent / 10), 10);
+          let out = "■".repeat(filled);
+          for (let i = filled; i < 10; i++) out += i >= rangeStart ? "▒" : "░";
+          return out;
         }
 
-        const humanLines = [`Progress for ${targetDate}\n`];
+        const humanLines = [
+          `Progress for ${targetDate}${goalProfile === DEFAULT_GOAL_PROFILE ? "" : ` (profile: ${goalProfile})`}\n`,
+        ];
+        const labelWidth = Math.max(9, ...goals.map((g) => goalLabel(g.key).length));
         for (const g of goals) {
           const p = todayProgress[g.key]!;
-          const label = g.key.charAt(0).toUpperCase() + g.key.slice(1);
-          const remaining = p.remaining >= 0
-            ? `${p.remaining} remaining`
-            : `OVER by ${Math.abs(p.remaining)}`;
-          const zoneStr = p.tolerance > 0 ? ` [${p.zone}]` : "";
+          const label = goalLabel(g.key);
+          const isRange = p.min !== undefined;
+          const remaining = isRange && p.actual < p.min!
+            ? `${Math.round((p.min! - p.actual) * 10) / 10} to min`
+            : p.remaining >= 0
+              ? `${p.remaining} ${isRange ? "to max" : "remaining"}`
+              : `OVER by ${Math.abs(p.remaining)}`;
+          const zoneStr = p.tolerance > 0 || isRange ? ` [${p.zone}]` : "";
+          const goalStr = isRange ? `${p.min}-${p.goal}` : String(p.goal);
+          const minPercent = isRange && p.goal > 0 ? (p.min! / p.goal) * 100 : undefined;
           humanLines.push(
-            `${label.padEnd(9)} ${String(p.actual).padStart(7)} / ${String(p.goal).padStart(5)}  (${String(p.percent).padStart(3)}%) ${bar(p.percent)} ${remaining}${zoneStr}`
+            `${label.padEnd(labelWidth)} ${String(p.actual).padStart(7)} / ${goalStr.padStart(5)}  (${String(p.percent).padStart(3)}%) ${bar(p.percent, minPercent)} ${remaining}${zoneStr}`
           );
         }
 
+        function goalAbbr(key: string): string {
+          if (key.endsWith("Percent")) return `${key.slice(0, 3)}%`;
+          return getNutrient(key)?.flag ?? key.slice(0, 3);
+        }
+
         const streakParts: string[] = [];
         for (const g of goals) {
           const s = streaks[g.key]!;
-          const abbr = g.key.slice(0, 3);
-          streakParts.push(`${abbr} ${s.current}d (best ${s.best}d)`);
+          streakParts.push(`${goalAbbr(g.key)} ${s.current}d (best ${s.best}d)`);
         }
         streakParts.push(`all ${allCurrent}d (best ${allBest}d)`);
+        if (result.split) humanLines.push(`\n${formatSplitReport(result.split)}`);
+        if (pendingPlan.mealCount > 0) {
+          humanLines.push(
+            `\nProjected with ${pendingPlan.mealCount} planned item${pendingPlan.mealCount === 1 ? "" : "s"}: ` +
+            goals.map((g) => `${goalAbbr(g.key)} ${projected[g.key]!.projected}/${projected[g.key]!.goal} [${projected[g.key]!.zone}]`).join(" | ")
+          );
+        }
         humanLines.push(`\nStreaks:  ${streakParts.join(" | ")}`);
         humanLines.push(
           `\n7-day avg: ${weeklyAvg.calories} cal | ${weeklyAvg.protein}p ${weeklyAvg.carbs}c (${weeklyAvg.netCarbs} net) ${weeklyAvg.fat}f (${weeklyAvg.daysTracked} days tracked)`
         );
+        if (weeklyAvg.daysTracked > 0) {
+          humanLines.push(
+            `Goals met: ${goals.map((g) => `${goalAbbr(g.key)} ${goalsMet[g.key]}/${weeklyAvg.daysTracked}`).join(" | ")}`
+          );
+        }
 
         printResult(parseOutput(ProgressPayloadSchema, result), humanLines.join("\n"));
         break;
       }
 
+      case "profile": {
+        if (flags.reset) {
+          resetProfile();
+          printResult(
+            parseOutput(ProfilePayloadSchema, { profile: getProfile(), updated: [], driGroup: null }),
+            "Profile reset"
+          );
+          break;
+        }
+
+        const changes: Partial<Profile> = {};
+        if (flags.age !== undefined) {
+          const age = parseFloat(flags.age);
+          if (isNaN(age)) printError(`Invalid age "${flags.age}"`);
+          changes.age = age;
+        }
+        if (flags.sex !== undefined) changes.sex = flags.sex as Profile["sex"];
+        if (flags["life-stage"] !== undefined) {
+          const stage = flags["life-stage"];
+          changes.lifeStage = stage === "none" ? null : stage as Profile["lifeStage"];
+        }
+        if (flags.height !== undefined) {
+          const heightCm = flags.height === "none" ? null : parseLength(flags.height, "cm");
+          if (heightCm === null && flags.height !== "none") printError(`Invalid height "${flags.height}". Use cm, or a suffix like 71in`);
+          changes.heightCm = heightCm === null ? null : Math.round(heightCm * 10) / 10;
+        }
+
+        const updated = Object.keys(changes);
+        const profile = updated.length > 0 ? updateProfile(changes) : getProfile();
+        const driProfile = getDriProfile();
+        const driGroup = driProfile ? lifeStageGroup(driProfile) : null;
+
+        printResult(
+          parseOutput(ProfilePayloadSchema, { profile, updated: updated.length > 0 ? updated : undefined, driGroup }),
+          `${formatProfile(profile)}\n` +
+          (driGroup
+            ? `Reference intakes: ${driGroup}`
+            : "Set --age and --sex to compare intake against reference intakes (nomnom dri)")
+        );
+        break;
+      }
+
+      case "dri": {
+        const useDailyValues = resolveDriBasis(flags);
+        const profile = getProfile();
+        const hints = getDriProfile() || useDailyValues
+          ? undefined
+          : [{ action: "set-profile", command: "nomnom profile --age <years> --sex <male|female>", confidence: 0.8 }];
+
+        if (flags.days !== undefined) {
+          const days = parsePositiveInt(flags.days, 7, 90);
+          const data = getTrendData(days);
+          const report = buildDriReport(driIntake(data.averages), getNutrientCoverage(data.period.from, data.period.to), useDailyValues);
+          printResult(
+            parseOutput(DriPayloadSchema, {
+              period: data.period,
+              daysWithData: data.averages.daysWithData,
+              profile,
+              ...report,
+              hints,
+            }),
+            `Daily average vs reference (${data.period.from} to ${data.period.to}, ${data.averages.daysWithData} days with data)\n` +
+            formatDriReport(report)
+          );
+          break;
+        }
+
+        const day = flags.date !== undefined ? parseDay(flags.date) : new Date();
+        if (!day) printError(`Invalid --date "${flags.date}". Use YYYY-MM-DD, today, yesterday or an offset like -1`);
+        const date = formatLocalDate(day!);
+        const report = buildDriReport(driIntake(getDailyTotals(date)), getNutrientCoverage(date, date), useDailyValues);
+
+        printResult(
+          parseOutput(DriPayloadSchema, { date, profile, ...report, hints }),
+          `Intake vs reference (${date})\n${formatDriReport(report)}`
+        );
+        break;
+      }
+
+      case "weight": {
+        const subcommand = positional[0];
+        if (flags.unit !== undefined && !isWeightUnit(flags.unit)) {
+          printError(`Invalid unit "${flags.unit}". Must be kg or lb`);
+        }
+        // Shown in --unit, else whatever the latest weigh-in was entered in
+        const unit = (flags.unit as WeightUnit | undefined) ?? listWeighIns({ limit: 1 })[0]?.unit ?? "kg";
+
+        if (!subcommand || subcommand === "list") {
+          const weighIns = listWeighIns({
+            limit: parsePositiveInt(flags.limit, 20, 500),
+            offset: parseNonNegativeInt(flags.offset, 0),
+          });
+          const { trendByDate, summary } = buildWeightReport(unit);
+          const rows = weighIns.map((w) => formatWeighIn(w, trendByDate.get(w.weighedAt.slice(0, 10))!, unit));
+
+          printResult(
+            parseOutput(WeightListPayloadSchema, { count: rows.length, weighIns: rows, summary }),
+            rows.length === 0
+              ? "No weigh-ins yet. Log one with: nomnom weight log <weight> [--unit kg|lb]"
+              : `Trend ${summary.trend} ${unit} (${formatWeightRate(summary)}) | latest ${summary.latest} ${unit}\n` +
+                rows.map(formatWeighInLine).join("\n")
+          );
+          break;
+        }
+
+        if (subcommand === "log") {
+          const value = parseFloat(positional[1] ?? "");
+          if (isNaN(value)) {
+            printError("Usage: nomnom weight log <weight> [--unit kg|lb] [--body-fat <pct>] [--waist <n>] [--at <when>] [--notes <text>]");
+          }
+          // Checked as typed, so errors quote the user's number rather than its kg conversion
+          if (!isWeightInRange(value, unit)) printError(`Invalid weight "${positional[1]}". Must be above 0 and at most ${fromKg(MAX_WEIGHT_KG, unit)} ${unit}.`);
+          const bodyFatPct = parseOptionalFloat(flags["body-fat"]);
+          if (flags["body-fat"] !== undefined && bodyFatPct === undefined) printError(`Invalid --body-fat "${flags["body-fat"]}"`);
+          const waist = parseOptionalFloat(flags.waist);
+          if (flags.waist !== undefined && !(waist! > 0)) printError(`Invalid --waist "${flags.waist}". Must be a positive number.`);
+
+          const weighIn = addWeighIn({
+            weighedAt: resolveLoggedAt(flags, new Date(), "weigh-ins"),
+            weightKg: toKg(value, unit),
+            unit,
+            bodyFatPct: bodyFatPct ?? null,
+            waistCm: waist === undefined ? null : toCm(waist, lengthUnitFor(unit)),
+            notes: flags.notes ?? null,
+          });
+          const { trendByDate, summary } = buildWeightReport(unit);
+          const row = formatWeighIn(weighIn, trendByDate.get(weighIn.weighedAt.slice(0, 10))!, unit);
+
+          printResult(
+            parseOutput(WeightLogPayloadSchema, { success: true, ...row, ratePerWeek: summary.ratePerWeek }),
+            `Logged ${row.weight} ${unit} (${row.id})\nTrend ${summary.trend} ${unit} (${formatWeightRate(summary)})`
+          );
+          break;
+        }
+
+        if (subcommand === "edit") {
+          const id = positional[1];
+          if (!id) {
+            printError("Usage: nomnom weight edit <id> [--weight <n>] [--unit kg|lb] [--body-fat <pct>] [--waist <n>] [--at <when>] [--notes <text>]");
+          }
+          const existing = getWeighInById(id!);
+          if (!existing) printError(`Weigh-in not found: ${id}`);
+
+          // Values are read in the entry's unit (or the new --unit); a flag without a number clears
+          const entryUnit = (flags.unit as WeightUnit | undefined) ?? existing!.unit;
+          const weight = parseOptionalFloat(flags.weight);
+          if (flags.weight !== undefined && (weight === undefined || !isWeightInRange(weight, entryUnit))) {
+            printError(`Invalid --weight "${flags.weight}". Must be above 0 and at most ${fromKg(MAX_WEIGHT_KG, entryUnit)} ${entryUnit}.`);
+          }
+          const waist = parseOptionalFloat(flags.waist);
+          if (waist !== undefined && waist <= 0) printError(`Invalid --waist "${flags.waist}". Must be a positive number.`);
+          const merged = {
+            weighedAt: resolveLoggedAt(flags, parseLocalDateTime(existing!.weighedAt), "weigh-ins"),
+            weightKg: weight !== undefined ? toKg(weight, entryUnit) : existing!.weightKg,
+            unit: entryUnit,
+            bodyFatPct: flags["body-fat"] !== undefined ? parseOptionalFloat(flags["body-fat"]) ?? null : existing!.bodyFatPct,
+            waistCm: flags.waist !== undefined
+              ? waist === undefined ? null : toCm(waist, lengthUnitFor(entryUnit))
+              : existing!.waistCm,
+            notes: flags.notes !== undefined ? flags.notes : existing!.notes,
+          };
+
+          const updated: string[] = [];
+          if (merged.weighedAt !== existing!.weighedAt) updated.push("weighedAt");
+          if (merged.weightKg !== existing!.weightKg) updated.push("weight");
+          if (merged.unit !== existing!.unit) updated.push("unit");
+          if (merged.bodyFatPct !== existing!.bodyFatPct) updated.push("bodyFat");
+          if (merged.waistCm !== existing!.waistCm) updated.push("waist");
+          if (merged.notes !== existing!.notes) updated.push("notes");
+
+          if (updated.length > 0) updateWeighIn(existing!.id, merged);
+
+          const weighIn = getWeighInById(existing!.id)!;
+          const { trendByDate } = buildWeightReport(unit);
+          const row = formatWeighIn(weighIn, trendByDate.get(weighIn.weighedAt.slice(0, 10))!, unit);
+          printResult(
+            parseOutput(WeightEditPayloadSchema, { success: true, id: weighIn.id, updated, weighIn: row }),
+            updated.length === 0 ? `No changes to weigh-in ${weighIn.id}` : `Updated weigh-in: ${updated.join(", ")}\n${formatWeighInLine(row)}`
+          );
+          break;
+        }
+
+        if (subcommand === "delete") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom weight delete <id>");
+
+          const existing = getWeighInById(id!);
+          if (!existing) printError(`Weigh-in not found: ${id}`);
+          deleteWeighIn(id!);
+
+          printResult(
+            parseOutput(WeightDeletePayloadSchema, { success: true, id, weighedAt: existing!.weighedAt }),
+            `Deleted weigh-in from ${existing!.weighedAt}`
+          );
+          break;
+        }
+
+        printError(`Unknown weight subcommand "${subcommand}". Use: log, list, edit, delete`);
+        break;
+      }
+
+      case "tdee": {
+        if (flags.unit !== undefined && !isWeightUnit(flags.unit)) {
+          printError(`Invalid unit "${flags.unit}". Must be kg or lb`);
+        }
+        const unit = (flags.unit as WeightUnit | undefined) ?? listWeighIns({ limit: 1 })[0]?.unit ?? "kg";
+        const rate = parseOptionalFloat(flags.rate);
+        if (flags.rate !== undefined && rate === undefined) {
+          printError(`Invalid --rate "${flags.rate}". Use a weekly change like -0.5 (loss) or 0.25 (gain)`);
+        }
+
+        // The window ends yesterday: today's log is usually still incomplete
+        const days = Math.max(MIN_TDEE_DAYS, parsePositiveInt(flags.days, 28, 90));
+        const from = computeDateStr(-days);
+        const to = computeDateStr(-1);
+        const inWindow = (date: string) => date >= from && date <= to;
+
+        const intake = getAllDailyTotals().filter((d) => inWindow(d.date));
+        const trend = weightTrend(getAllWeighIns().map((w) => ({ date: w.weighedAt.slice(0, 10), weightKg: w.weightKg })))
+          .filter((p) => inWindow(p.date));
+        const estimate = estimateTdee(days, intake, trend);
+        const level = confidenceLevel(estimate.confidence);
+
+        let proposal: { ratePerWeek: number; unit: WeightUnit; calories: number; currentGoal: number | null } | undefined;
+        const hints: Array<{ action: string; command: string; confidence: number }> = [];
+        if (estimate.tdee !== null && rate !== undefined) {
+          const resolver = createGoalResolver();
+          const today = formatLocalDate(new Date());
+          const profile = resolver.profileOn(today);
+          const calories = caloriesForRate(estimate.tdee, toKg(rate, unit));
+          proposal = {
+            ratePerWeek: rate,
+            unit,
+            calories,
+            currentGoal: resolver.goalsOn(today).find((g) => g.key === "calories")?.target ?? null,
+          };
+          hints.push({
+            action: "set-calorie-goal",
+            command: `nomnom goals --calories ${calories}${profile === DEFAULT_GOAL_PROFILE ? "" : ` --profile ${profile}`}`,
+            confidence: estimate.confidence,
+          });
+        }
+        if (estimate.tdee === null && estimate.trendDays < MIN_TDEE_DAYS) {
+          hints.push({ action: "log-weight", command: "nomnom weight log <weight>", confidence: 0.8 });
+        }
+
+        const weightChange = estimate.trendChangeKg === null ? null : fromKg(estimate.trendChangeKg, unit);
+        const payload = parseOutput(TdeePayloadSchema, {
+          period: { from, to },
+          tdee: estimate.tdee,
+          confidence: estimate.confidence,
+          confidenceLevel: level,
+          daysUsed: { intake: estimate.intakeDays, weighIns: estimate.weighInDays, trendSpan: estimate.trendDays },
+          averageIntake: estimate.averageIntake,
+          weightChange,
+          unit,
+          reason: estimate.reason,
+          proposal,
+          hints: hints.length > 0 ? hints : undefined,
+        });
+
+        printResult(
+          payload,
+          estimate.tdee === null
+            ? `Not enough data for a TDEE estimate (${from} to ${to}): ${estimate.reason}`
+            : [
+              `Estimated TDEE: ${estimate.tdee} kcal/day (${level} confidence, ${estimate.confidence})`,
+              `${from} to ${to}: ${estimate.intakeDays} days logged, avg ${estimate.averageIntake} kcal | ` +
+                `trend ${weightChange! > 0 ? "+" : ""}${weightChange} ${unit} over ${estimate.trendDays} days (${estimate.weighInDays} weigh-ins)`,
+              ...(proposal
+                ? [`For ${rate! > 0 ? "+" : ""}${rate} ${unit}/week: ${proposal.calories} kcal/day` +
+                  (proposal.currentGoal !== null ? ` (current goal ${proposal.currentGoal})` : "") +
+                  `\n  ${hints[0]!.command}`]
+                : []),
+            ].join("\n")
+        );
+        break;
+      }
+
       case "foods": {
         const subcommand = positional[0];
 
@@ -1182,6 +3077,7 @@ To change settings:
             fiber: parseOptionalFloat(flags.fiber),
             sugar: parseOptionalFloat(flags.sugar),
             sodium: parseOptionalFloat(flags.sodium),
+            nutrients: mergeNutrients({}, nutrientsFromFlags(flags)),
           });
 
           printResult(
@@ -1205,7 +3101,97 @@ To change settings:
           break;
         }
 
-        printError(`Unknown foods subcommand "${subcommand}". Use: add, list, delete`);
+        if (subcommand === "edit") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom foods edit <id> [--name <name>] [--calories <n>] ...");
+
+          const food = getCustomFoodById(id!);
+          if (!food) printError(`Custom food not found: ${id}`);
+
+          // Merge flags on top of existing values; --brand= (empty) clears a text field
+          const existing = customFoodFields(food!);
+          const merged = {
+            name: flags.name || existing.name,
+            brand: flags.brand !== undefined ? flags.brand || null : existing.brand,
+            barcode: flags.barcode !== undefined ? flags.barcode || null : existing.barcode,
+            serving: flags.serving !== undefined ? flags.serving || null : existing.serving,
+            calories: existing.calories,
+            protein: existing.protein,
+            carbs: existing.carbs,
+            fat: existing.fat,
+            fiber: existing.fiber,
+            sugar: existing.sugar,
+            sodium: existing.sodium,
+            nutrients: mergeNutrients(existing.nutrients, nutrientsFromFlags(flags)),
+          };
+          for (const key of ["calories", "protein", "carbs", "fat", "fiber", "sugar", "sodium"] as const) {
+            if (flags[key] !== undefined) merged[key] = parseOptionalFloat(flags[key]) ?? null;
+          }
+
+          const result = updateCustomFood(id!, merged)!;
+
+          printResult(
+            parseOutput(FoodsEditPayloadSchema, {
+              success: true,
+              id,
+              name: merged.name,
+              updated: result.updated,
+              revision: result.revision,
+            }),
+            result.updated.length === 0
+              ? `No changes to ${merged.name}`
+              : `Updated ${merged.name}: ${result.updated.join(", ")} (previous values saved as revision ${result.revision})`
+          );
+          break;
+        }
+
+        if (subcommand === "history") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom foods history <id>");
+
+          const revisions = listRevisions("custom_food", id!);
+          if (revisions.length === 0 && !getCustomFoodById(id!)) printError(`Custom food not found: ${id}`);
+
+          printResult(
+            parseOutput(RevisionHistoryPayloadSchema, { id, count: revisions.length, revisions }),
+            formatRevisions(revisions)
+          );
+          break;
+        }
+
+        if (subcommand === "restore") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom foods restore <id> [--revision <n>]");
+
+          const revision = flags.revision !== undefined ? parseInt(flags.revision, 10) : undefined;
+          if (revision !== undefined && (isNaN(revision) || revision < 1)) printError(`Invalid revision "${flags.revision}"`);
+          let result: ReturnType<typeof restoreCustomFood>;
+          try {
+            result = restoreCustomFood(id!, revision);
+          } catch (e) {
+            printError(e instanceof Error ? e.message : "Failed to restore custom food");
+          }
+          if (!result!) {
+            printError(revision === undefined ? `No revisions for custom food: ${id}` : `Revision ${revision} not found for custom food: ${id}`);
+          }
+          const food = getCustomFoodById(id!)!;
+
+          printResult(
+            parseOutput(RestorePayloadSchema, {
+              success: true,
+              id,
+              name: food.description,
+              restoredRevision: result!.restored,
+              updated: result!.updated,
+              revision: result!.revision,
+            }),
+            `Restored ${food.description} to revision ${result!.restored}` +
+            (result!.updated.length > 0 ? `: ${result!.updated.join(", ")}` : " (no changes)")
+          );
+          break;
+        }
+
+        printError(`Unknown foods subcommand "${subcommand}". Use: add, list, edit, history, restore, delete`);
         break;
       }
 
@@ -1231,13 +3217,27 @@ To change settings:
           break;
         }
 
+        if (subcommand === "show") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom recipe show <id>");
+
+          const recipe = getRecipeById(id!);
+          if (!recipe) printError(`Recipe not found: ${id}`);
+
+          printResult(formatRecipe(recipe!), formatRecipeDetail(recipe!));
+          break;
+        }
+
         if (subcommand === "create") {
           const name = positional.slice(1).join(" ");
-          if (!name) printError("Usage: nomnom recipe create <name> [--calories <n>] ...");
+          if (!name) printError("Usage: nomnom recipe create <name> [--calories <n>] ... | nomnom recipe create <name> --ingredients '<json>' [--servings <n>]");
+
+          const servings = parseQuantity(flags.servings, 1, "servings");
 
           const recipeInput = {
             name,
             servingSize: flags.serving,
+            servings,
             calories: parseOptionalFloat(flags.calories),
             protein: parseOptionalFloat(flags.protein),
             carbs: parseOptionalFloat(flags.carbs),
@@ -1245,9 +3245,10 @@ To change settings:
             fiber: parseOptionalFloat(flags.fiber),
             sugar: parseOptionalFloat(flags.sugar),
             sodium: parseOptionalFloat(flags.sodium),
+            nutrients: mergeNutrients({}, nutrientsFromFlags(flags)),
           };
 
-          const hasNutrition = [
+          const hasNutrition = Object.keys(recipeInput.nutrients).length > 0 || [
             recipeInput.calories,
             recipeInput.protein,
             recipeInput.carbs,
@@ -1257,80 +3258,198 @@ To change settings:
             recipeInput.sodium,
           ].some((value) => value !== undefined);
 
-          if (!hasNutrition) {
-            printError("Recipe templates need at least one nutrition field. Example: nomnom recipe create \"Chicken Bowl\" --calories 500 --protein 30");
+          let id: string;
+          if (flags.ingredients !== undefined) {
+            if (hasNutrition) {
+              printError("Recipes built from --ingredients compute their own nutrition. Drop the nutrition flags.");
+            }
+
+            let json: unknown;
+            try {
+              json = JSON.parse(flags.ingredients);
+            } catch (e) {
+              printError(`--ingredients is not valid JSON: ${e instanceof Error ? e.message : flags.ingredients}`);
+            }
+            const parsed = RecipeIngredientsInputSchema.safeParse(json);
+            if (!parsed.success) {
+              const issue = parsed.error.issues[0]!;
+              const where = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+              printError(`Invalid --ingredients${where}: ${issue.message}`);
+            }
+
+            const ingredients: RecipeIngredientInput[] = [];
+            for (const [index, item] of parsed.data!.entries()) {
+              try {
+                ingredients.push(await resolveIngredient(item));
+              } catch (e) {
+                printError(`Ingredient ${index + 1}: ${e instanceof Error ? e.message : "invalid ingredient"}`);
+              }
+            }
+
+            id = addCompositeRecipe({ name, servingSize: flags.serving, servings, ingredients });
+          } else {
+            if (!hasNutrition) {
+              printError("Recipe templates need at least one nutrition field or --ingredients. Example: nomnom recipe create \"Chicken Bowl\" --calories 500 --protein 30");
+            }
+            id = addRecipe(recipeInput);
           }
 
-          const id = addRecipe(recipeInput);
           const recipe = getRecipeById(id)!;
 
           printResult(
             parseOutput(RecipeCreatePayloadSchema, { success: true, ...formatRecipe(recipe) }),
-            `Saved recipe: ${recipe.name}`
+            `Saved recipe: ${recipe.name}` +
+            (recipe.ingredients.length > 0 ? `\n${formatRecipeDetail(recipe)}` : "")
           );
           break;
         }
 
-        if (subcommand === "log") {
+        if (subcommand === "add-ingredient") {
           const id = positional[1];
-          if (!id) printError("Usage: nomnom recipe log <id> [--multiplier <n>] [--type <meal>] [--notes <text>]");
+          if (!id) printError("Usage: nomnom recipe add-ingredient <recipe-id> (--fdc <id> | --food-id <id> | --barcode <code> | --recipe <id>) [--qty <n>] [--unit <u>] [--name <text>]");
 
           const recipe = getRecipeById(id!);
           if (!recipe) printError(`Recipe not found: ${id}`);
-
-          const multiplier = parseOptionalFloat(flags.multiplier) ?? 1;
-          if (multiplier <= 0) {
-            printError(`Invalid multiplier "${flags.multiplier}". Must be greater than 0.`);
+          if (recipe!.ingredients.length === 0) {
+            printError(`${recipe!.name} has hand-entered nutrition. Create a new recipe with --ingredients to build it from ingredients.`);
           }
 
-          const mealType = flags.type || "snack";
-          if (!VALID_MEAL_TYPES.has(mealType)) {
-            printError(`Invalid meal type "${mealType}". Must be one of: breakfast, lunch, dinner, snack`);
+          const quantity = flags.qty === undefined ? undefined : parseQuantity(flags.qty, 1);
+
+          const input = await resolveIngredient({
+            fdc: flags.fdc,
+            foodId: flags["food-id"],
+            barcode: flags.barcode,
+            recipe: flags.recipe,
+            name: flags.name,
+            qty: quantity,
+            unit: flags.unit,
+          });
+          const ingredientId = addRecipeIngredient(recipe!.id, input);
+          const updated = getRecipeById(recipe!.id)!;
+
+          printResult(
+            parseOutput(RecipeIngredientPayloadSchema, { success: true, ingredientId, ...formatRecipe(updated) }),
+            `Added ingredient to ${updated.name}\n${formatRecipeDetail(updated)}`
+          );
+          break;
+        }
+
+        if (subcommand === "update-ingredient") {
+          const [id, ingredientId] = [positional[1], positional[2]];
+          if (!id || !ingredientId) printError("Usage: nomnom recipe update-ingredient <recipe-id> <ingredient-id> [--qty <n>] [--unit <u>]");
+
+          const recipe = getRecipeById(id!);
+          if (!recipe) printError(`Recipe not found: ${id}`);
+          const ingredient = recipe!.ingredients.find((i) => i.id === ingredientId);
+          if (!ingredient) printError(`Ingredient not found in ${recipe!.name}: ${ingredientId}`);
+
+          const quantity = parseQuantity(flags.qty, ingredient!.quantity);
+
+          if (ingredient!.source === "usda") {
+            const usda = await ensureUSDA();
+            if (!usda.ready) printError(usda.error || "USDA database not available");
           }
+          updateRecipeIngredient(recipe!.id, ingredientId!, { quantity, unit: flags.unit || ingredient!.unit });
+          const updated = getRecipeById(recipe!.id)!;
+
+          printResult(
+            parseOutput(RecipeIngredientPayloadSchema, { success: true, ingredientId, ...formatRecipe(updated) }),
+            `Updated ${ingredient!.name} in ${updated.name}\n${formatRecipeDetail(updated)}`
+          );
+          break;
+        }
+
+        if (subcommand === "remove-ingredient") {
+          const [id, ingredientId] = [positional[1], positional[2]];
+          if (!id || !ingredientId) printError("Usage: nomnom recipe remove-ingredient <recipe-id> <ingredient-id>");
+
+          const recipe = getRecipeById(id!);
+          if (!recipe) printError(`Recipe not found: ${id}`);
+
+          const result = removeRecipeIngredient(recipe!.id, ingredientId!);
+          if (!result.removed) printError(`Ingredient not found in ${recipe!.name}: ${ingredientId}`);
+          const updated = getRecipeById(recipe!.id)!;
+
+          printResult(
+            parseOutput(RecipeIngredientPayloadSchema, { success: true, ingredientId, ...formatRecipe(updated) }),
+            `Removed ${result.name} from ${updated.name}\n${formatRecipeDetail(updated)}`
+          );
+          break;
+        }
+
+        if (subcommand === "refresh") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom recipe refresh <id>");
+
+          const recipe = getRecipeById(id!);
+          if (!recipe) printError(`Recipe not found: ${id}`);
+
+          // USDA ingredients keep their last values when the database is not installed
+          await ensureUSDA(false);
+          recomputeRecipe(recipe!.id);
+          const updated = getRecipeById(recipe!.id)!;
 
-          const mealId = logMeal({
+          printResult(
+            parseOutput(RecipeCreatePayloadSchema, { success: true, ...formatRecipe(updated) }),
+            `Recomputed ${updated.name}\n${formatRecipeDetail(updated)}`
+          );
+          break;
+        }
+
+        if (subcommand === "log") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom recipe log <id> [--servings <n>] [--type <meal>] [--at <when>] [--notes <text>]");
+
+          const recipe = getRecipeById(id!);
+          if (!recipe) printError(`Recipe not found: ${id}`);
+
+          // --multiplier predates recipe yields and means the same thing: servings eaten
+          const servingsFlag = flags.servings !== undefined ? "servings" : "multiplier";
+          const multiplier = parseQuantity(flags[servingsFlag], 1, servingsFlag);
+
+          const group = findMealGroup(flags.group);
+          const { mealType, loggedAt } = resolveMealSlot(flags, group);
+          const actualNutrition = scaleRecipe(recipe!, multiplier);
+          const { ids: [mealId], pantryUses } = logMeals([{
             foodName: recipe!.name,
             quantity: multiplier,
-            unit: recipe!.servingSize || "recipe",
+            unit: recipe!.servingSize || "serving",
             mealType,
             notes: flags.notes,
-            calories: scaleNutrition(recipe!.calories, multiplier) ?? undefined,
-            protein: scaleNutrition(recipe!.protein, multiplier) ?? undefined,
-            carbs: scaleNutrition(recipe!.carbs, multiplier) ?? undefined,
-            fat: scaleNutrition(recipe!.fat, multiplier) ?? undefined,
-            fiber: scaleNutrition(recipe!.fiber, multiplier) ?? undefined,
-            sugar: scaleNutrition(recipe!.sugar, multiplier) ?? undefined,
-            sodium: scaleNutrition(recipe!.sodium, multiplier) ?? undefined,
-          });
-          const actualNutrition = {
-            calories: scaleNutrition(recipe!.calories, multiplier),
-            protein: scaleNutrition(recipe!.protein, multiplier),
-            carbs: scaleNutrition(recipe!.carbs, multiplier),
-            fat: scaleNutrition(recipe!.fat, multiplier),
-            fiber: scaleNutrition(recipe!.fiber, multiplier),
-            sugar: scaleNutrition(recipe!.sugar, multiplier),
-            sodium: scaleNutrition(recipe!.sodium, multiplier),
-            netCarbs: scaleNutrition(recipe!.netCarbs, multiplier),
-          };
-
+            loggedAt,
+            groupId: group?.id,
+            calories: actualNutrition.calories ?? undefined,
+            protein: actualNutrition.protein ?? undefined,
+            carbs: actualNutrition.carbs ?? undefined,
+            fat: actualNutrition.fat ?? undefined,
+            fiber: actualNutrition.fiber ?? undefined,
+            sugar: actualNutrition.sugar ?? undefined,
+            sodium: actualNutrition.sodium ?? undefined,
+            nutrients: actualNutrition.nutrients,
+          }], flags["no-pantry"] === "true" ? [] : recipeIngredientNeeds(recipe!, multiplier / recipe!.servings));
           const hints = [
             { action: "check-summary", command: "nomnom today", confidence: 0.92 },
             ...(getGoals().length > 0
               ? [{ action: "check-progress", command: "nomnom progress", confidence: 0.84 }]
               : []),
+            ...pantryHints(pantryUses),
           ];
 
           printResult(
             parseOutput(RecipeLogPayloadSchema, {
               success: true,
               recipeId: recipe!.id,
-              mealId,
+              mealId: mealId!,
               name: recipe!.name,
               multiplier,
+              servings: multiplier,
+              loggedAt,
               actualNutrition,
+              pantry: pantryUses.length > 0 ? pantryUses : undefined,
               hints,
             }),
-            `Logged recipe ${recipe!.name} x${multiplier}`
+            `Logged ${multiplier} serving${multiplier === 1 ? "" : "s"} of ${recipe!.name}` + formatPantryUses(pantryUses)
           );
           break;
         }
@@ -1349,7 +3468,610 @@ To change settings:
           break;
         }
 
-        printError(`Unknown recipe subcommand "${subcommand}". Use: create, list, log, delete`);
+        if (subcommand === "edit") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom recipe edit <id> [--name <name>] [--serving <text>] [--servings <n>] [--calories <n>] ...");
+
+          const recipe = getRecipeById(id!);
+          if (!recipe) printError(`Recipe not found: ${id}`);
+
+          const nutritionKeys = ["calories", "protein", "carbs", "fat", "fiber", "sugar", "sodium"] as const;
+          const nutrientChanges = nutrientsFromFlags(flags);
+          const editsNutrition = nutritionKeys.some((key) => flags[key] !== undefined) || Object.keys(nutrientChanges).length > 0;
+          if (recipe!.ingredients.length > 0 && editsNutrition) {
+            printError(`${recipe!.name} computes its nutrition from ingredients. Use recipe update-ingredient instead.`);
+          }
+
+          const existing = recipeFields(recipe!);
+          const merged = {
+            name: flags.name || existing.name,
+            serving: flags.serving !== undefined ? flags.serving || null : existing.serving,
+            servings: parseQuantity(flags.servings, existing.servings, "servings"),
+            calories: existing.calories,
+            protein: existing.protein,
+            carbs: existing.carbs,
+            fat: existing.fat,
+            fiber: existing.fiber,
+            sugar: existing.sugar,
+            sodium: existing.sodium,
+            nutrients: mergeNutrients(existing.nutrients, nutrientChanges),
+          };
+          for (const key of nutritionKeys) {
+            if (flags[key] !== undefined) merged[key] = parseOptionalFloat(flags[key]) ?? null;
+          }
+
+          const result = updateRecipe(id!, merged)!;
+
+          printResult(
+            parseOutput(RecipeEditPayloadSchema, {
+              success: true,
+              id,
+              name: merged.name,
+              updated: result.updated,
+              revision: result.revision,
+            }),
+            result.updated.length === 0
+              ? `No changes to ${merged.name}`
+              : `Updated ${merged.name}: ${result.updated.join(", ")} (previous values saved as revision ${result.revision})`
+          );
+          break;
+        }
+
+        if (subcommand === "history") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom recipe history <id>");
+
+          const revisions = listRevisions("recipe", id!);
+          if (revisions.length === 0 && !getRecipeById(id!)) printError(`Recipe not found: ${id}`);
+
+          printResult(
+            parseOutput(RevisionHistoryPayloadSchema, { id, count: revisions.length, revisions }),
+            formatRevisions(revisions)
+          );
+          break;
+        }
+
+        if (subcommand === "restore") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom recipe restore <id> [--revision <n>]");
+
+          const revision = flags.revision !== undefined ? parseInt(flags.revision, 10) : undefined;
+          if (revision !== undefined && (isNaN(revision) || revision < 1)) printError(`Invalid revision "${flags.revision}"`);
+          let result: ReturnType<typeof restoreRecipe>;
+          try {
+            result = restoreRecipe(id!, revision);
+          } catch (e) {
+            printError(e instanceof Error ? e.message : "Failed to restore recipe");
+          }
+          if (!result!) {
+            printError(revision === undefined ? `No revisions for recipe: ${id}` : `Revision ${revision} not found for recipe: ${id}`);
+          }
+          const recipe = getRecipeById(id!)!;
+
+          printResult(
+            parseOutput(RestorePayloadSchema, {
+              success: true,
+              id,
+              name: recipe.name,
+              restoredRevision: result!.restored,
+              updated: result!.updated,
+              revision: result!.revision,
+            }),
+            `Restored ${recipe.name} to revision ${result!.restored}` +
+            (result!.updated.length > 0 ? `: ${result!.updated.join(", ")}` : " (no changes)")
+          );
+          break;
+        }
+
+        printError(`Unknown recipe subcommand "${subcommand}". Use: create, list, show, edit, history, restore, log, delete, add-ingredient, update-ingredient, remove-ingredient, refresh`);
+        break;
+      }
+
+      case "group":
+      case "groups": {
+        const subcommand = positional[0];
+
+        if (!subcommand || subcommand === "list") {
+          const day = flags.date !== undefined ? parseDay(flags.date) : null;
+          if (flags.date !== undefined && !day) {
+            printError(`Invalid --date "${flags.date}". Use YYYY-MM-DD, today, yesterday or an offset like -1`);
+          }
+          const groups = listMealGroups({
+            date: day ? formatLocalDate(day) : undefined,
+            limit: parsePositiveInt(flags.limit, 20, 500),
+            offset: parseNonNegativeInt(flags.offset, 0),
+          });
+          printResult(
+            parseOutput(GroupListPayloadSchema, { count: groups.length, groups: groups.map(formatMealGroup) }),
+            groups.length === 0
+              ? "No meal groups"
+              : groups.map((g) =>
+                `[${g.id}] ${g.name} [${g.mealType}] ${g.loggedAt} | ${g.mealCount} items${g.notes ? ` | ${g.notes}` : ""}`
+              ).join("\n")
+          );
+          break;
+        }
+
+        if (subcommand === "create") {
+          const name = positional.slice(1).join(" ");
+          if (!name) printError("Usage: nomnom group create <name> [--type <meal>] [--at <when>] [--notes <text>] [--meals <id,id,...>]");
+
+          const mealType = flags.type || "snack";
+          if (!VALID_MEAL_TYPES.has(mealType)) {
+            printError(`Invalid meal type "${mealType}". Must be one of: breakfast, lunch, dinner, snack`);
+          }
+
+          const mealIds = (flags.meals ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+          const missing = mealIds.filter((id) => !getMealById(id));
+          if (missing.length > 0) printError(`Meal not found: ${missing.join(", ")}`);
+
+          const group = createMealGroup({
+            name,
+            mealType,
+            loggedAt: resolveLoggedAt(flags),
+            notes: flags.notes,
+            mealIds,
+          });
+          const detail = formatMealGroupDetail(group);
+
+          printResult(
+            parseOutput(GroupCreatePayloadSchema, { success: true, ...detail }),
+            `Created meal group: ${group.name} (${group.id})` +
+            (mealIds.length > 0 ? `\n${formatMealGroupSummary(detail)}` : "")
+          );
+          break;
+        }
+
+        if (subcommand === "show") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom group show <id>");
+
+          const group = findMealGroup(id);
+          const detail = formatMealGroupDetail(group!);
+          printResult(detail, formatMealGroupSummary(detail));
+          break;
+        }
+
+        if (subcommand === "edit") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom group edit <id> [--name <name>] [--type <meal>] [--at <when>] [--notes <text>]");
+
+          const existing = findMealGroup(id)!;
+          const merged = {
+            name: flags.name || existing.name,
+            mealType: flags.type || existing.mealType,
+            loggedAt: resolveLoggedAt(flags, parseLocalDateTime(existing.loggedAt)),
+            notes: flags.notes !== undefined ? flags.notes : existing.notes,
+          };
+          if (!VALID_MEAL_TYPES.has(merged.mealType)) {
+            printError(`Invalid meal type "${merged.mealType}". Must be one of: breakfast, lunch, dinner, snack`);
+          }
+
+          const updated: string[] = [];
+          if (merged.name !== existing.name) updated.push("name");
+          if (merged.mealType !== existing.mealType) updated.push("type");
+          if (merged.loggedAt !== existing.loggedAt) updated.push("loggedAt");
+          if (merged.notes !== existing.notes) updated.push("notes");
+
+          if (updated.length > 0) updateMealGroup(existing.id, merged);
+
+          printResult(
+            parseOutput(GroupEditPayloadSchema, { success: true, id: existing.id, name: merged.name, updated }),
+            updated.length === 0 ? `No changes to ${merged.name}` : `Updated ${merged.name}: ${updated.join(", ")}`
+          );
+          break;
+        }
+
+        if (subcommand === "delete") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom group delete <id> [--with-meals]");
+
+          const withMeals = flags["with-meals"] === "true";
+          const result = deleteMealGroup(id!, withMeals);
+          if (!result.deleted) printError(`Meal group not found: ${id}`);
+
+          printResult(
+            parseOutput(GroupDeletePayloadSchema, {
+              success: true,
+              id,
+              name: result.name,
+              mealCount: result.mealCount,
+              mealsDeleted: withMeals,
+            }),
+            `Deleted meal group: ${result.name}` +
+            (result.mealCount > 0 ? ` (${result.mealCount} items ${withMeals ? "deleted" : "kept, now ungrouped"})` : "")
+          );
+          break;
+        }
+
+        if (subcommand === "add") {
+          const id = positional[1];
+          const mealIds = positional.slice(2);
+          if (!id || mealIds.length === 0) printError("Usage: nomnom group add <group-id> <meal-id> [<meal-id> ...]");
+
+          const group = findMealGroup(id)!;
+          const added = addMealsToGroup(group.id, mealIds);
+          const notFound = mealIds.filter((mealId) => !added.includes(mealId));
+
+          printResult(
+            parseOutput(GroupMembershipPayloadSchema, { success: true, groupId: group.id, mealIds: added, notFound }),
+            `Added ${added.length} item${added.length === 1 ? "" : "s"} to ${group.name}` +
+            (notFound.length > 0 ? `\nNot found: ${notFound.join(", ")}` : "")
+          );
+          break;
+        }
+
+        if (subcommand === "remove") {
+          const mealIds = positional.slice(1);
+          if (mealIds.length === 0) printError("Usage: nomnom group remove <meal-id> [<meal-id> ...]");
+
+          const removed = removeMealsFromGroup(mealIds);
+          const notFound = mealIds.filter((mealId) => !removed.includes(mealId));
+
+          printResult(
+            parseOutput(GroupMembershipPayloadSchema, { success: true, groupId: null, mealIds: removed, notFound }),
+            `Removed ${removed.length} item${removed.length === 1 ? "" : "s"} from their group` +
+            (notFound.length > 0 ? `\nNot found or not grouped: ${notFound.join(", ")}` : "")
+          );
+          break;
+        }
+
+        printError(`Unknown group subcommand "${subcommand}". Use: create, list, show, edit, delete, add, remove`);
+        break;
+      }
+
+      case "plan":
+      case "plans": {
+        const subcommand = positional[0];
+
+        if (!subcommand || subcommand === "list") {
+          // Upcoming by default; --date narrows to one day, --all drops the bounds
+          const range: { from?: string; to?: string } = {};
+          for (const [flag, key] of [["from", "from"], ["to", "to"], ["date", "from"], ["date", "to"]] as const) {
+            if (flags[flag] === undefined) continue;
+            const day = parseDay(flags[flag]);
+            if (!day) printError(`Invalid --${flag} "${flags[flag]}". Use YYYY-MM-DD, today, tomorrow or an offset like 2`);
+            range[key] = formatLocalDate(day!);
+          }
+          if (flags.all !== "true" && range.from === undefined) range.from = computeDateStr(0);
+          if (flags.all === "true") {
+            delete range.from;
+            delete range.to;
+          }
+
+          const items = listPlannedMeals(range).map(formatPlannedMeal);
+          printResult(
+            parseOutput(PlanListPayloadSchema, { from: range.from ?? null, to: range.to ?? null, count: items.length, items }),
+            items.length === 0 ? "No planned meals" : items.map(formatPlannedMealLine).join("\n")
+          );
+          break;
+        }
+
+        if (subcommand === "add") {
+          const usage = "Usage: nomnom plan add <date> <recipe-id | food-id | fdcId | food name> [--servings <n>] [--qty <n>] [--unit <u>] [--type <meal>] [--notes <text>]";
+          const dateArg = positional[1];
+          if (!dateArg) printError(usage);
+          const day = parseDay(dateArg!);
+          if (!day) printError(`Invalid date "${dateArg}". Use YYYY-MM-DD, today, tomorrow or an offset like 2`);
+          const plannedFor = formatLocalDate(day!);
+          if (plannedFor < computeDateStr(0)) printError(`Cannot plan meals for a past date (${plannedFor})`);
+
+          const mealType = flags.type || "snack";
+          if (!VALID_MEAL_TYPES.has(mealType)) {
+            printError(`Invalid meal type "${mealType}". Must be one of: breakfast, lunch, dinner, snack`);
+          }
+
+          // A single bare reference may be a recipe, a custom food or an fdcId; anything else is a name
+          const rest = positional.slice(2);
+          const ref = rest.length === 1 ? rest[0]! : undefined;
+          const recipeId = flags.recipe ?? (ref && getRecipeById(ref) ? ref : undefined);
+          const foodRef: FoodRefInput = { fdc: flags.fdc, foodId: flags["food-id"], barcode: flags.barcode };
+          let refIsFood = false;
+          if (!recipeId && !foodRef.fdc && !foodRef.foodId && !foodRef.barcode && ref) {
+            if (getCustomFoodById(ref)) foodRef.foodId = ref;
+            else if (/^\d+$/.test(ref)) foodRef.fdc = ref;
+            refIsFood = foodRef.foodId !== undefined || foodRef.fdc !== undefined;
+          }
+
+          let input: PlannedMealInput;
+          if (recipeId) {
+            const recipe = getRecipeById(recipeId);
+            if (!recipe) printError(`Recipe not found: ${recipeId}`);
+            const servings = parseQuantity(flags.servings, 1, "servings");
+            const scaled = scaleRecipe(recipe!, servings);
+            input = {
+              plannedFor,
+              mealType,
+              source: "recipe",
+              refId: recipe!.id,
+              foodName: recipe!.name,
+              quantity: servings,
+              unit: recipe!.servingSize || "serving",
+              notes: flags.notes ?? null,
+              calories: scaled.calories,
+              protein: scaled.protein,
+              carbs: scaled.carbs,
+              fat: scaled.fat,
+              fiber: scaled.fiber,
+              sugar: scaled.sugar,
+              sodium: scaled.sodium,
+              nutrients: scaled.nutrients,
+            };
+          } else {
+            const quantity = parseQuantity(flags.qty, 1);
+            const linked = await resolveLinkedFood(foodRef, quantity, flags.unit);
+            const foodName = (refIsFood ? "" : rest.join(" ")) || linked?.name;
+            if (!foodName) printError(usage);
+            input = {
+              plannedFor,
+              mealType,
+              source: linked?.source ?? "manual",
+              refId: linked?.foodId ?? null,
+              foodName: foodName!,
+              quantity,
+              unit: linked?.unit ?? (flags.unit || "serving"),
+              notes: flags.notes ?? null,
+              calories: parseOptionalFloat(flags.calories) ?? linked?.nutrition.calories ?? null,
+              protein: parseOptionalFloat(flags.protein) ?? linked?.nutrition.protein ?? null,
+              carbs: parseOptionalFloat(flags.carbs) ?? linked?.nutrition.carbs ?? null,
+              fat: parseOptionalFloat(flags.fat) ?? linked?.nutrition.fat ?? null,
+              fiber: parseOptionalFloat(flags.fiber) ?? linked?.nutrition.fiber ?? null,
+              sugar: parseOptionalFloat(flags.sugar) ?? linked?.nutrition.sugar ?? null,
+              sodium: parseOptionalFloat(flags.sodium) ?? linked?.nutrition.sodium ?? null,
+              nutrients: mergeNutrients(linked?.nutrition.nutrients ?? {}, nutrientsFromFlags(flags)),
+            };
+          }
+
+          const planned = formatPlannedMeal(addPlannedMeal(input));
+          printResult(
+            parseOutput(PlanAddPayloadSchema, { success: true, ...planned }),
+            `Planned ${planned.foodName} (${planned.quantity} ${planned.unit}) for ${planned.plannedFor} ${planned.mealType} (${planned.id})\n` +
+            formatNutritionSummary(planned)
+          );
+          break;
+        }
+
+        if (subcommand === "delete") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom plan delete <plan-id>");
+
+          const plan = getPlannedMealById(id!);
+          if (!plan) printError(`Planned meal not found: ${id}`);
+          deletePlannedMeal(id!);
+
+          printResult(
+            parseOutput(PlanDeletePayloadSchema, { success: true, id, foodName: plan!.foodName }),
+            `Deleted planned meal: ${plan!.foodName}` + (plan!.mealId ? " (the logged meal is kept)" : "")
+          );
+          break;
+        }
+
+        if (subcommand === "log") {
+          const id = positional[1];
+          if (!id) printError("Usage: nomnom plan log <plan-id> [--at <when>] [--type <meal>] [--group <group-id>]");
+
+          const plan = getPlannedMealById(id!);
+          if (!plan) printError(`Planned meal not found: ${id}`);
+          if (plan!.mealId) printError(`Already logged as meal ${plan!.mealId}`);
+          if (plan!.plannedFor > computeDateStr(0) && flags.at === undefined && flags.date === undefined) {
+            printError(`Planned for ${plan!.plannedFor}. To log it early, add --date today`);
+          }
+
+          // Logged on the planned day unless --at/--date (or a group) says otherwise
+          const group = findMealGroup(flags.group);
+          const slotFlags: Record<string, string> = { ...flags, type: flags.type || plan!.mealType };
+          if (!group && flags.at === undefined && flags.date === undefined) slotFlags.date = plan!.plannedFor;
+          const { mealType, loggedAt } = resolveMealSlot(slotFlags, group);
+          let logged: ReturnType<typeof logPlannedMeal>;
+          try {
+            logged = logPlannedMeal(plan!.id, { loggedAt, mealType, groupId: group?.id }, flags["no-pantry"] !== "true");
+          } catch (e) {
+            printError(e instanceof Error ? e.message : "Failed to log planned meal");
+          }
+          const { mealId, pantryUses } = logged!;
+
+          printResult(
+            parseOutput(PlanLogPayloadSchema, {
+              success: true,
+              planId: plan!.id,
+              mealId,
+              foodName: plan!.foodName,
+              loggedAt,
+              pantry: pantryUses.length > 0 ? pantryUses : undefined,
+              hints: [{ action: "check-summary", command: "nomnom today", confidence: 0.92 }, ...pantryHints(pantryUses)],
+            }),
+            `Logged planned ${plan!.foodName} at ${loggedAt}` + formatPantryUses(pantryUses)
+          );
+          break;
+        }
+
+        printError(`Unknown plan subcommand "${subcommand}". Use: add, list, delete, log`);
+        break;
+      }
+
+      case "grocery": {
+        // The coming week by default
+        const range: Record<"from" | "to", string> = { from: computeDateStr(0), to: computeDateStr(6) };
+        for (const flag of ["from", "to"] as const) {
+          if (flags[flag] === undefined) continue;
+          const day = parseDay(flags[flag]);
+          if (!day) printError(`Invalid --${flag} "${flags[flag]}". Use YYYY-MM-DD, today, tomorrow or an offset like 2`);
+          range[flag] = formatLocalDate(day!);
+        }
+        if (flags.to === undefined && flags.from !== undefined) {
+          range.to = formatLocalDate(parseDay("6", parseLocalDateTime(range.from))!);
+        }
+        if (range.to < range.from) printError(`--to (${range.to}) is before --from (${range.from})`);
+
+        const plannedCount = listPlannedMeals(range).filter((p) => !p.mealId).length;
+        const items = buildGroceryList(getGroceryNeeds(range));
+        printResult(
+          parseOutput(GroceryPayloadSchema, { ...range, plannedCount, count: items.length, items }),
+          items.length === 0
+            ? `Nothing planned from ${range.from} to ${range.to}`
+            : `Groceries for ${range.from} to ${range.to} (${plannedCount} planned items)\n${items.map(formatGroceryLine).join("\n")}`
+        );
+        break;
+      }
+
+      case "pantry": {
+        const subcommand = positional[0];
+
+        if (!subcommand || subcommand === "list") {
+          const all = listPantryItems().map(formatPantryItem);
+          const items = flags.low === "true" ? all.filter((i) => i.low) : all;
+          const hints = pantryHints(items);
+          printResult(
+            parseOutput(PantryListPayloadSchema, {
+              count: items.length,
+              lowCount: all.filter((i) => i.low).length,
+              items,
+              hints: hints.length > 0 ? hints : undefined,
+            }),
+            items.length === 0
+              ? (flags.low === "true" ? "Nothing is running low" : "Pantry is empty")
+              : items.map(formatPantryLine).join("\n")
+          );
+          break;
+        }
+
+        if (subcommand === "add") {
+          const usage = "Usage: nomnom pantry add <food-id | fdcId> [--qty <n>] [--unit <u>] [--low <n>] (or --fdc/--food-id/--barcode)";
+          const ref = positional[1];
+          const foodRef: FoodRefInput = { fdc: flags.fdc, foodId: flags["food-id"], barcode: flags.barcode };
+          if (ref && !foodRef.fdc && !foodRef.foodId && !foodRef.barcode) {
+            if (getCustomFoodById(ref)) foodRef.foodId = ref;
+            else if (/^\d+$/.test(ref)) foodRef.fdc = ref;
+            else printError(`Food not found: ${ref}. Use a custom food id or an fdcId`);
+          }
+
+          const quantity = parseQuantity(flags.qty, 1);
+          const lowStock = flags.low === undefined ? undefined : parseOptionalFloat(flags.low);
+          if (flags.low !== undefined && (lowStock === undefined || lowStock < 0)) {
+            printError(`Invalid --low "${flags.low}". Must be 0 or more, in the pantry's unit.`);
+          }
+
+          // Restocking without --unit uses the unit already on hand
+          const knownRef = foodRef.foodId ?? foodRef.fdc;
+          const existing = knownRef ? findPantryItem(knownRef) : null;
+          const linked = await resolveLinkedFood(foodRef, quantity, flags.unit ?? existing?.unit);
+          if (!linked) printError(usage);
+
+          let item: PantryItem;
+          try {
+            item = addToPantry({
+              source: linked!.source as PantrySource,
+              refId: linked!.foodId,
+              name: linked!.name,
+              quantity,
+              unit: linked!.unit,
+              lowStock,
+            });
+          } catch (e) {
+            printError(e instanceof Error ? e.message : "Failed to add to pantry");
+          }
+
+          const output = formatPantryItem(item!);
+          printResult(
+            parseOutput(PantryAddPayloadSchema, { success: true, ...output, added: quantity, addedUnit: linked!.unit }),
+            `Added ${quantity} ${linked!.unit} of ${output.name}\n${formatPantryLine(output)}`
+          );
+          break;
+        }
+
+        if (subcommand === "use") {
+          const ref = positional[1];
+          if (!ref) printError("Usage: nomnom pantry use <food-id | fdcId> [--qty <n>] [--unit <u>]");
+          const item = findPantryItem(ref!);
+          if (!item) printError(`Not in the pantry: ${ref}`);
+
+          const quantity = parseQuantity(flags.qty, 1);
+          const unit = flags.unit ?? item!.unit;
+          const [use] = usePantry([{ source: item!.source, refId: item!.refId, quantity, unit }]);
+          if (use!.used === null) printError(`Cannot convert "${unit}" to ${item!.unit} for "${item!.name}"`);
+
+          const hints = pantryHints([use!]);
+          printResult(
+            parseOutput(PantryUsePayloadSchema, { success: true, ...use!, hints: hints.length > 0 ? hints : undefined }),
+            `Used ${use!.used} ${use!.unit} of ${use!.name}: ${use!.remaining} ${use!.unit} left${use!.low ? " ⚠ low" : ""}`
+          );
+          break;
+        }
+
+        if (subcommand === "remove") {
+          const ref = positional[1];
+          if (!ref) printError("Usage: nomnom pantry remove <food-id | fdcId>");
+          const item = findPantryItem(ref!);
+          if (!item) printError(`Not in the pantry: ${ref}`);
+          removePantryItem(item!.source, item!.refId);
+
+          printResult(
+            parseOutput(PantryRemovePayloadSchema, { success: true, refId: item!.refId, name: item!.name }),
+            `Removed ${item!.name} from the pantry`
+          );
+          break;
+        }
+
+        if (subcommand === "recipes") {
+          // What the pantry covers, and whether a serving fits what today's goals leave
+          // once the rest of today's plan is eaten
+          const date = computeDateStr(0);
+          const factors = resolveEnergyFactors(flags) ?? "4-4-9";
+          const splitKeys = new Set<string>(Object.values(SPLIT_GOAL_KEYS));
+          const limits = createGoalResolver().goalsOn(date).filter((g) => g.direction !== "over" && !splitKeys.has(g.key));
+          const projected = getProjectedTotals(date);
+          const remaining = limits.length > 0
+            ? Object.fromEntries(limits.map((g) => [g.key, Math.round((g.target - goalActual(projected, g.key, factors)) * 10) / 10]))
+            : null;
+
+          const recipes = getPantryRecipes()
+            .filter((r) => flags.all === "true" || r.servings >= 1)
+            .map(({ recipe, servings, missing, short }) => {
+              const serving = {
+                calories: recipe.calories ?? 0,
+                protein: recipe.protein ?? 0,
+                carbs: recipe.carbs ?? 0,
+                fat: recipe.fat ?? 0,
+                fiber: recipe.fiber ?? 0,
+                netCarbs: recipe.netCarbs ?? 0,
+                sugar: recipe.sugar ?? 0,
+                sodium: recipe.sodium ?? 0,
+                mealCount: 1,
+                nutrients: recipe.nutrients,
+              };
+              const exceeds = remaining
+                ? limits.filter((g) => goalActual(serving, g.key, factors) > remaining[g.key]!).map((g) => g.key)
+                : [];
+              return {
+                recipeId: recipe.id,
+                name: recipe.name,
+                servings,
+                missing,
+                short,
+                perServing: { calories: recipe.calories, protein: recipe.protein, carbs: recipe.carbs, fat: recipe.fat },
+                fits: remaining ? exceeds.length === 0 : null,
+                exceeds,
+              };
+            })
+            // Ones that fit come first; the sort by servings is kept within each
+            .sort((a, b) => Number(b.fits === true) - Number(a.fits === true));
+
+          printResult(
+            parseOutput(PantryRecipesPayloadSchema, { date, remaining, count: recipes.length, recipes }),
+            recipes.length === 0
+              ? "Nothing can be made from the pantry yet. Add stock with: nomnom pantry add <food-id> --qty <n>"
+              : (remaining ? `Remaining today (after planned meals): ${Object.entries(remaining).map(([k, v]) => `${k}: ${v}`).join(" | ")}\n` : "") +
+                recipes.map((r) =>
+                  `[${r.recipeId}] ${r.name}: ${r.servings} serving${r.servings === 1 ? "" : "s"} | ${r.perServing.calories ?? "?"} cal ${r.perServing.protein ?? "?"}p each` +
+                  (r.fits === true ? " ✓ fits" : r.fits === false ? ` (over on ${r.exceeds.join(", ")})` : "") +
+                  (r.missing.length > 0 ? `\n  missing: ${r.missing.join(", ")}` : "") +
+                  (r.short.length > 0 ? `\n  short: ${r.short.join(", ")}` : "")
+                ).join("\n")
+          );
+          break;
+        }
+
+        printError(`Unknown pantry subcommand "${subcommand}". Use: add, use, list, remove, recipes`);
         break;
       }
 
@@ -1450,6 +4172,15 @@ To change settings:
 
         const days = parsePositiveInt(flags.days, 7, 90);
         const data = getTrendData(days);
+        const dri = flags.dri === "true"
+          ? buildDriReport(driIntake(data.averages), getNutrientCoverage(data.period.from, data.period.to), resolveDriBasis(flags))
+          : undefined;
+        // Average split against the split goals in force today
+        const factorsFlag = resolveEnergyFactors(flags);
+        const todayGoals = getGoals();
+        const split = factorsFlag || goalSplit(todayGoals)
+          ? buildSplitReport(data.averages, todayGoals, factorsFlag ?? "4-4-9")
+          : undefined;
 
         const humanLines = [
           `Nutrition Trends (${data.period.from} to ${data.period.to})\n`,
@@ -1459,13 +4190,18 @@ To change settings:
           `  Carbs:    ${data.averages.carbs}g`,
           `  Net:      ${data.averages.netCarbs}g`,
           `  Fat:      ${data.averages.fat}g`,
+          ...(Object.keys(data.averages.nutrients).length > 0
+            ? [`  Other:    ${formatNutrients(data.averages.nutrients)}`]
+            : []),
+          ...(split ? [`  ${formatSplitReport(split)}`] : []),
           `\nDaily Breakdown:`,
           ...data.daily.map(
             d => `  ${d.date}: ${d.calories} cal | ${d.protein}p ${d.carbs}c (${d.netCarbs} net) ${d.fat}f (${d.mealCount} meals)`
           ),
+          ...(dri ? [`\nDaily average vs reference:`, formatDriReport(dri)] : []),
         ];
 
-        printResult(parseOutput(TrendsPayloadSchema, data), humanLines.join("\n"));
+        printResult(parseOutput(TrendsPayloadSchema, { ...data, split, dri }), humanLines.join("\n"));
         break;
       }
 
@@ -1499,7 +4235,7 @@ if (import.meta.main) {
       process.exit(1);
     }
   } else {
-    const result = await executeCommand(process.argv.slice(2));
+    const result = await executeCommand(process.argv.slice(2), { readStdin: () => Bun.stdin.text() });
     if (result.stderr) process.stderr.write(result.stderr);
     if (result.stdout) process.stdout.write(result.stdout);
     process.exit(result.exitCode);
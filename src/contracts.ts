@@ -1,9 +1,12 @@
 import { z } from "zod";
+import { GOAL_KEYS, NUTRIENTS } from "./nutrients";
 
 const finiteNumber = z.number().finite();
 const nullableFiniteNumber = finiteNumber.nullable();
 const nonNegativeInt = z.number().int().nonnegative();
 const stringValue = z.string();
+const nutrientKey = z.enum(NUTRIENTS.map((n) => n.key) as [string, ...string[]]);
+const nutrientMap = z.partialRecord(nutrientKey, finiteNumber);
 
 export const AgentHintSchema = z.object({
   action: stringValue,
@@ -11,13 +14,12 @@ export const AgentHintSchema = z.object({
   confidence: finiteNumber.optional(),
 }).strict();
 
-const macroTargetsShape = {
-  calories: finiteNumber.optional(),
-  protein: finiteNumber.optional(),
-  carbs: finiteNumber.optional(),
-  fat: finiteNumber.optional(),
-  netCarbs: finiteNumber.optional(),
-} as const;
+/** One optional field per goal key (core columns and registry nutrients) */
+function goalKeyShape<T extends z.ZodType>(schema: T): Record<string, z.ZodOptional<T>> {
+  return Object.fromEntries(GOAL_KEYS.map((key) => [key, schema.optional()]));
+}
+
+const goalTargetsShape = goalKeyShape(finiteNumber);
 
 const nutritionValueShape = {
   calories: nullableFiniteNumber,
@@ -32,6 +34,7 @@ const extendedNutritionValueShape = {
   fiber: nullableFiniteNumber,
   sugar: nullableFiniteNumber,
   sodium: nullableFiniteNumber,
+  nutrients: nutrientMap.optional(),
 } as const;
 
 export const NutritionValuesSchema = z.object(nutritionValueShape).strict();
@@ -67,42 +70,110 @@ export const CustomFoodListItemSchema = z.object({
   createdAt: stringValue,
 }).strict();
 
+export const RecipeIngredientOutputSchema = z.object({
+  id: stringValue,
+  source: z.enum(["usda", "custom", "recipe"]),
+  refId: stringValue,
+  name: stringValue,
+  quantity: finiteNumber,
+  unit: stringValue,
+  ...extendedNutritionValueShape,
+}).strict();
+
 export const RecipeOutputSchema = z.object({
   id: stringValue,
   name: stringValue,
   servingSize: stringValue.nullable(),
+  servings: finiteNumber,
   ...extendedNutritionValueShape,
+  ingredients: z.array(RecipeIngredientOutputSchema),
   createdAt: stringValue,
 }).strict();
 
+export const RecipeIngredientInputSchema = z.object({
+  fdc: z.union([z.number().int(), stringValue]).optional(),
+  foodId: stringValue.optional(),
+  barcode: stringValue.optional(),
+  recipe: stringValue.optional(),
+  name: stringValue.optional(),
+  qty: finiteNumber.positive().optional(),
+  unit: stringValue.optional(),
+}).strict();
+
+export const RecipeIngredientsInputSchema = z.array(RecipeIngredientInputSchema).min(1);
+
 export const MealOutputSchema = z.object({
   id: stringValue,
   foodName: stringValue,
+  foodId: stringValue.nullable(),
+  barcode: stringValue.nullable(),
   quantity: finiteNumber,
   unit: stringValue,
   mealType: stringValue,
   loggedAt: stringValue,
   notes: stringValue.nullable(),
+  groupId: stringValue.nullable(),
   ...nutritionValueShape,
   fiber: nullableFiniteNumber,
+  sugar: nullableFiniteNumber,
+  sodium: nullableFiniteNumber,
+  nutrients: nutrientMap.optional(),
 }).strict();
 
+const filterBasis = z.enum(["100g", "serving"]);
+
+const searchResultShape = {
+  score: finiteNumber.optional(),
+  /** Nutrition on the filter basis, when searching with nutrient filters or a sort */
+  per: ExtendedNutritionValuesSchema.extend({ basis: filterBasis }).strict().optional(),
+  sortValue: finiteNumber.optional(),
+} as const;
+
 export const SearchPayloadSchema = z.object({
   query: stringValue,
+  rank: z.enum(["personal", "fts"]),
+  matchType: z.enum(["exact", "prefix", "fuzzy", "browse", "none"]),
+  filters: z.object({
+    basis: filterBasis.optional(),
+    bounds: z.array(z.object({
+      key: stringValue,
+      min: nullableFiniteNumber,
+      max: nullableFiniteNumber,
+    }).strict()).optional(),
+    sort: z.object({
+      key: stringValue,
+      perCalorie: z.boolean(),
+      ascending: z.boolean(),
+    }).strict().optional(),
+    brand: stringValue.optional(),
+    branded: z.boolean().optional(),
+    hasBarcode: z.boolean().optional(),
+    source: z.enum(["custom", "usda"]).optional(),
+  }).strict().optional(),
   count: nonNegativeInt,
-  results: z.array(z.union([FoodOutputSchema, CustomFoodSearchOutputSchema])),
+  offset: nonNegativeInt,
+  results: z.array(z.union([
+    FoodOutputSchema.extend(searchResultShape).strict(),
+    CustomFoodSearchOutputSchema.extend(searchResultShape).strict(),
+  ])),
 }).strict();
 
+/** GTIN-14 of the barcode looked up; null when it isn't a valid UPC, EAN or GTIN */
+const canonicalBarcode = z.string().regex(/^\d{14}$/).nullable();
+
 export const LookupPayloadSchema = z.union([
   z.object({
     found: z.literal(false),
     barcode: stringValue,
+    canonical: canonicalBarcode,
   }).strict(),
   FoodOutputSchema.extend({
     found: z.literal(true),
+    canonical: canonicalBarcode,
   }).strict(),
   CustomFoodSearchOutputSchema.extend({
     found: z.literal(true),
+    canonical: canonicalBarcode,
   }).strict(),
 ]);
 
@@ -119,11 +190,28 @@ export const EditPayloadSchema = z.object({
   updated: z.array(stringValue),
 }).strict();
 
+export const PantryUseSchema = z.object({
+  source: z.enum(["usda", "custom"]),
+  refId: stringValue,
+  name: stringValue,
+  used: finiteNumber.nullable(),
+  unit: stringValue,
+  remaining: finiteNumber,
+  low: z.boolean(),
+}).strict();
+
 export const LogPayloadSchema = z.object({
   success: z.literal(true),
   id: stringValue,
   foodName: stringValue,
   quantity: finiteNumber,
+  unit: stringValue,
+  loggedAt: stringValue,
+  foodId: stringValue.optional(),
+  source: z.enum(["usda", "custom"]).optional(),
+  nutrition: ExtendedNutritionValuesSchema.optional(),
+  pantry: z.array(PantryUseSchema).optional(),
+  hints: z.array(AgentHintSchema).optional(),
 }).strict();
 
 export const TotalsSchema = z.object({
@@ -133,14 +221,145 @@ export const TotalsSchema = z.object({
   fat: finiteNumber,
   mealCount: nonNegativeInt,
   netCarbs: finiteNumber.optional(),
+  fiber: finiteNumber.optional(),
+  sugar: finiteNumber.optional(),
+  sodium: finiteNumber.optional(),
+  nutrients: nutrientMap.optional(),
+}).strict();
+
+export const MealGroupOutputSchema = z.object({
+  id: stringValue,
+  name: stringValue,
+  mealType: stringValue,
+  loggedAt: stringValue,
+  notes: stringValue.nullable(),
+  createdAt: stringValue,
+  mealCount: nonNegativeInt,
+}).strict();
+
+export const MealGroupDetailSchema = MealGroupOutputSchema.extend({
+  totals: TotalsSchema,
+  meals: z.array(MealOutputSchema),
+}).strict();
+
+const macroSplit = z.object({
+  carbs: finiteNumber,
+  protein: finiteNumber,
+  fat: finiteNumber,
+}).strict();
+
+export const SplitReportSchema = z.object({
+  factors: z.enum(["4-4-9", "atwater"]),
+  actual: macroSplit,
+  target: macroSplit.optional(),
+  grams: macroSplit.optional(),
+}).strict();
+
+export const DriRowSchema = z.object({
+  key: stringValue,
+  name: stringValue,
+  unit: stringValue,
+  amount: finiteNumber,
+  kind: z.enum(["rda", "ai", "limit", "dv"]),
+  intake: nullableFiniteNumber,
+  percent: nullableFiniteNumber,
+  status: z.enum(["below", "met", "within", "over", "unknown"]),
+  mealsWithData: nonNegativeInt,
+}).strict();
+
+export const DriReportSchema = z.object({
+  basis: z.enum(["dri", "dv"]),
+  group: stringValue,
+  mealCount: nonNegativeInt,
+  nutrients: z.array(DriRowSchema),
+}).strict();
+
+export const PlannedMealOutputSchema = z.object({
+  id: stringValue,
+  plannedFor: stringValue,
+  mealType: stringValue,
+  source: z.enum(["recipe", "usda", "custom", "manual"]),
+  refId: stringValue.nullable(),
+  foodName: stringValue,
+  quantity: finiteNumber,
+  unit: stringValue,
+  notes: stringValue.nullable(),
+  ...extendedNutritionValueShape,
+  status: z.enum(["planned", "logged"]),
+  mealId: stringValue.nullable(),
+}).strict();
+
+export const PlanDaySchema = z.object({
+  items: z.array(PlannedMealOutputSchema),
+  planned: TotalsSchema,
+  pending: TotalsSchema,
+  projected: TotalsSchema,
+  projectedRemaining: z.object(goalTargetsShape).strict().optional(),
 }).strict();
 
 export const TodayPayloadSchema = z.object({
   date: stringValue,
   totals: TotalsSchema,
   meals: z.array(MealOutputSchema),
-  goals: z.object(macroTargetsShape).strict().nullable().optional(),
-  remaining: z.object(macroTargetsShape).strict().nullable().optional(),
+  groups: z.array(MealGroupDetailSchema).optional(),
+  goals: z.object(goalTargetsShape).strict().nullable().optional(),
+  remaining: z.object(goalTargetsShape).strict().nullable().optional(),
+  goalProfile: stringValue.optional(),
+  split: SplitReportSchema.optional(),
+  dri: DriReportSchema.optional(),
+  plan: PlanDaySchema.optional(),
+  hints: z.array(AgentHintSchema).optional(),
+}).strict();
+
+const mealTypeValue = z.enum(["breakfast", "lunch", "dinner", "snack"]);
+
+export const LogBatchItemSchema = z.object({
+  food: stringValue.optional(),
+  fdc: z.union([z.number().int(), stringValue]).optional(),
+  foodId: stringValue.optional(),
+  barcode: stringValue.optional(),
+  recipe: stringValue.optional(),
+  qty: finiteNumber.positive().optional(),
+  unit: stringValue.optional(),
+  multiplier: finiteNumber.positive().optional(),
+  type: mealTypeValue.optional(),
+  at: stringValue.optional(),
+  date: z.union([z.number().int(), stringValue]).optional(),
+  notes: stringValue.optional(),
+  calories: finiteNumber.optional(),
+  protein: finiteNumber.optional(),
+  carbs: finiteNumber.optional(),
+  fat: finiteNumber.optional(),
+  fiber: finiteNumber.optional(),
+  sugar: finiteNumber.optional(),
+  sodium: finiteNumber.optional(),
+  nutrients: nutrientMap.optional(),
+}).strict();
+
+export const LogBatchInputSchema = z.array(LogBatchItemSchema).min(1);
+
+export const LogBatchMealSchema = z.object({
+  id: stringValue,
+  foodName: stringValue,
+  quantity: finiteNumber,
+  unit: stringValue,
+  mealType: stringValue,
+  loggedAt: stringValue,
+  source: z.enum(["manual", "usda", "custom", "recipe"]),
+  foodId: stringValue.nullable(),
+  nutrition: ExtendedNutritionValuesSchema,
+}).strict();
+
+export const LogBatchPayloadSchema = z.object({
+  success: z.literal(true),
+  count: nonNegativeInt,
+  ids: z.array(stringValue),
+  meals: z.array(LogBatchMealSchema),
+  days: z.array(z.object({
+    date: stringValue,
+    totals: TotalsSchema,
+  }).strict()),
+  pantry: z.array(PantryUseSchema).optional(),
   hints: z.array(AgentHintSchema).optional(),
 }).strict();
 
@@ -148,37 +367,338 @@ export const HistoryPayloadSchema = z.object({
   count: nonNegativeInt,
   offset: nonNegativeInt,
   meals: z.array(MealOutputSchema),
+  groups: z.array(MealGroupDetailSchema).optional(),
+}).strict();
+
+export const GroupCreatePayloadSchema = MealGroupDetailSchema.extend({
+  success: z.literal(true),
+}).strict();
+
+export const GroupListPayloadSchema = z.object({
+  count: nonNegativeInt,
+  groups: z.array(MealGroupOutputSchema),
+}).strict();
+
+export const GroupEditPayloadSchema = z.object({
+  success: z.literal(true),
+  id: stringValue,
+  name: stringValue,
+  updated: z.array(stringValue),
+}).strict();
+
+export const GroupDeletePayloadSchema = z.object({
+  success: z.literal(true),
+  id: stringValue,
+  name: stringValue,
+  mealCount: nonNegativeInt,
+  mealsDeleted: z.boolean(),
 }).strict();
 
+export const GroupMembershipPayloadSchema = z.object({
+  success: z.literal(true),
+  groupId: stringValue.nullable(),
+  mealIds: z.array(stringValue),
+  notFound: z.array(stringValue),
+}).strict();
+
+const goalDirection = z.enum(["under", "over", "range"]);
+
 export const GoalSettingSchema = z.object({
   target: finiteNumber,
-  direction: z.enum(["under", "over"]),
+  direction: goalDirection,
   tolerance: finiteNumber,
+  effectiveFrom: stringValue.optional(),
+  min: finiteNumber.optional(),
+  max: finiteNumber.optional(),
 }).strict();
 
 export const GoalsViewPayloadSchema = z.object({
   goals: z.union([
     z.null(),
     z.object({
-      calories: GoalSettingSchema.optional(),
-      protein: GoalSettingSchema.optional(),
-      carbs: GoalSettingSchema.optional(),
-      fat: GoalSettingSchema.optional(),
-      netCarbs: GoalSettingSchema.optional(),
+      ...goalKeyShape(GoalSettingSchema),
       updatedAt: stringValue,
     }).strict(),
   ]),
+  goalProfile: stringValue.optional(),
 }).strict();
 
 export const GoalsSetPayloadSchema = z.object({
   success: z.literal(true),
   goalsSet: z.array(stringValue),
+  effectiveFrom: stringValue.optional(),
+  goalProfile: stringValue.optional(),
+}).strict();
+
+export const GoalVersionSchema = z.object({
+  id: nonNegativeInt,
+  profile: stringValue,
+  key: stringValue,
+  target: nullableFiniteNumber,
+  direction: goalDirection,
+  tolerance: finiteNumber,
+  min: nullableFiniteNumber,
+  effectiveFrom: stringValue,
+  recordedAt: stringValue,
+}).strict();
+
+export const GoalsHistoryPayloadSchema = z.object({
+  count: nonNegativeInt,
+  history: z.array(GoalVersionSchema),
+}).strict();
+
+const weekday = z.enum(["sun", "mon", "tue", "wed", "thu", "fri", "sat"]);
+
+export const GoalProfilesPayloadSchema = z.object({
+  count: nonNegativeInt,
+  profiles: z.array(z.object({
+    name: stringValue,
+    goals: z.array(stringValue),
+    weekdays: z.array(weekday),
+  }).strict()),
+}).strict();
+
+export const GoalOverrideSchema = z.object({
+  date: stringValue,
+  profile: stringValue,
+}).strict();
+
+export const GoalSchedulePayloadSchema = z.object({
+  date: stringValue,
+  schedule: z.record(weekday, stringValue),
+  overrides: z.array(GoalOverrideSchema),
+  updated: z.array(weekday).optional(),
+}).strict();
+
+export const GoalOverridePayloadSchema = z.object({
+  success: z.literal(true),
+  date: stringValue,
+  goalProfile: stringValue.nullable(),
+}).strict();
+
+export const GoalsSuggestPayloadSchema = z.object({
+  inputs: z.object({
+    sex: z.enum(["male", "female"]),
+    age: finiteNumber,
+    heightCm: finiteNumber,
+    weightKg: finiteNumber,
+    bodyFatPct: finiteNumber.nullable(),
+    activity: z.enum(["sedentary", "light", "moderate", "active", "very-active"]),
+    objective: z.enum(["cut", "maintain", "bulk"]),
+  }).strict(),
+  formula: z.enum(["mifflin-st-jeor", "katch-mcardle"]),
+  bmr: finiteNumber,
+  tdee: finiteNumber,
+  proteinPerKg: finiteNumber,
+  goals: z.object({
+    calories: finiteNumber,
+    protein: finiteNumber,
+    carbs: finiteNumber,
+    fat: finiteNumber,
+    fiber: finiteNumber,
+  }).strict(),
+  hints: z.array(AgentHintSchema),
 }).strict();
 
 export const GoalsResetPayloadSchema = z.object({
   success: z.literal(true),
 }).strict();
 
+export const ProfileSchema = z.object({
+  age: finiteNumber.nullable(),
+  sex: z.enum(["male", "female"]).nullable(),
+  lifeStage: z.enum(["pregnant", "lactating"]).nullable(),
+  heightCm: finiteNumber.nullable(),
+}).strict();
+
+export const ProfilePayloadSchema = z.object({
+  profile: ProfileSchema,
+  updated: z.array(stringValue).optional(),
+  driGroup: stringValue.nullable(),
+}).strict();
+
+const weightUnit = z.enum(["kg", "lb"]);
+
+export const WeighInSchema = z.object({
+  id: stringValue,
+  weighedAt: stringValue,
+  weight: finiteNumber,
+  unit: weightUnit,
+  trend: finiteNumber,
+  bodyFatPct: finiteNumber.nullable(),
+  waist: finiteNumber.nullable(),
+  waistUnit: z.enum(["cm", "in"]),
+  notes: stringValue.nullable(),
+}).strict();
+
+export const WeightSummarySchema = z.object({
+  unit: weightUnit,
+  latest: finiteNumber.nullable(),
+  trend: finiteNumber.nullable(),
+  ratePerWeek: finiteNumber.nullable(),
+  rateWindowDays: nonNegativeInt.nullable(),
+}).strict();
+
+export const WeightLogPayloadSchema = WeighInSchema.extend({
+  success: z.literal(true),
+  ratePerWeek: finiteNumber.nullable(),
+}).strict();
+
+export const WeightListPayloadSchema = z.object({
+  count: nonNegativeInt,
+  weighIns: z.array(WeighInSchema),
+  summary: WeightSummarySchema,
+}).strict();
+
+export const WeightDeletePayloadSchema = z.object({
+  success: z.literal(true),
+  id: stringValue,
+  weighedAt: stringValue,
+}).strict();
+
+export const WeightEditPayloadSchema = z.object({
+  success: z.literal(true),
+  id: stringValue,
+  updated: z.array(stringValue),
+  weighIn: WeighInSchema,
+}).strict();
+
+export const PlanAddPayloadSchema = PlannedMealOutputSchema.extend({
+  success: z.literal(true),
+}).strict();
+
+export const PlanListPayloadSchema = z.object({
+  from: stringValue.nullable(),
+  to: stringValue.nullable(),
+  count: nonNegativeInt,
+  items: z.array(PlannedMealOutputSchema),
+}).strict();
+
+export const PlanDeletePayloadSchema = z.object({
+  success: z.literal(true),
+  id: stringValue,
+  foodName: stringValue,
+}).strict();
+
+export const PlanLogPayloadSchema = z.object({
+  success: z.literal(true),
+  planId: stringValue,
+  mealId: stringValue,
+  foodName: stringValue,
+  loggedAt: stringValue,
+  pantry: z.array(PantryUseSchema).optional(),
+  hints: z.array(AgentHintSchema).optional(),
+}).strict();
+
+export const GroceryItemSchema = z.object({
+  source: z.enum(["recipe", "usda", "custom", "manual"]),
+  refId: stringValue.nullable(),
+  name: stringValue,
+  quantities: z.array(z.object({ amount: finiteNumber, unit: stringValue }).strict()),
+  recipes: z.array(stringValue),
+  dates: z.array(stringValue),
+}).strict();
+
+export const GroceryPayloadSchema = z.object({
+  from: stringValue,
+  to: stringValue,
+  plannedCount: nonNegativeInt,
+  count: nonNegativeInt,
+  items: z.array(GroceryItemSchema),
+}).strict();
+
+export const PantryItemSchema = z.object({
+  source: z.enum(["usda", "custom"]),
+  refId: stringValue,
+  name: stringValue,
+  quantity: finiteNumber,
+  unit: stringValue,
+  lowStock: finiteNumber.nullable(),
+  low: z.boolean(),
+  updatedAt: stringValue,
+}).strict();
+
+export const PantryAddPayloadSchema = PantryItemSchema.extend({
+  success: z.literal(true),
+  added: finiteNumber,
+  addedUnit: stringValue,
+}).strict();
+
+export const PantryUsePayloadSchema = PantryUseSchema.extend({
+  success: z.literal(true),
+  hints: z.array(AgentHintSchema).optional(),
+}).strict();
+
+export const PantryListPayloadSchema = z.object({
+  count: nonNegativeInt,
+  lowCount: nonNegativeInt,
+  items: z.array(PantryItemSchema),
+  hints: z.array(AgentHintSchema).optional(),
+}).strict();
+
+export const PantryRemovePayloadSchema = z.object({
+  success: z.literal(true),
+  refId: stringValue,
+  name: stringValue,
+}).strict();
+
+export const PantryRecipeSchema = z.object({
+  recipeId: stringValue,
+  name: stringValue,
+  servings: finiteNumber,
+  missing: z.array(stringValue),
+  short: z.array(stringValue),
+  perServing: NutritionValuesSchema.pick({ calories: true, protein: true, carbs: true, fat: true }),
+  fits: z.boolean().nullable(),
+  exceeds: z.array(stringValue),
+}).strict();
+
+export const PantryRecipesPayloadSchema = z.object({
+  date: stringValue,
+  remaining: z.object(goalTargetsShape).strict().nullable(),
+  count: nonNegativeInt,
+  recipes: z.array(PantryRecipeSchema),
+}).strict();
+
+export const TdeeProposalSchema = z.object({
+  ratePerWeek: finiteNumber,
+  unit: weightUnit,
+  calories: finiteNumber,
+  currentGoal: finiteNumber.nullable(),
+}).strict();
+
+export const TdeePayloadSchema = z.object({
+  period: z.object({
+    from: stringValue,
+    to: stringValue,
+  }).strict(),
+  tdee: finiteNumber.nullable(),
+  confidence: finiteNumber,
+  confidenceLevel: z.enum(["low", "medium", "high"]),
+  daysUsed: z.object({
+    intake: nonNegativeInt,
+    weighIns: nonNegativeInt,
+    trendSpan: nonNegativeInt,
+  }).strict(),
+  averageIntake: finiteNumber.nullable(),
+  weightChange: finiteNumber.nullable(),
+  unit: weightUnit,
+  reason: stringValue.optional(),
+  proposal: TdeeProposalSchema.optional(),
+  hints: z.array(AgentHintSchema).optional(),
+}).strict();
+
+export const DriPayloadSchema = DriReportSchema.extend({
+  date: stringValue.optional(),
+  period: z.object({
+    from: stringValue,
+    to: stringValue,
+  }).strict().optional(),
+  daysWithData: nonNegativeInt.optional(),
+  profile: ProfileSchema,
+  hints: z.array(AgentHintSchema).optional(),
+}).strict();
+
 export const ProgressMetricSchema = z.object({
   actual: finiteNumber,
   goal: finiteNumber,
@@ -186,43 +706,41 @@ export const ProgressMetricSchema = z.object({
   percent: finiteNumber,
   tolerance: finiteNumber,
   band: finiteNumber,
-  zone: z.enum(["met", "near", "over", "under"]),
+  zone: z.enum(["met", "near", "over", "under", "below", "in-range", "above"]),
+  min: finiteNumber.optional(),
+  max: finiteNumber.optional(),
+  bandMin: finiteNumber.optional(),
 }).strict();
 
 export const ProgressTodaySchema = z.object({
-  calories: ProgressMetricSchema.optional(),
-  protein: ProgressMetricSchema.optional(),
-  carbs: ProgressMetricSchema.optional(),
-  fat: ProgressMetricSchema.optional(),
-  netCarbs: ProgressMetricSchema.optional(),
+  ...goalKeyShape(ProgressMetricSchema),
   mealCount: nonNegativeInt,
 }).strict();
 
+export const ProjectedMetricSchema = z.object({
+  projected: finiteNumber,
+  goal: finiteNumber,
+  remaining: finiteNumber,
+  zone: ProgressMetricSchema.shape.zone,
+}).strict();
+
 export const StreakSchema = z.object({
   current: nonNegativeInt,
   best: nonNegativeInt,
-  direction: z.enum(["under", "over"]).optional(),
+  direction: goalDirection.optional(),
 }).strict();
 
 export const ProgressPayloadSchema = z.object({
   date: stringValue,
-  goals: z.object({
-    calories: GoalSettingSchema.optional(),
-    protein: GoalSettingSchema.optional(),
-    carbs: GoalSettingSchema.optional(),
-    fat: GoalSettingSchema.optional(),
-    netCarbs: GoalSettingSchema.optional(),
-  }).strict(),
+  goalProfile: stringValue,
+  goals: z.object(goalKeyShape(GoalSettingSchema)).strict(),
   today: ProgressTodaySchema,
   streaks: z.object({
-    calories: StreakSchema.optional(),
-    protein: StreakSchema.optional(),
-    carbs: StreakSchema.optional(),
-    fat: StreakSchema.optional(),
-    netCarbs: StreakSchema.optional(),
+    ...goalKeyShape(StreakSchema),
     allGoals: z.object({
       current: nonNegativeInt,
       best: nonNegativeInt,
+      goalProfiles: z.array(stringValue).optional(),
     }).strict(),
   }).strict(),
   weeklyAvg: z.object({
@@ -231,8 +749,18 @@ export const ProgressPayloadSchema = z.object({
     carbs: finiteNumber,
     fat: finiteNumber,
     netCarbs: finiteNumber.optional(),
+    fiber: finiteNumber.optional(),
+    sugar: finiteNumber.optional(),
+    sodium: finiteNumber.optional(),
+    nutrients: nutrientMap.optional(),
     daysTracked: nonNegativeInt,
+    goalsMet: z.object(goalKeyShape(nonNegativeInt)).strict().optional(),
   }).strict(),
+  split: SplitReportSchema.optional(),
+  projected: z.object({
+    ...goalKeyShape(ProjectedMetricSchema),
+    pendingCount: nonNegativeInt,
+  }).strict().optional(),
   hints: z.array(AgentHintSchema).optional(),
 }).strict();
 
@@ -253,6 +781,36 @@ export const FoodsDeletePayloadSchema = z.object({
   name: stringValue.nullable(),
 }).strict();
 
+export const FoodsEditPayloadSchema = z.object({
+  success: z.literal(true),
+  id: stringValue,
+  name: stringValue,
+  updated: z.array(stringValue),
+  revision: nonNegativeInt.nullable(),
+}).strict();
+
+export const RevisionSchema = z.object({
+  revision: nonNegativeInt,
+  changed: z.array(stringValue),
+  data: z.record(stringValue, z.unknown()),
+  createdAt: stringValue,
+}).strict();
+
+export const RevisionHistoryPayloadSchema = z.object({
+  id: stringValue,
+  count: nonNegativeInt,
+  revisions: z.array(RevisionSchema),
+}).strict();
+
+export const RestorePayloadSchema = z.object({
+  success: z.literal(true),
+  id: stringValue,
+  name: stringValue,
+  restoredRevision: nonNegativeInt,
+  updated: z.array(stringValue),
+  revision: nonNegativeInt.nullable(),
+}).strict();
+
 export const RecipeCreatePayloadSchema = RecipeOutputSchema.extend({
   success: z.literal(true),
 }).strict();
@@ -274,6 +832,8 @@ export const RecipeLogPayloadSchema = z.object({
   mealId: stringValue,
   name: stringValue,
   multiplier: finiteNumber,
+  servings: finiteNumber,
+  loggedAt: stringValue,
   actualNutrition: ExtendedNutritionValuesSchema.pick({
     calories: true,
     protein: true,
@@ -283,10 +843,19 @@ export const RecipeLogPayloadSchema = z.object({
     sugar: true,
     sodium: true,
     netCarbs: true,
+    nutrients: true,
   }),
+  pantry: z.array(PantryUseSchema).optional(),
   hints: z.array(AgentHintSchema).optional(),
 }).strict();
 
+export const RecipeEditPayloadSchema = FoodsEditPayloadSchema;
+
+export const RecipeIngredientPayloadSchema = RecipeOutputSchema.extend({
+  success: z.literal(true),
+  ingredientId: stringValue,
+}).strict();
+
 export const RecipeApplySuggestionPayloadSchema = RecipeOutputSchema.extend({
   success: z.literal(true),
   suggestionId: stringValue,
@@ -300,7 +869,11 @@ export const TrendDaySchema = z.object({
   carbs: finiteNumber,
   fat: finiteNumber,
   netCarbs: finiteNumber.optional(),
+  fiber: finiteNumber.optional(),
+  sugar: finiteNumber.optional(),
+  sodium: finiteNumber.optional(),
   mealCount: nonNegativeInt,
+  nutrients: nutrientMap.optional(),
 }).strict();
 
 export const TrendsPayloadSchema = z.object({
@@ -315,9 +888,15 @@ export const TrendsPayloadSchema = z.object({
     carbs: finiteNumber,
     fat: finiteNumber,
     netCarbs: finiteNumber.optional(),
+    fiber: finiteNumber.optional(),
+    sugar: finiteNumber.optional(),
+    sodium: finiteNumber.optional(),
+    nutrients: nutrientMap.optional(),
     daysWithData: nonNegativeInt,
   }).strict(),
   daily: z.array(TrendDaySchema),
+  split: SplitReportSchema.optional(),
+  dri: DriReportSchema.optional(),
   hints: z.array(AgentHintSchema).optional(),
 }).strict();
 
@@ -382,9 +961,22 @@ export const ConfigViewPayloadSchema = z.object({
   }).strict(),
 }).strict();
 
+export type LogBatchItem = z.infer<typeof LogBatchItemSchema>;
+export type LogBatchMeal = z.infer<typeof LogBatchMealSchema>;
+export type MealGroupDetail = z.infer<typeof MealGroupDetailSchema>;
 export type FoodOutput = z.infer<typeof FoodOutputSchema>;
 export type CustomFoodSearchOutput = z.infer<typeof CustomFoodSearchOutputSchema>;
 export type CustomFoodListItem = z.infer<typeof CustomFoodListItemSchema>;
 export type MealOutput = z.infer<typeof MealOutputSchema>;
 export type RecipeOutput = z.infer<typeof RecipeOutputSchema>;
+export type RecipeIngredientInputItem = z.infer<typeof RecipeIngredientInputSchema>;
 export type RecipeSuggestionOutput = z.infer<typeof RecipeSuggestionSchema>;
+export type DriReport = z.infer<typeof DriReportSchema>;
+export type SplitReport = z.infer<typeof SplitReportSchema>;
+export type PlannedMealOutput = z.infer<typeof PlannedMealOutputSchema>;
+export type PlanDay = z.infer<typeof PlanDaySchema>;
+export type GroceryItemOutput = z.infer<typeof GroceryItemSchema>;
+export type PantryItemOutput = z.infer<typeof PantryItemSchema>;
+export type PantryUseOutput = z.infer<typeof PantryUseSchema>;
+export type WeighInOutput = z.infer<typeof WeighInSchema>;
+export type WeightSummary = z.infer<typeof WeightSummarySchema>;
@@ -0,0 +1,126 @@
+/**
+ * Local date/time helpers. Meals are stored with local wall-clock timestamps
+ * ("YYYY-MM-DD HH:MM:SS") so that date(logged_at) matches the user's "today".
+ */
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+export function formatLocalDate(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function formatLocalDateTime(d: Date): string {
+  return `${formatLocalDate(d)} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+/** Parse a stored "YYYY-MM-DD HH:MM:SS" (or bare date) timestamp as local time */
+export function parseLocalDateTime(value: string): Date {
+  const [datePart, timePart = "00:00:00"] = value.split(/[ T]/);
+  const [y, m, d] = datePart!.split("-").map((n) => parseInt(n, 10));
+  const [hh, mm, ss] = timePart.split(":").map((n) => parseInt(n, 10));
+  return new Date(y!, m! - 1, d!, hh ?? 0, mm ?? 0, ss ?? 0);
+}
+
+/** Whole days from one "YYYY-MM-DD" date to another (negative when `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map((n) => parseInt(n, 10));
+  const [ty, tm, td] = to.split("-").map((n) => parseInt(n, 10));
+  return Math.round((Date.UTC(ty!, tm! - 1, td!) - Date.UTC(fy!, fm! - 1, fd!)) / 86_400_000);
+}
+
+/** "2026-10-18", "today", "yesterday", "tomorrow" or a day offset like "-1" */
+export function parseDay(value: string, today: Date = new Date()): Date | null {
+  const v = value.trim().toLowerCase();
+  const d = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+  if (v === "today") return d;
+  if (v === "yesterday" || v === "tomorrow") {
+    d.setDate(d.getDate() + (v === "yesterday" ? -1 : 1));
+    return d;
+  }
+  if (/^[+-]?\d+$/.test(v)) {
+    d.setDate(d.getDate() + parseInt(v, 10));
+    return d;
+  }
+
+  const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!iso) return null;
+  const parsed = new Date(parseInt(iso[1]!, 10), parseInt(iso[2]!, 10) - 1, parseInt(iso[3]!, 10));
+  // Reject rollovers like 2026-02-31
+  return formatLocalDate(parsed) === v ? parsed : null;
+}
+
+/** "19:30", "7:30pm", "8am", "noon" -> [hours, minutes, seconds] */
+export function parseTimeOfDay(value: string): [number, number, number] | null {
+  const v = value.trim().toLowerCase().replace(/(\d)\s+(am|pm)$/, "$1$2");
+  if (v === "noon") return [12, 0, 0];
+  if (v === "midnight") return [0, 0, 0];
+
+  const match = v.match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?(am|pm)?$/);
+  if (!match) return null;
+  let hours = parseInt(match[1]!, 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const seconds = match[3] ? parseInt(match[3], 10) : 0;
+  const meridiem = match[4];
+
+  // A bare number like "8" is ambiguous with a day offset; require a colon or am/pm
+  if (!match[2] && !meridiem) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === "pm" && hours !== 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return [hours, minutes, seconds];
+}
+
+/**
+ * Resolve --at / --date into a timestamp. Missing parts come from `base`, so
+ * `--at 8am` keeps base's day and `--date -1` keeps base's time of day.
+ *
+ * --date accepts YYYY-MM-DD, today, yesterday or an offset (-1).
+ * --at accepts "2026-10-18 19:30", "19:30", "7:30pm", "yesterday 8am", "-1 noon".
+ */
+export function resolveTimestamp(
+  input: { at?: string; date?: string },
+  base: Date = new Date(),
+  today: Date = new Date()
+): Date {
+  const result = new Date(base.getTime());
+
+  const setDay = (day: Date) => result.setFullYear(day.getFullYear(), day.getMonth(), day.getDate());
+
+  if (input.date !== undefined) {
+    const day = parseDay(input.date, today);
+    if (!day) throw new Error(`Invalid --date "${input.date}". Use YYYY-MM-DD, today, yesterday or an offset like -1`);
+    setDay(day);
+  }
+
+  if (input.at !== undefined) {
+    const text = input.at.trim().toLowerCase().replace(/(\d)\s+(am|pm)\b/g, "$1$2");
+    const tokens = text.replace(/^(\d{4}-\d{2}-\d{2})t/, "$1 ").split(/\s+/).filter(Boolean);
+    let sawDay = false;
+    let sawTime = false;
+
+    for (const token of tokens) {
+      const time = parseTimeOfDay(token);
+      if (time && !sawTime) {
+        result.setHours(time[0], time[1], time[2], 0);
+        sawTime = true;
+        continue;
+      }
+      const day = parseDay(token, today);
+      if (day && !sawDay) {
+        if (input.date !== undefined) throw new Error("Use either --date or a day in --at, not both");
+        setDay(day);
+        sawDay = true;
+        continue;
+      }
+      throw new Error(`Invalid --at "${input.at}". Examples: "2026-10-18 19:30", "7:30pm", "yesterday 8am"`);
+    }
+  }
+
+  return result;
+}
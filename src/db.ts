@@ -3,6 +3,37 @@ import { homedir } from "node:os";
 import { mkdirSync, existsSync, readFileSync, writeFileSync, rmSync, createWriteStream, renameSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { gzipSync, gunzipSync } from "node:zlib";
+import { barcodeKey } from "./barcode";
+import { formatLocalDate, formatLocalDateTime } from "./dates";
+import {
+  customFoodMeasures,
+  getStandardUnit,
+  normalizeUnit,
+  nutritionMultiplier,
+  usdaFoodMeasures,
+  type FoodMeasures,
+} from "./units";
+import {
+  GOAL_KEYS,
+  SPLIT_GOAL_KEYS,
+  coreValue,
+  getNutrient,
+  isLimitNutrient,
+  nutrientsFromCompact,
+  parseNutrients,
+  readNutrientMap,
+  scaleNutrients,
+  serializeNutrients,
+  sumNutrients,
+  type NutrientMap,
+} from "./nutrients";
+import type { DriProfile, LifeStage, Sex } from "./dri";
+import { SPLIT_MACROS, macroShares, type EnergyFactors, type MacroSplit, type SplitMacro } from "./split";
+import { isWeightInRange, type WeightUnit } from "./weight";
+import type { GroceryNeed } from "./grocery";
+import { closestTerms, foldTerm, type VocabTerm } from "./fuzzy";
+import type { LoggedFood } from "./ranking";
+import type { FilterBasis, NutrientBound, NutrientSort } from "./filters";
 
 const CONFIG_DIR = process.env.NOMNOM_CONFIG_DIR || getDefaultConfigDir();
 const DATA_DIR = process.env.NOMNOM_DATA_DIR || getDefaultDataDir();
@@ -240,6 +271,7 @@ export function getUSDAConnection(): Database | null {
     if (!usdaDb && existsSync(cfg.usdaDbPath)) {
       usdaDb = new Database(cfg.usdaDbPath);
       ensureUSDAFTS(usdaDb);
+      ensureUSDABarcodeKeys(usdaDb);
     }
     return usdaDb;
   } catch {
@@ -288,6 +320,26 @@ function ensureUSDAFTS(db: Database): void {
   }
 }
 
+function ensureUSDABarcodeKeys(db: Database): void {
+  // USDA keeps GTINs at whatever length the brand sent; index them by barcodeKey once
+  const hasKeys = db.query(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='food_barcode'"
+  ).get();
+
+  if (!hasKeys) {
+    db.transaction(() => {
+      db.exec("CREATE TABLE food_barcode (barcode_key TEXT NOT NULL, fdc_id INTEGER NOT NULL)");
+      const insert = db.query("INSERT INTO food_barcode (barcode_key, fdc_id) VALUES (?, ?)");
+      const rows = db.query("SELECT fdc_id, barcode FROM food WHERE barcode IS NOT NULL").all() as Array<{ fdc_id: number; barcode: string }>;
+      for (const row of rows) {
+        const key = barcodeKey(row.barcode);
+        if (key) insert.run(key, row.fdc_id);
+      }
+      db.exec("CREATE INDEX idx_food_barcode_key ON food_barcode(barcode_key)");
+    })();
+  }
+}
+
 function initTables(db: Database) {
   db.exec(`
     CREATE TABLE IF NOT EXISTS meals (
@@ -312,6 +364,7 @@ function initTables(db: Database) {
     CREATE INDEX IF NOT EXISTS idx_meals_logged_at ON meals(logged_at);
     CREATE INDEX IF NOT EXISTS idx_meals_barcode ON meals(barcode);
 
+    -- Superseded by goal_history; only read by migration 5
     CREATE TABLE IF NOT EXISTS goals (
       key TEXT PRIMARY KEY,
       target REAL NOT NULL,
@@ -349,6 +402,129 @@ function initTables(db: Database) {
       sodium REAL,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
+
+    CREATE TABLE IF NOT EXISTS meal_groups (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      meal_type TEXT NOT NULL DEFAULT 'snack',
+      logged_at TEXT NOT NULL,
+      notes TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_meal_groups_logged_at ON meal_groups(logged_at);
+
+    CREATE TABLE IF NOT EXISTS recipe_ingredients (
+      id TEXT PRIMARY KEY,
+      recipe_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      source TEXT NOT NULL,
+      ref_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      unit TEXT NOT NULL,
+      calories REAL,
+      protein REAL,
+      carbs REAL,
+      fat REAL,
+      fiber REAL,
+      sugar REAL,
+      sodium REAL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe ON recipe_ingredients(recipe_id);
+    CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_ref ON recipe_ingredients(source, ref_id);
+
+    CREATE TABLE IF NOT EXISTS revisions (
+      id TEXT PRIMARY KEY,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      changed TEXT NOT NULL,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_revisions_entity ON revisions(entity_type, entity_id, revision);
+
+    CREATE TABLE IF NOT EXISTS goal_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      key TEXT NOT NULL,
+      target REAL,
+      direction TEXT NOT NULL DEFAULT 'under',
+      tolerance REAL NOT NULL DEFAULT 0,
+      effective_from TEXT NOT NULL,
+      recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS goal_schedule (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      weekday INTEGER NOT NULL,
+      profile TEXT NOT NULL,
+      effective_from TEXT NOT NULL,
+      recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(weekday, effective_from)
+    );
+
+    CREATE TABLE IF NOT EXISTS goal_overrides (
+      date TEXT PRIMARY KEY,
+      profile TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS profile (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS weigh_ins (
+      id TEXT PRIMARY KEY,
+      weighed_at TEXT NOT NULL,
+      weight_kg REAL NOT NULL,
+      unit TEXT NOT NULL DEFAULT 'kg',
+      body_fat_pct REAL,
+      waist_cm REAL,
+      notes TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_weigh_ins_weighed_at ON weigh_ins(weighed_at);
+
+    CREATE TABLE IF NOT EXISTS planned_meals (
+      id TEXT PRIMARY KEY,
+      planned_for TEXT NOT NULL,
+      meal_type TEXT NOT NULL DEFAULT 'snack',
+      source TEXT NOT NULL,
+      ref_id TEXT,
+      food_name TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      unit TEXT NOT NULL DEFAULT 'serving',
+      notes TEXT,
+      calories REAL,
+      protein REAL,
+      carbs REAL,
+      fat REAL,
+      fiber_g REAL,
+      sugar_g REAL,
+      sodium_mg REAL,
+      nutrients TEXT,
+      meal_id TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_planned_meals_planned_for ON planned_meals(planned_for);
+
+    CREATE TABLE IF NOT EXISTS pantry_items (
+      source TEXT NOT NULL,
+      ref_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      unit TEXT NOT NULL,
+      low_stock REAL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (source, ref_id)
+    );
   `);
 
   // Migration: add tolerance column if missing (existing databases)
@@ -369,6 +545,47 @@ const migrations: Array<(db: Database) => void> = [
   // We cannot safely distinguish those rows after the fact, so a blanket conversion
   // would risk corrupting already-local data. Preserve existing timestamps as-is.
   (_db) => {},
+  // Migration 2: meals can belong to a meal group
+  (db) => {
+    db.exec("ALTER TABLE meals ADD COLUMN group_id TEXT");
+    db.exec("CREATE INDEX IF NOT EXISTS idx_meals_group_id ON meals(group_id)");
+  },
+  // Migration 3: recipes have a yield; stored nutrition is per serving
+  (db) => {
+    db.exec("ALTER TABLE recipes ADD COLUMN servings REAL NOT NULL DEFAULT 1");
+  },
+  // Migration 4: micronutrients and fat breakdown as a JSON map (see src/nutrients.ts)
+  (db) => {
+    for (const table of ["custom_foods", "recipes", "recipe_ingredients", "meals"]) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN nutrients TEXT`);
+    }
+  },
+  // Migration 5: goals become versioned; existing goals take effect from when they were last set
+  // (goals.updated_at is UTC, effective dates are local)
+  (db) => {
+    db.exec(`
+      INSERT OR IGNORE INTO goal_history (key, target, direction, tolerance, effective_from, recorded_at)
+      SELECT key, target, direction, tolerance, date(updated_at, 'localtime'), updated_at FROM goals
+    `);
+  },
+  // Migration 6: goals belong to named profiles; existing goals are the default profile
+  (db) => {
+    db.exec("ALTER TABLE goal_history ADD COLUMN profile TEXT NOT NULL DEFAULT 'default'");
+    db.exec("DROP INDEX IF EXISTS idx_goal_history_key_date");
+    db.exec("CREATE UNIQUE INDEX idx_goal_history_profile_key_date ON goal_history(profile, key, effective_from)");
+  },
+  // Migration 7: range goals keep their floor in min (target is the ceiling)
+  (db) => {
+    db.exec("ALTER TABLE goal_history ADD COLUMN min REAL");
+  },
+  // Migration 8: custom food barcodes are looked up by their normalized key (see barcodeKey)
+  (db) => {
+    db.exec("ALTER TABLE custom_foods ADD COLUMN barcode_key TEXT");
+    const rows = db.query("SELECT id, barcode FROM custom_foods WHERE barcode IS NOT NULL").all() as Array<{ id: string; barcode: string }>;
+    const update = db.query("UPDATE custom_foods SET barcode_key = ? WHERE id = ?");
+    for (const row of rows) update.run(barcodeKey(row.barcode), row.id);
+    db.exec("CREATE INDEX idx_custom_foods_barcode_key ON custom_foods(barcode_key)");
+  },
 ];
 
 function runMigrations(db: Database): void {
@@ -393,6 +610,9 @@ export interface FoodResult {
   brand: string | null;
   barcode: string | null;
   servingSize: string | null;
+  servingAmount: number | null;
+  servingUnit: string | null;
+  householdServing: string | null;
   calories: number | null;
   protein: number | null;
   carbs: number | null;
@@ -401,22 +621,39 @@ export interface FoodResult {
   netCarbs: number | null;
   sugar: number | null;
   sodium: number | null;
+  nutrients: NutrientMap;
 }
 
 export interface MealResult {
   id: string;
   foodName: string;
+  foodId: string | null;
+  barcode: string | null;
   quantity: number;
   unit: string;
   mealType: string;
   loggedAt: string;
   notes: string | null;
+  groupId: string | null;
   calories: number | null;
   protein: number | null;
   carbs: number | null;
   fat: number | null;
   fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
   netCarbs: number | null;
+  nutrients: NutrientMap;
+}
+
+export interface MealGroup {
+  id: string;
+  name: string;
+  mealType: string;
+  loggedAt: string;
+  notes: string | null;
+  createdAt: string;
+  mealCount: number;
 }
 
 export interface CustomFood {
@@ -433,13 +670,36 @@ export interface CustomFood {
   netCarbs: number | null;
   sugar: number | null;
   sodium: number | null;
+  nutrients: NutrientMap;
   createdAt: string;
 }
 
+export type IngredientSource = "usda" | "custom" | "recipe";
+
+export interface RecipeIngredient {
+  id: string;
+  source: IngredientSource;
+  refId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  netCarbs: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  nutrients: NutrientMap;
+}
+
+/** Nutrition is per serving; composite recipes compute it from their ingredients and yield */
 export interface Recipe {
   id: string;
   name: string;
   servingSize: string | null;
+  servings: number;
   calories: number | null;
   protein: number | null;
   carbs: number | null;
@@ -448,6 +708,8 @@ export interface Recipe {
   netCarbs: number | null;
   sugar: number | null;
   sodium: number | null;
+  nutrients: NutrientMap;
+  ingredients: RecipeIngredient[];
   createdAt: string;
 }
 
@@ -460,37 +722,145 @@ export function calculateNetCarbs(carbs: number | null | undefined, fiber: numbe
   return roundNutrition(carbs - (fiber ?? 0));
 }
 
-export function searchFoods(query: string, limit: number = 10): FoodResult[] {
-  const usda = getUSDAConnection();
-  if (!usda) return [];
+/** "browse" when no query was given and results were picked by nutrient filters alone */
+export type MatchType = "exact" | "prefix" | "fuzzy" | "browse" | "none";
+
+export interface SearchMatches<T> {
+  results: T[];
+  /** How each result matched, in the same order */
+  matchTypes: MatchType[];
+  /** The loosest stage that contributed results */
+  matchType: MatchType;
+}
+
+// Fall back to looser stages while the stricter ones find fewer than this many rows
+const MIN_SEARCH_RESULTS = 3;
+
+function quoteTerm(word: string): string {
+  return `"${word.replace(/"/g, "")}"`;
+}
+
+/** Food attributes search can narrow by, applied in SQL so they don't eat into the limit */
+export interface FoodAttributeFilter {
+  /** Case-insensitive part of the brand name */
+  brand?: string;
+  /** true: branded foods only; false: generic (unbranded) foods only */
+  branded?: boolean;
+  hasBarcode?: boolean;
+}
+
+/** WHERE conditions (each starting with AND) for a food table aliased as `alias` */
+function attributeConditions(filter: FoodAttributeFilter, alias: string): { sql: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.brand !== undefined) {
+    conditions.push(`${alias}.brand LIKE ? ESCAPE '\\'`);
+    params.push(`%${filter.brand.replace(/[\\%_]/g, "\\$&")}%`);
+  }
+  if (filter.branded !== undefined) {
+    conditions.push(`COALESCE(TRIM(${alias}.brand), '') ${filter.branded ? "<>" : "="} ''`);
+  }
+  if (filter.hasBarcode) conditions.push(`COALESCE(TRIM(${alias}.barcode), '') <> ''`);
+  return { sql: conditions.map((c) => ` AND ${c}`).join(""), params };
+}
 
-  // Sanitize for FTS5: strip special chars, quote each word as a literal term
+/**
+ * Search an FTS5 table in stages until enough rows turn up: every word as an exact
+ * term, then the last word as a prefix ("chick" finds chicken), then each word the
+ * index doesn't know swapped for its closest terms ("chiken brest"). Rows from a looser
+ * stage come after the stricter ones.
+ */
+function stagedSearch<T>(
+  db: Database,
+  ftsTable: string,
+  query: string,
+  limit: number,
+  run: (ftsQuery: string, limit: number) => T[],
+  key: (row: T) => string
+): SearchMatches<T> {
+  // Sanitize for FTS5: strip operator chars only (preserving Unicode letters), then quote each word
   const words = query.trim()
-    .replace(/["\*\+\^\(\)\{\}~|\\!:\-]/g, " ")  // Strip FTS5 operator chars only; preserve Unicode letters
+    .replace(/["\*\+\^\(\)\{\}~|\\!:\-]/g, " ")
     .split(/\s+/)
-    .filter(Boolean)
-    .map(w => `"${w}"`);       // Quote each word to prevent FTS5 operator injection
+    .filter(Boolean);
+  if (words.length === 0) return { results: [], matchTypes: [], matchType: "none" };
+
+  const results: T[] = [];
+  const matchTypes: MatchType[] = [];
+  const seen = new Set<string>();
+  let matchType: MatchType = "none";
+  const addStage = (stage: MatchType, ftsQuery: string) => {
+    for (const row of run(ftsQuery, limit)) {
+      if (results.length >= limit || seen.has(key(row))) continue;
+      seen.add(key(row));
+      results.push(row);
+      matchTypes.push(stage);
+      matchType = stage;
+    }
+  };
+  const enough = () => results.length >= Math.min(limit, MIN_SEARCH_RESULTS);
 
-  if (words.length === 0) return [];
+  const exact = words.map(quoteTerm);
+  addStage("exact", exact.join(" "));
 
-  const ftsQuery = words.join(" ");
+  const last = words[words.length - 1]!;
+  if (!enough() && last.length >= 2) {
+    addStage("prefix", [...exact.slice(0, -1), `${quoteTerm(last)}*`].join(" "));
+  }
 
-  const rows = usda.query(`
+  if (!enough()) {
+    const folded = words.map(foldTerm);
+    const lengths = folded.map((w) => w.length);
+    // The vocabulary view lives in temp, so the index's own database is never written
+    db.exec(`CREATE VIRTUAL TABLE IF NOT EXISTS temp.${ftsTable}_vocab USING fts5vocab(main, ${ftsTable}, row)`);
+    const vocab = db.query(`SELECT term, doc as docs FROM temp.${ftsTable}_vocab WHERE length(term) BETWEEN ? AND ?`)
+      .all(Math.min(...lengths) - 2, Math.max(...lengths) + 2) as VocabTerm[];
+    const known = new Set(vocab.map((v) => v.term));
+
+    const terms: string[] = [];
+    let changed = false;
+    folded.forEach((word, i) => {
+      const isLast = i === folded.length - 1;
+      if (known.has(word)) {
+        terms.push(quoteTerm(word));
+        return;
+      }
+      const options = closestTerms(word, vocab).map(quoteTerm);
+      const hasPrefix = isLast && word.length >= 2 &&
+        db.query(`SELECT 1 FROM temp.${ftsTable}_vocab WHERE term > ? AND term < ? LIMIT 1`).get(word, `${word}\uffff`) !== null;
+      if (hasPrefix) options.unshift(`${quoteTerm(word)}*`);
+      changed = true;
+      // A word with nothing close is dropped rather than sinking the whole query
+      if (options.length === 0) return;
+      terms.push(options.length === 1 ? options[0]! : `(${options.join(" OR ")})`);
+    });
+    if (changed && terms.length > 0) addStage("fuzzy", terms.join(" AND "));
+  }
+
+  return { results, matchTypes, matchType };
+}
+
+export function searchFoods(query: string, limit: number = 10, filter: FoodAttributeFilter = {}): SearchMatches<FoodResult> {
+  const usda = getUSDAConnection();
+  if (!usda) return { results: [], matchTypes: [], matchType: "none" };
+
+  const attributes = attributeConditions(filter, "f");
+  const { results, ...matches } = stagedSearch(usda, "food_fts", query, limit, (ftsQuery, n) => usda.query(`
     SELECT f.fdc_id, f.description, f.brand, f.barcode, f.data
     FROM food_fts
     JOIN food f ON food_fts.fdc_id = f.fdc_id
-    WHERE food_fts MATCH ?
+    WHERE food_fts MATCH ?${attributes.sql}
     ORDER BY rank
     LIMIT ?
-  `).all(ftsQuery, limit) as Array<{
+  `).all(ftsQuery, ...attributes.params, n) as Array<{
     fdc_id: number;
     description: string;
     brand: string | null;
     barcode: string | null;
     data: string;
-  }>;
+  }>, (row) => String(row.fdc_id));
 
-  return rows.map(rowToFoodResult);
+  return { results: results.map(rowToFoodResult), ...matches };
 }
 
 function rowToFoodResult(row: {
@@ -510,6 +880,9 @@ function rowToFoodResult(row: {
     brand: row.brand,
     barcode: row.barcode,
     servingSize,
+    servingAmount: typeof d.ss === "number" ? d.ss : null,
+    servingUnit: d.su ?? null,
+    householdServing: d.hs ?? null,
     calories: d.cal ?? null,
     protein: d.protein ?? null,
     carbs: d.carbs ?? null,
@@ -518,19 +891,113 @@ function rowToFoodResult(row: {
     netCarbs: calculateNetCarbs(d.carbs ?? null, d.fiber ?? null),
     sugar: d.sugar ?? null,
     sodium: d.sodium ?? null,
+    nutrients: nutrientsFromCompact(d),
   };
 }
 
+// Compact `data` keys for the core columns; registry nutrients carry their own
+const USDA_CORE_COMPACT: Record<string, string> = {
+  calories: "cal", protein: "protein", carbs: "carbs", fat: "fat", fiber: "fiber", sugar: "sugar", sodium: "sodium",
+};
+
+function usdaValueSql(key: string): string {
+  if (key === "netCarbs") return "(json_extract(data, '$.carbs') - COALESCE(json_extract(data, '$.fiber'), 0))";
+  const compact = USDA_CORE_COMPACT[key] ?? getNutrient(key)?.compact;
+  if (!compact) throw new Error(`Unknown nutrient: ${key}`);
+  return `json_extract(data, '$.${compact}')`;
+}
+
+/**
+ * USDA foods by nutrient bounds and sort alone, without a text query. This scans the
+ * whole table, so the work happens in SQL. Per serving it only sees servings given in
+ * g or ml; callers recheck each row through its full measures.
+ */
+export function browseFoods(
+  criteria: { bounds: NutrientBound[]; sort: NutrientSort | null; basis: FilterBasis },
+  limit: number,
+  filter: FoodAttributeFilter = {}
+): FoodResult[] {
+  const usda = getUSDAConnection();
+  if (!usda) return [];
+
+  const factor = criteria.basis === "100g"
+    ? "1"
+    : "(CASE WHEN lower(json_extract(data, '$.su')) IN ('g', 'grm', 'ml', 'mlt') THEN json_extract(data, '$.ss') / 100.0 END)";
+  const conditions = [`${factor} IS NOT NULL`];
+  const params: Array<number | string> = [];
+  for (const bound of criteria.bounds) {
+    const value = `${usdaValueSql(bound.key)} * ${factor}`;
+    if (bound.min !== null) {
+      conditions.push(`${value} >= ?`);
+      params.push(bound.min);
+    }
+    if (bound.max !== null) {
+      conditions.push(`${value} <= ?`);
+      params.push(bound.max);
+    }
+  }
+
+  let order = "fdc_id";
+  if (criteria.sort) {
+    const value = usdaValueSql(criteria.sort.key);
+    const ranked = criteria.sort.perCalorie
+      ? `(CASE WHEN json_extract(data, '$.cal') > 0 THEN ${value} / json_extract(data, '$.cal') END)`
+      : `${value} * ${factor}`;
+    conditions.push(`${ranked} IS NOT NULL`);
+    order = `${ranked} ${criteria.sort.ascending ? "ASC" : "DESC"}`;
+  }
+
+  const attributes = attributeConditions(filter, "food");
+  const rows = usda.query(`
+    SELECT fdc_id, description, brand, barcode, data
+    FROM food
+    WHERE ${conditions.join(" AND ")}${attributes.sql}
+    ORDER BY ${order}
+    LIMIT ?
+  `).all(...params, ...attributes.params, limit) as Array<{
+    fdc_id: number;
+    description: string;
+    brand: string | null;
+    barcode: string | null;
+    data: string;
+  }>;
+  return rows.map(rowToFoodResult);
+}
+
+/** Matches the barcode in any of the forms USDA stores GTINs in (see barcodeKey) */
 export function lookupBarcode(barcode: string): FoodResult | null {
+  const usda = getUSDAConnection();
+  const key = barcodeKey(barcode);
+  if (!usda || !key) return null;
+
+  const row = usda.query(`
+    SELECT f.fdc_id, f.description, f.brand, f.barcode, f.data
+    FROM food_barcode b
+    JOIN food f ON f.fdc_id = b.fdc_id
+    WHERE b.barcode_key = ?
+    ORDER BY f.barcode = ? DESC
+    LIMIT 1
+  `).get(key, barcode) as {
+    fdc_id: number;
+    description: string;
+    brand: string | null;
+    barcode: string | null;
+    data: string;
+  } | null;
+
+  if (!row) return null;
+  return rowToFoodResult(row);
+}
+
+export function getFoodById(fdcId: number): FoodResult | null {
   const usda = getUSDAConnection();
   if (!usda) return null;
 
   const row = usda.query(`
     SELECT fdc_id, description, brand, barcode, data
     FROM food
-    WHERE barcode = ?
-    LIMIT 1
-  `).get(barcode) as {
+    WHERE fdc_id = ?
+  `).get(fdcId) as {
     fdc_id: number;
     description: string;
     brand: string | null;
@@ -542,6 +1009,32 @@ export function lookupBarcode(barcode: string): FoodResult | null {
   return rowToFoodResult(row);
 }
 
+interface CustomFoodRow {
+  id: string;
+  description: string;
+  brand: string | null;
+  barcode: string | null;
+  serving_size: string | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  nutrients: string | null;
+  created_at: string;
+}
+
+function rowToCustomFood(r: CustomFoodRow): CustomFood {
+  return {
+    id: r.id, description: r.description, brand: r.brand, barcode: r.barcode,
+    servingSize: r.serving_size, calories: r.calories, protein: r.protein,
+    carbs: r.carbs, fat: r.fat, fiber: r.fiber, netCarbs: calculateNetCarbs(r.carbs, r.fiber), sugar: r.sugar,
+    sodium: r.sodium, nutrients: parseNutrients(r.nutrients), createdAt: r.created_at,
+  };
+}
+
 export function addCustomFood(input: {
   description: string;
   brand?: string;
@@ -554,19 +1047,21 @@ export function addCustomFood(input: {
   fiber?: number;
   sugar?: number;
   sodium?: number;
+  nutrients?: NutrientMap;
 }): string {
   const db = getDb();
   const id = crypto.randomUUID();
 
   db.query(`
-    INSERT INTO custom_foods (id, description, brand, barcode, serving_size,
-                              calories, protein, carbs, fat, fiber, sugar, sodium)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO custom_foods (id, description, brand, barcode, barcode_key, serving_size,
+                              calories, protein, carbs, fat, fiber, sugar, sodium, nutrients)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     id,
     input.description,
     input.brand ?? null,
     input.barcode ?? null,
+    barcodeKey(input.barcode),
     input.servingSize ?? null,
     input.calories ?? null,
     input.protein ?? null,
@@ -574,7 +1069,8 @@ export function addCustomFood(input: {
     input.fat ?? null,
     input.fiber ?? null,
     input.sugar ?? null,
-    input.sodium ?? null
+    input.sodium ?? null,
+    serializeNutrients(input.nutrients)
   );
 
   // Keep FTS in sync
@@ -585,115 +1081,208 @@ export function addCustomFood(input: {
   return id;
 }
 
-export function listCustomFoods(): CustomFood[] {
+export function listCustomFoods(filter: FoodAttributeFilter = {}): CustomFood[] {
   const db = getDb();
+  const attributes = attributeConditions(filter, "cf");
   const rows = db.query(`
     SELECT id, description, brand, barcode, serving_size, calories, protein,
-           carbs, fat, fiber, sugar, sodium, created_at
-    FROM custom_foods ORDER BY created_at DESC
-  `).all() as Array<{
-    id: string; description: string; brand: string | null; barcode: string | null;
-    serving_size: string | null; calories: number | null; protein: number | null;
-    carbs: number | null; fat: number | null; fiber: number | null;
-    sugar: number | null; sodium: number | null; created_at: string;
-  }>;
+           carbs, fat, fiber, sugar, sodium, nutrients, created_at
+    FROM custom_foods cf WHERE 1 = 1${attributes.sql} ORDER BY created_at DESC
+  `).all(...attributes.params) as CustomFoodRow[];
 
-  return rows.map(r => ({
-    id: r.id, description: r.description, brand: r.brand, barcode: r.barcode,
-    servingSize: r.serving_size, calories: r.calories, protein: r.protein,
-    carbs: r.carbs, fat: r.fat, fiber: r.fiber, netCarbs: calculateNetCarbs(r.carbs, r.fiber), sugar: r.sugar,
-    sodium: r.sodium, createdAt: r.created_at,
-  }));
+  return rows.map(rowToCustomFood);
 }
 
-export function deleteCustomFood(id: string): { deleted: boolean; description: string | null } {
+export function getCustomFoodById(id: string): CustomFood | null {
   const db = getDb();
-  const row = db.query("SELECT description FROM custom_foods WHERE id = ?").get(id) as { description: string } | null;
-  if (!row) return { deleted: false, description: null };
-
-  db.query("DELETE FROM custom_foods WHERE id = ?").run(id);
-  db.query("DELETE FROM custom_foods_fts WHERE id = ?").run(id);
+  const row = db.query(`
+    SELECT id, description, brand, barcode, serving_size, calories, protein,
+           carbs, fat, fiber, sugar, sodium, nutrients, created_at
+    FROM custom_foods WHERE id = ?
+  `).get(id) as CustomFoodRow | null;
 
-  return { deleted: true, description: row.description };
+  if (!row) return null;
+  return rowToCustomFood(row);
 }
 
-export function searchCustomFoods(query: string, limit: number = 10): CustomFood[] {
+export function deleteCustomFood(id: string): { deleted: boolean; description: string | null } {
   const db = getDb();
+  const food = getCustomFoodById(id);
+  if (!food) return { deleted: false, description: null };
 
-  const words = query.trim()
-    .replace(/["\*\+\^\(\)\{\}~|\\!:\-]/g, " ")
-    .split(/\s+/)
-    .filter(Boolean)
-    .map(w => `"${w}"`);
+  db.transaction(() => {
+    saveRevision("custom_food", id, customFoodFields(food), ["deleted"]);
+    db.query("DELETE FROM custom_foods WHERE id = ?").run(id);
+    db.query("DELETE FROM custom_foods_fts WHERE id = ?").run(id);
+  })();
 
-  if (words.length === 0) return [];
+  return { deleted: true, description: food.description };
+}
 
-  const ftsQuery = words.join(" ");
+export function searchCustomFoods(query: string, limit: number = 10, filter: FoodAttributeFilter = {}): SearchMatches<CustomFood> {
+  const db = getDb();
 
-  const rows = db.query(`
+  const attributes = attributeConditions(filter, "cf");
+  const { results, ...matches } = stagedSearch(db, "custom_foods_fts", query, limit, (ftsQuery, n) => db.query(`
     SELECT cf.id, cf.description, cf.brand, cf.barcode, cf.serving_size,
            cf.calories, cf.protein, cf.carbs, cf.fat, cf.fiber, cf.sugar,
-           cf.sodium, cf.created_at
+           cf.sodium, cf.nutrients, cf.created_at
     FROM custom_foods_fts
     JOIN custom_foods cf ON custom_foods_fts.id = cf.id
-    WHERE custom_foods_fts MATCH ?
+    WHERE custom_foods_fts MATCH ?${attributes.sql}
     ORDER BY rank
     LIMIT ?
-  `).all(ftsQuery, limit) as Array<{
-    id: string; description: string; brand: string | null; barcode: string | null;
-    serving_size: string | null; calories: number | null; protein: number | null;
-    carbs: number | null; fat: number | null; fiber: number | null;
-    sugar: number | null; sodium: number | null; created_at: string;
-  }>;
+  `).all(ftsQuery, ...attributes.params, n) as CustomFoodRow[], (row) => row.id);
 
-  return rows.map(r => ({
-    id: r.id, description: r.description, brand: r.brand, barcode: r.barcode,
-    servingSize: r.serving_size, calories: r.calories, protein: r.protein,
-    carbs: r.carbs, fat: r.fat, fiber: r.fiber, netCarbs: calculateNetCarbs(r.carbs, r.fiber), sugar: r.sugar,
-    sodium: r.sodium, createdAt: r.created_at,
-  }));
+  return { results: results.map(rowToCustomFood), ...matches };
+}
+
+/** Meals logged against any of `foodIds`, or logged without a food id under any of `names` */
+export function getLoggedFoods(foodIds: string[], names: string[]): LoggedFood[] {
+  if (foodIds.length === 0 && names.length === 0) return [];
+  const db = getDb();
+  const rows = db.query(`
+    SELECT food_id, food_name, date(logged_at) as day
+    FROM meals
+    WHERE food_id IN (${foodIds.map(() => "?").join(", ") || "NULL"})
+       OR (food_id IS NULL AND lower(food_name) IN (${names.map(() => "?").join(", ") || "NULL"}))
+  `).all(...foodIds, ...names.map((n) => n.trim().toLowerCase())) as Array<{ food_id: string | null; food_name: string; day: string }>;
+  return rows.map((r) => ({ foodId: r.food_id, name: r.food_name, date: r.day }));
 }
 
 export function lookupCustomBarcode(barcode: string): CustomFood | null {
+  const key = barcodeKey(barcode);
+  if (!key) return null;
   const db = getDb();
   const row = db.query(`
     SELECT id, description, brand, barcode, serving_size, calories, protein,
-           carbs, fat, fiber, sugar, sodium, created_at
-    FROM custom_foods WHERE barcode = ? LIMIT 1
-  `).get(barcode) as {
-    id: string; description: string; brand: string | null; barcode: string | null;
-    serving_size: string | null; calories: number | null; protein: number | null;
-    carbs: number | null; fat: number | null; fiber: number | null;
-    sugar: number | null; sodium: number | null; created_at: string;
-  } | null;
+           carbs, fat, fiber, sugar, sodium, nutrients, created_at
+    FROM custom_foods WHERE barcode_key = ?
+    ORDER BY barcode = ? DESC
+    LIMIT 1
+  `).get(key, barcode) as CustomFoodRow | null;
 
   if (!row) return null;
+  return rowToCustomFood(row);
+}
+
+// ---- Food linking ----
+
+export interface NutritionValues {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  nutrients: NutrientMap;
+}
+
+export function scaleNutrition(value: number | null, multiplier: number): number | null {
+  if (value === null) return null;
+  return Math.round(value * multiplier * 10) / 10;
+}
+
+export interface LinkedFood {
+  source: IngredientSource;
+  foodId: string;
+  name: string;
+  barcode: string | null;
+  unit: string;
+  multiplier: number;
+  nutrition: NutritionValues;
+}
 
+export function linkUSDAFood(food: FoodResult, quantity: number, unit: string | undefined): LinkedFood {
+  const measures = usdaFoodMeasures(food);
+  const hasServing = measures.serving !== null || measures.household !== null;
+  const resolvedUnit = unit ?? (hasServing ? "serving" : "100g");
+  const multiplier = nutritionMultiplier(measures, quantity, resolvedUnit, `"${food.description}"`);
   return {
-    id: row.id, description: row.description, brand: row.brand, barcode: row.barcode,
-    servingSize: row.serving_size, calories: row.calories, protein: row.protein,
-    carbs: row.carbs, fat: row.fat, fiber: row.fiber, netCarbs: calculateNetCarbs(row.carbs, row.fiber), sugar: row.sugar,
-    sodium: row.sodium, createdAt: row.created_at,
+    source: "usda",
+    foodId: String(food.fdcId),
+    name: food.description,
+    barcode: food.barcode,
+    unit: resolvedUnit,
+    multiplier,
+    nutrition: scaleAll(food, multiplier),
   };
 }
 
-export function addRecipe(input: {
-  name: string;
-  servingSize?: string;
-  calories?: number;
-  protein?: number;
-  carbs?: number;
-  fat?: number;
-  fiber?: number;
-  sugar?: number;
-  sodium?: number;
-}): string {
-  const db = getDb();
-  const existing = db.query(`
-    SELECT id
+export function linkCustomFood(food: CustomFood, quantity: number, unit: string | undefined): LinkedFood {
+  const resolvedUnit = unit ?? "serving";
+  const multiplier = nutritionMultiplier(customFoodMeasures(food.servingSize), quantity, resolvedUnit, `"${food.description}"`);
+  return {
+    source: "custom",
+    foodId: food.id,
+    name: food.description,
+    barcode: food.barcode,
+    unit: resolvedUnit,
+    multiplier,
+    nutrition: scaleAll(food, multiplier),
+  };
+}
+
+export function scaleAll(values: NutritionValues, multiplier: number): NutritionValues {
+  return {
+    calories: scaleNutrition(values.calories, multiplier),
+    protein: scaleNutrition(values.protein, multiplier),
+    carbs: scaleNutrition(values.carbs, multiplier),
+    fat: scaleNutrition(values.fat, multiplier),
+    fiber: scaleNutrition(values.fiber, multiplier),
+    sugar: scaleNutrition(values.sugar, multiplier),
+    sodium: scaleNutrition(values.sodium, multiplier),
+    nutrients: scaleNutrients(values.nutrients, multiplier),
+  };
+}
+
+/** A recipe used as an ingredient: basis is one serving, bridged to weight by its serving size */
+export function linkRecipe(recipe: Recipe, quantity: number, unit: string | undefined): LinkedFood {
+  const resolvedUnit = unit ?? "serving";
+  const multiplier = nutritionMultiplier(customFoodMeasures(recipe.servingSize), quantity, resolvedUnit, `"${recipe.name}"`);
+  return {
+    source: "recipe",
+    foodId: recipe.id,
+    name: recipe.name,
+    barcode: null,
+    unit: resolvedUnit,
+    multiplier,
+    nutrition: scaleAll(recipe, multiplier),
+  };
+}
+
+// ---- Recipes ----
+
+export interface RecipeIngredientInput {
+  source: IngredientSource;
+  refId: string;
+  quantity: number;
+  unit?: string;
+  name?: string;
+}
+
+export function addRecipe(input: {
+  name: string;
+  servingSize?: string;
+  servings?: number;
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  nutrients?: NutrientMap;
+}): string {
+  const db = getDb();
+  const nutrients = serializeNutrients(input.nutrients);
+  const existing = db.query(`
+    SELECT id
     FROM recipes
     WHERE name = ?
       AND serving_size IS ?
+      AND servings = ?
       AND calories IS ?
       AND protein IS ?
       AND carbs IS ?
@@ -701,17 +1290,21 @@ export function addRecipe(input: {
       AND fiber IS ?
       AND sugar IS ?
       AND sodium IS ?
+      AND nutrients IS ?
+      AND NOT EXISTS (SELECT 1 FROM recipe_ingredients i WHERE i.recipe_id = recipes.id)
     LIMIT 1
   `).get(
     input.name,
     input.servingSize ?? null,
+    input.servings ?? 1,
     input.calories ?? null,
     input.protein ?? null,
     input.carbs ?? null,
     input.fat ?? null,
     input.fiber ?? null,
     input.sugar ?? null,
-    input.sodium ?? null
+    input.sodium ?? null,
+    nutrients
   ) as { id: string } | null;
 
   if (existing) return existing.id;
@@ -719,48 +1312,120 @@ export function addRecipe(input: {
   const id = crypto.randomUUID();
 
   db.query(`
-    INSERT INTO recipes (id, name, serving_size, calories, protein, carbs, fat, fiber, sugar, sodium)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO recipes (id, name, serving_size, servings, calories, protein, carbs, fat, fiber, sugar, sodium, nutrients)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     id,
     input.name,
     input.servingSize ?? null,
+    input.servings ?? 1,
     input.calories ?? null,
     input.protein ?? null,
     input.carbs ?? null,
     input.fat ?? null,
     input.fiber ?? null,
     input.sugar ?? null,
-    input.sodium ?? null
+    input.sodium ?? null,
+    nutrients
   );
 
   return id;
 }
 
-export function listRecipes(): Recipe[] {
+/** Create a recipe whose nutrition is computed from its ingredients, divided by `servings` */
+export function addCompositeRecipe(input: {
+  name: string;
+  servingSize?: string;
+  servings: number;
+  ingredients: RecipeIngredientInput[];
+}): string {
   const db = getDb();
-  const rows = db.query(`
-    SELECT id, name, serving_size, calories, protein, carbs, fat, fiber, sugar, sodium, created_at
-    FROM recipes
-    ORDER BY created_at DESC
-  `).all() as Array<{
-    id: string;
-    name: string;
-    serving_size: string | null;
-    calories: number | null;
-    protein: number | null;
-    carbs: number | null;
-    fat: number | null;
-    fiber: number | null;
-    sugar: number | null;
-    sodium: number | null;
-    created_at: string;
-  }>;
+  const id = crypto.randomUUID();
 
-  return rows.map((r) => ({
+  db.transaction(() => {
+    db.query(`
+      INSERT INTO recipes (id, name, serving_size, servings)
+      VALUES (?, ?, ?, ?)
+    `).run(id, input.name, input.servingSize ?? null, input.servings);
+    for (const ingredient of input.ingredients) insertIngredient(id, ingredient);
+    recomputeRecipe(id);
+  })();
+
+  return id;
+}
+
+const RECIPE_COLUMNS = "id, name, serving_size, servings, calories, protein, carbs, fat, fiber, sugar, sodium, nutrients, created_at";
+
+interface RecipeRow {
+  id: string;
+  name: string;
+  serving_size: string | null;
+  servings: number;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  nutrients: string | null;
+  created_at: string;
+}
+
+interface IngredientRow {
+  id: string;
+  recipe_id: string;
+  source: IngredientSource;
+  ref_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  nutrients: string | null;
+}
+
+function rowToIngredient(r: IngredientRow): RecipeIngredient {
+  return {
+    id: r.id,
+    source: r.source,
+    refId: r.ref_id,
+    name: r.name,
+    quantity: r.quantity,
+    unit: r.unit,
+    calories: r.calories,
+    protein: r.protein,
+    carbs: r.carbs,
+    fat: r.fat,
+    fiber: r.fiber,
+    netCarbs: calculateNetCarbs(r.carbs, r.fiber),
+    sugar: r.sugar,
+    sodium: r.sodium,
+    nutrients: parseNutrients(r.nutrients),
+  };
+}
+
+function getIngredientRows(recipeId: string): IngredientRow[] {
+  const db = getDb();
+  return db.query(`
+    SELECT id, recipe_id, source, ref_id, name, quantity, unit, calories, protein, carbs, fat, fiber, sugar, sodium, nutrients
+    FROM recipe_ingredients
+    WHERE recipe_id = ?
+    ORDER BY position ASC
+  `).all(recipeId) as IngredientRow[];
+}
+
+function rowToRecipe(r: RecipeRow): Recipe {
+  return {
     id: r.id,
     name: r.name,
     servingSize: r.serving_size,
+    servings: r.servings,
     calories: r.calories,
     protein: r.protein,
     carbs: r.carbs,
@@ -769,312 +1434,1586 @@ export function listRecipes(): Recipe[] {
     netCarbs: calculateNetCarbs(r.carbs, r.fiber),
     sugar: r.sugar,
     sodium: r.sodium,
+    nutrients: parseNutrients(r.nutrients),
+    ingredients: getIngredientRows(r.id).map(rowToIngredient),
     createdAt: r.created_at,
-  }));
+  };
+}
+
+export function listRecipes(): Recipe[] {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT ${RECIPE_COLUMNS}
+    FROM recipes
+    ORDER BY created_at DESC
+  `).all() as RecipeRow[];
+
+  return rows.map(rowToRecipe);
 }
 
 export function getRecipeById(id: string): Recipe | null {
   const db = getDb();
   const row = db.query(`
-    SELECT id, name, serving_size, calories, protein, carbs, fat, fiber, sugar, sodium, created_at
+    SELECT ${RECIPE_COLUMNS}
     FROM recipes
     WHERE id = ?
     LIMIT 1
-  `).get(id) as {
-    id: string;
-    name: string;
-    serving_size: string | null;
-    calories: number | null;
-    protein: number | null;
-    carbs: number | null;
-    fat: number | null;
-    fiber: number | null;
-    sugar: number | null;
-    sodium: number | null;
-    created_at: string;
-  } | null;
+  `).get(id) as RecipeRow | null;
 
   if (!row) return null;
-
-  return {
-    id: row.id,
-    name: row.name,
-    servingSize: row.serving_size,
-    calories: row.calories,
-    protein: row.protein,
-    carbs: row.carbs,
-    fat: row.fat,
-    fiber: row.fiber,
-    netCarbs: calculateNetCarbs(row.carbs, row.fiber),
-    sugar: row.sugar,
-    sodium: row.sodium,
-    createdAt: row.created_at,
-  };
+  return rowToRecipe(row);
 }
 
 export function deleteRecipe(id: string): { deleted: boolean; name: string | null } {
   const db = getDb();
-  const row = db.query("SELECT name FROM recipes WHERE id = ?").get(id) as { name: string } | null;
-  if (!row) return { deleted: false, name: null };
+  const recipe = getRecipeById(id);
+  if (!recipe) return { deleted: false, name: null };
+
+  // Recipes that used this one as an ingredient keep their last computed values for it
+  db.transaction(() => {
+    saveRevision("recipe", id, recipeSnapshot(recipe), ["deleted"]);
+    db.query("DELETE FROM recipe_ingredients WHERE recipe_id = ?").run(id);
+    db.query("DELETE FROM recipes WHERE id = ?").run(id);
+  })();
+  return { deleted: true, name: recipe.name };
+}
 
-  db.query("DELETE FROM recipes WHERE id = ?").run(id);
-  return { deleted: true, name: row.name };
+/**
+ * Resolve an ingredient against its current source. Returns null when the source is gone
+ * (deleted custom food or recipe) or the USDA database is unavailable.
+ */
+function linkIngredient(source: IngredientSource, refId: string, quantity: number, unit: string | undefined): LinkedFood | null {
+  if (source === "custom") {
+    const food = getCustomFoodById(refId);
+    return food ? linkCustomFood(food, quantity, unit) : null;
+  }
+  if (source === "recipe") {
+    const recipe = getRecipeById(refId);
+    return recipe ? linkRecipe(recipe, quantity, unit) : null;
+  }
+  if (!getUSDAConnection()) return null;
+  const food = getFoodById(parseInt(refId, 10));
+  return food ? linkUSDAFood(food, quantity, unit) : null;
 }
 
-export function logMeal(input: {
-  foodName: string;
-  foodId?: string;
-  barcode?: string;
-  quantity: number;
-  unit?: string;
-  mealType?: string;
-  notes?: string;
-  calories?: number;
-  protein?: number;
-  carbs?: number;
-  fat?: number;
-  fiber?: number;
-  sugar?: number;
-  sodium?: number;
-}): string {
+/** True when `recipeId` is `targetId` or includes it, directly or through nested recipes */
+function recipeIncludes(recipeId: string, targetId: string, seen: Set<string> = new Set()): boolean {
+  if (recipeId === targetId) return true;
+  if (seen.has(recipeId)) return false;
+  seen.add(recipeId);
   const db = getDb();
-  const id = crypto.randomUUID();
+  const children = db.query(
+    "SELECT ref_id FROM recipe_ingredients WHERE recipe_id = ? AND source = 'recipe'"
+  ).all(recipeId) as Array<{ ref_id: string }>;
+  return children.some((c) => recipeIncludes(c.ref_id, targetId, seen));
+}
 
-  // Use local datetime so date(logged_at) matches the user's local "today"
-  const now = new Date();
-  const localDatetime = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")} ${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}:${String(now.getSeconds()).padStart(2, "0")}`;
+function insertIngredient(recipeId: string, input: RecipeIngredientInput): string {
+  if (input.source === "recipe" && recipeIncludes(input.refId, recipeId)) {
+    throw new Error("A recipe cannot include itself, directly or through another recipe");
+  }
 
-  const stmt = db.query(`
-    INSERT INTO meals (id, food_name, food_id, barcode, quantity, unit, meal_type, notes,
-                       calories, protein, carbs, fat, fiber_g, sugar_g, sodium_mg, logged_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
+  const linked = linkIngredient(input.source, input.refId, input.quantity, input.unit);
+  if (!linked) throw new Error(`Ingredient not found: ${input.source} ${input.refId}`);
+
+  return insertIngredientRow(recipeId, {
+    source: input.source,
+    refId: input.refId,
+    name: input.name ?? linked.name,
+    quantity: input.quantity,
+    unit: linked.unit,
+    ...linked.nutrition,
+  });
+}
 
-  stmt.run(
+/** Store an ingredient as given, without resolving it against its source */
+function insertIngredientRow(recipeId: string, ingredient: IngredientSnapshot): string {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const { position } = db.query(
+    "SELECT COALESCE(MAX(position), 0) + 1 as position FROM recipe_ingredients WHERE recipe_id = ?"
+  ).get(recipeId) as { position: number };
+
+  db.query(`
+    INSERT INTO recipe_ingredients (id, recipe_id, position, source, ref_id, name, quantity, unit,
+                                    calories, protein, carbs, fat, fiber, sugar, sodium, nutrients)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
     id,
-    input.foodName,
-    input.foodId ?? null,
-    input.barcode ?? null,
-    input.quantity,
-    input.unit ?? "serving",
-    input.mealType ?? "snack",
-    input.notes ?? null,
-    input.calories ?? null,
-    input.protein ?? null,
-    input.carbs ?? null,
-    input.fat ?? null,
-    input.fiber ?? null,
-    input.sugar ?? null,
-    input.sodium ?? null,
-    localDatetime
+    recipeId,
+    position,
+    ingredient.source,
+    ingredient.refId,
+    ingredient.name,
+    ingredient.quantity,
+    ingredient.unit,
+    ingredient.calories,
+    ingredient.protein,
+    ingredient.carbs,
+    ingredient.fat,
+    ingredient.fiber,
+    ingredient.sugar,
+    ingredient.sodium,
+    serializeNutrients(ingredient.nutrients)
   );
 
   return id;
 }
 
-export function getMealById(id: string): MealResult | null {
+/**
+ * Re-resolve every ingredient against its source and store fresh per-serving totals,
+ * then do the same for recipes that use this one. Ingredients whose source is gone or
+ * unavailable keep their last computed values. Flat recipes (no ingredients) are untouched.
+ */
+export function recomputeRecipe(id: string, visited: Set<string> = new Set()): void {
+  if (visited.has(id)) return;
+  visited.add(id);
+
   const db = getDb();
-  const row = db.query(`
-    SELECT id, food_name, quantity, unit, meal_type, logged_at, notes,
-           calories, protein, carbs, fat, fiber_g
-    FROM meals WHERE id = ?
-  `).get(id) as {
-    id: string;
-    food_name: string;
-    quantity: number;
-    unit: string;
-    meal_type: string;
-    logged_at: string;
-    notes: string | null;
-    calories: number | null;
-    protein: number | null;
-    carbs: number | null;
-    fat: number | null;
-    fiber_g: number | null;
-  } | null;
+  const recipe = db.query("SELECT servings FROM recipes WHERE id = ?").get(id) as { servings: number } | null;
+  if (!recipe) return;
+
+  // Flat recipes have nothing to recompute, but recipes that use them still do
+  const rows = getIngredientRows(id);
+  if (rows.length === 0) {
+    recomputeRecipesUsing("recipe", id, visited);
+    return;
+  }
 
-  if (!row) return null;
+  const update = db.query(`
+    UPDATE recipe_ingredients
+    SET calories = ?, protein = ?, carbs = ?, fat = ?, fiber = ?, sugar = ?, sodium = ?, nutrients = ?
+    WHERE id = ?
+  `);
 
-  return {
-    id: row.id,
-    foodName: row.food_name,
-    quantity: row.quantity,
-    unit: row.unit,
-    mealType: row.meal_type,
-    loggedAt: row.logged_at,
-    notes: row.notes,
-    calories: row.calories,
-    protein: row.protein,
-    carbs: row.carbs,
-    fat: row.fat,
-    fiber: row.fiber_g,
-    netCarbs: calculateNetCarbs(row.carbs, row.fiber_g),
-  };
+  const totals: NutritionValues = { calories: null, protein: null, carbs: null, fat: null, fiber: null, sugar: null, sodium: null, nutrients: {} };
+  const keys = ["calories", "protein", "carbs", "fat", "fiber", "sugar", "sodium"] as const;
+  const nutrientMaps: NutrientMap[] = [];
+
+  for (const row of rows) {
+    const linked = linkIngredient(row.source, row.ref_id, row.quantity, row.unit);
+    const values: NutritionValues = linked?.nutrition ?? { ...row, nutrients: parseNutrients(row.nutrients) };
+    if (linked) {
+      update.run(
+        values.calories, values.protein, values.carbs, values.fat, values.fiber, values.sugar, values.sodium,
+        serializeNutrients(values.nutrients), row.id
+      );
+    }
+    for (const key of keys) {
+      const value = values[key];
+      if (value !== null) totals[key] = (totals[key] ?? 0) + value;
+    }
+    nutrientMaps.push(values.nutrients);
+  }
+  totals.nutrients = sumNutrients(nutrientMaps);
+
+  const perServing = scaleAll(totals, 1 / recipe.servings);
+  db.query(`
+    UPDATE recipes
+    SET calories = ?, protein = ?, carbs = ?, fat = ?, fiber = ?, sugar = ?, sodium = ?, nutrients = ?
+    WHERE id = ?
+  `).run(
+    perServing.calories, perServing.protein, perServing.carbs, perServing.fat, perServing.fiber, perServing.sugar, perServing.sodium,
+    serializeNutrients(perServing.nutrients), id
+  );
+
+  recomputeRecipesUsing("recipe", id, visited);
 }
 
-export function deleteMeal(id: string): boolean {
+/** Recompute every recipe that has `source`/`refId` as an ingredient */
+export function recomputeRecipesUsing(source: IngredientSource, refId: string, visited: Set<string> = new Set()): void {
   const db = getDb();
-  const result = db.query("DELETE FROM meals WHERE id = ?").run(id);
-  return result.changes > 0;
+  const parents = db.query(
+    "SELECT DISTINCT recipe_id FROM recipe_ingredients WHERE source = ? AND ref_id = ?"
+  ).all(source, refId) as Array<{ recipe_id: string }>;
+  for (const parent of parents) recomputeRecipe(parent.recipe_id, visited);
 }
 
-export function updateMeal(id: string, input: {
-  foodName: string;
-  quantity: number;
-  unit: string;
-  mealType: string;
-  notes: string | null;
-  calories: number | null;
-  protein: number | null;
-  carbs: number | null;
-  fat: number | null;
-  fiber: number | null;
-}): boolean {
+export function addRecipeIngredient(recipeId: string, input: RecipeIngredientInput): string {
   const db = getDb();
-  const result = db.query(`
-    UPDATE meals SET
-      food_name = ?, quantity = ?, unit = ?, meal_type = ?, notes = ?,
-      calories = ?, protein = ?, carbs = ?, fat = ?, fiber_g = ?
-    WHERE id = ?
-  `).run(
-    input.foodName,
-    input.quantity,
-    input.unit,
-    input.mealType,
-    input.notes,
-    input.calories,
-    input.protein,
-    input.carbs,
-    input.fat,
-    input.fiber,
-    id
-  );
-  return result.changes > 0;
+  return db.transaction(() => {
+    saveRecipeRevision(recipeId, ["ingredients"]);
+    const id = insertIngredient(recipeId, input);
+    recomputeRecipe(recipeId);
+    return id;
+  })();
 }
 
-export function getMealsByDate(date: string): MealResult[] {
+export function updateRecipeIngredient(recipeId: string, ingredientId: string, input: { quantity: number; unit: string }): boolean {
   const db = getDb();
-  const stmt = db.query(`
-    SELECT id, food_name, quantity, unit, meal_type, logged_at, notes,
-           calories, protein, carbs, fat, fiber_g
-    FROM meals
-    WHERE date(logged_at) = date(?)
-    ORDER BY logged_at DESC
-  `);
+  const row = db.query(
+    "SELECT source, ref_id FROM recipe_ingredients WHERE id = ? AND recipe_id = ?"
+  ).get(ingredientId, recipeId) as { source: IngredientSource; ref_id: string } | null;
+  if (!row) return false;
+
+  // Validate the new amount against the source before writing
+  const linked = linkIngredient(row.source, row.ref_id, input.quantity, input.unit);
+
+  db.transaction(() => {
+    saveRecipeRevision(recipeId, ["ingredients"]);
+    db.query("UPDATE recipe_ingredients SET quantity = ?, unit = ? WHERE id = ?")
+      .run(input.quantity, linked?.unit ?? input.unit, ingredientId);
+    recomputeRecipe(recipeId);
+  })();
+  return true;
+}
 
-  const rows = stmt.all(date) as Array<{
-    id: string;
-    food_name: string;
-    quantity: number;
-    unit: string;
-    meal_type: string;
-    logged_at: string;
-    notes: string | null;
-    calories: number | null;
-    protein: number | null;
-    carbs: number | null;
-    fat: number | null;
-    fiber_g: number | null;
-  }>;
+export function removeRecipeIngredient(recipeId: string, ingredientId: string): { removed: boolean; name: string | null } {
+  const db = getDb();
+  const row = db.query(
+    "SELECT name FROM recipe_ingredients WHERE id = ? AND recipe_id = ?"
+  ).get(ingredientId, recipeId) as { name: string } | null;
+  if (!row) return { removed: false, name: null };
+  if (getIngredientRows(recipeId).length === 1) {
+    throw new Error("Cannot remove the last ingredient of a recipe. Delete the recipe instead.");
+  }
 
-  return rows.map((row) => ({
+  db.transaction(() => {
+    saveRecipeRevision(recipeId, ["ingredients"]);
+    db.query("DELETE FROM recipe_ingredients WHERE id = ?").run(ingredientId);
+    recomputeRecipe(recipeId);
+  })();
+  return { removed: true, name: row.name };
+}
+
+// ---- Editing and revisions ----
+
+/** Editable custom food fields, keyed by their CLI flag names */
+export interface CustomFoodFields extends NutritionValues {
+  name: string;
+  brand: string | null;
+  barcode: string | null;
+  serving: string | null;
+}
+
+/** Editable recipe fields, keyed by their CLI flag names */
+export interface RecipeFields extends NutritionValues {
+  name: string;
+  serving: string | null;
+  servings: number;
+}
+
+interface IngredientSnapshot extends NutritionValues {
+  source: IngredientSource;
+  refId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+interface RecipeSnapshot extends RecipeFields {
+  ingredients: IngredientSnapshot[];
+}
+
+export type RevisionEntity = "custom_food" | "recipe";
+
+/** A saved copy of an entity's values from before a change */
+export interface Revision {
+  revision: number;
+  changed: string[];
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export function customFoodFields(food: CustomFood): CustomFoodFields {
+  return {
+    name: food.description,
+    brand: food.brand,
+    barcode: food.barcode,
+    serving: food.servingSize,
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fat: food.fat,
+    fiber: food.fiber,
+    sugar: food.sugar,
+    sodium: food.sodium,
+    nutrients: food.nutrients,
+  };
+}
+
+export function recipeFields(recipe: Recipe): RecipeFields {
+  return {
+    name: recipe.name,
+    serving: recipe.servingSize,
+    servings: recipe.servings,
+    calories: recipe.calories,
+    protein: recipe.protein,
+    carbs: recipe.carbs,
+    fat: recipe.fat,
+    fiber: recipe.fiber,
+    sugar: recipe.sugar,
+    sodium: recipe.sodium,
+    nutrients: recipe.nutrients,
+  };
+}
+
+function recipeSnapshot(recipe: Recipe): RecipeSnapshot {
+  return {
+    ...recipeFields(recipe),
+    ingredients: recipe.ingredients.map((i) => ({
+      source: i.source,
+      refId: i.refId,
+      name: i.name,
+      quantity: i.quantity,
+      unit: i.unit,
+      calories: i.calories,
+      protein: i.protein,
+      carbs: i.carbs,
+      fat: i.fat,
+      fiber: i.fiber,
+      sugar: i.sugar,
+      sodium: i.sodium,
+      nutrients: i.nutrients,
+    })),
+  };
+}
+
+// Revision data is JSON written by whichever build saved it, so each field is checked on the way back in
+function revisionString(data: Record<string, unknown>, key: string): string {
+  const value = data[key];
+  if (typeof value !== "string") throw new Error(`Revision has no valid "${key}"`);
+  return value;
+}
+
+function revisionNullableString(data: Record<string, unknown>, key: string): string | null {
+  const value = data[key] ?? null;
+  if (value !== null && typeof value !== "string") throw new Error(`Revision has no valid "${key}"`);
+  return value;
+}
+
+function revisionNumber(data: Record<string, unknown>, key: string): number {
+  const value = data[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`Revision has no valid "${key}"`);
+  return value;
+}
+
+// Revisions saved before nutrients were tracked have no map
+function revisionNutrition(data: Record<string, unknown>): NutritionValues {
+  const nullableNumber = (key: string) => (data[key] === null || data[key] === undefined ? null : revisionNumber(data, key));
+  return {
+    calories: nullableNumber("calories"),
+    protein: nullableNumber("protein"),
+    carbs: nullableNumber("carbs"),
+    fat: nullableNumber("fat"),
+    fiber: nullableNumber("fiber"),
+    sugar: nullableNumber("sugar"),
+    sodium: nullableNumber("sodium"),
+    nutrients: readNutrientMap(data.nutrients),
+  };
+}
+
+function readCustomFoodRevision(data: Record<string, unknown>): CustomFoodFields {
+  return {
+    name: revisionString(data, "name"),
+    brand: revisionNullableString(data, "brand"),
+    barcode: revisionNullableString(data, "barcode"),
+    serving: revisionNullableString(data, "serving"),
+    ...revisionNutrition(data),
+  };
+}
+
+function readRecipeRevision(data: Record<string, unknown>): RecipeSnapshot {
+  const ingredients = Array.isArray(data.ingredients) ? data.ingredients : [];
+  return {
+    name: revisionString(data, "name"),
+    serving: revisionNullableString(data, "serving"),
+    servings: revisionNumber(data, "servings"),
+    ...revisionNutrition(data),
+    ingredients: ingredients.map((raw: unknown) => {
+      if (typeof raw !== "object" || raw === null) throw new Error("Revision has an invalid ingredient");
+      const i = raw as Record<string, unknown>;
+      const source = revisionString(i, "source");
+      if (source !== "usda" && source !== "custom" && source !== "recipe") throw new Error(`Revision has an invalid ingredient source "${source}"`);
+      return {
+        source,
+        refId: revisionString(i, "refId"),
+        name: revisionString(i, "name"),
+        quantity: revisionNumber(i, "quantity"),
+        unit: revisionString(i, "unit"),
+        ...revisionNutrition(i),
+      };
+    }),
+  };
+}
+
+/** Keys of `after` whose values differ from `before` */
+function changedFields(before: object, after: object): string[] {
+  const a = before as Record<string, unknown>;
+  return Object.entries(after)
+    .filter(([key, value]) => JSON.stringify(a[key]) !== JSON.stringify(value))
+    .map(([key]) => key);
+}
+
+function saveRevision(entityType: RevisionEntity, entityId: string, data: object, changed: string[]): number {
+  const db = getDb();
+  const { next } = db.query(
+    "SELECT COALESCE(MAX(revision), 0) + 1 as next FROM revisions WHERE entity_type = ? AND entity_id = ?"
+  ).get(entityType, entityId) as { next: number };
+
+  db.query(`
+    INSERT INTO revisions (id, entity_type, entity_id, revision, changed, data)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(crypto.randomUUID(), entityType, entityId, next, JSON.stringify(changed), JSON.stringify(data));
+
+  return next;
+}
+
+function saveRecipeRevision(recipeId: string, changed: string[]): void {
+  const recipe = getRecipeById(recipeId);
+  if (recipe) saveRevision("recipe", recipeId, recipeSnapshot(recipe), changed);
+}
+
+/** Revisions for an entity, newest first. Works for deleted entities too. */
+export function listRevisions(entityType: RevisionEntity, entityId: string): Revision[] {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT revision, changed, data, created_at
+    FROM revisions
+    WHERE entity_type = ? AND entity_id = ?
+    ORDER BY revision DESC
+  `).all(entityType, entityId) as Array<{ revision: number; changed: string; data: string; created_at: string }>;
+
+  return rows.map((r) => ({
+    revision: r.revision,
+    changed: JSON.parse(r.changed) as string[],
+    data: JSON.parse(r.data) as Record<string, unknown>,
+    createdAt: r.created_at,
+  }));
+}
+
+function getRevision(entityType: RevisionEntity, entityId: string, revision?: number): Revision | null {
+  const revisions = listRevisions(entityType, entityId);
+  return (revision === undefined ? revisions[0] : revisions.find((r) => r.revision === revision)) ?? null;
+}
+
+function writeCustomFood(id: string, fields: CustomFoodFields, exists: boolean): void {
+  const db = getDb();
+  const values = [
+    fields.name, fields.brand, fields.barcode, barcodeKey(fields.barcode), fields.serving,
+    fields.calories, fields.protein, fields.carbs, fields.fat, fields.fiber, fields.sugar, fields.sodium,
+    serializeNutrients(fields.nutrients),
+  ];
+  if (exists) {
+    db.query(`
+      UPDATE custom_foods SET description = ?, brand = ?, barcode = ?, barcode_key = ?, serving_size = ?,
+        calories = ?, protein = ?, carbs = ?, fat = ?, fiber = ?, sugar = ?, sodium = ?, nutrients = ?
+      WHERE id = ?
+    `).run(...values, id);
+  } else {
+    db.query(`
+      INSERT INTO custom_foods (description, brand, barcode, barcode_key, serving_size,
+                                calories, protein, carbs, fat, fiber, sugar, sodium, nutrients, id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(...values, id);
+  }
+
+  // Keep FTS in sync
+  db.query("DELETE FROM custom_foods_fts WHERE id = ?").run(id);
+  db.query("INSERT INTO custom_foods_fts(id, description, brand) VALUES (?, ?, ?)").run(id, fields.name, fields.brand ?? "");
+}
+
+/**
+ * Apply edited fields to a custom food, saving its previous values as a revision first.
+ * Recipes that use the food are recomputed. Returns null when the food does not exist.
+ */
+export function updateCustomFood(id: string, fields: CustomFoodFields): { updated: string[]; revision: number | null } | null {
+  const food = getCustomFoodById(id);
+  if (!food) return null;
+
+  const before = customFoodFields(food);
+  const updated = changedFields(before, fields);
+  if (updated.length === 0) return { updated, revision: null };
+
+  const db = getDb();
+  const revision = db.transaction(() => {
+    const saved = saveRevision("custom_food", id, before, updated);
+    writeCustomFood(id, fields, true);
+    recomputeRecipesUsing("custom", id);
+    return saved;
+  })();
+
+  return { updated, revision };
+}
+
+/**
+ * Restore a custom food to a saved revision (the latest when omitted), re-creating it
+ * under the same id if it was deleted. The values being replaced are saved as a new revision.
+ */
+export function restoreCustomFood(id: string, revision?: number): { restored: number; updated: string[]; revision: number | null } | null {
+  const target = getRevision("custom_food", id, revision);
+  if (!target) return null;
+
+  const fields = readCustomFoodRevision(target.data);
+  const food = getCustomFoodById(id);
+  const before = food ? customFoodFields(food) : null;
+  const updated = before ? changedFields(before, fields) : ["restored"];
+
+  const db = getDb();
+  const saved = db.transaction(() => {
+    const newRevision = before && updated.length > 0 ? saveRevision("custom_food", id, before, updated) : null;
+    writeCustomFood(id, fields, before !== null);
+    recomputeRecipesUsing("custom", id);
+    return newRevision;
+  })();
+
+  return { restored: target.revision, updated, revision: saved };
+}
+
+/**
+ * Apply edited fields to a recipe, saving its previous values as a revision first.
+ * Composite recipes recompute their nutrition, so only name, serving and servings stick.
+ */
+export function updateRecipe(id: string, fields: RecipeFields): { updated: string[]; revision: number | null } | null {
+  const recipe = getRecipeById(id);
+  if (!recipe) return null;
+
+  const updated = changedFields(recipeFields(recipe), fields);
+  if (updated.length === 0) return { updated, revision: null };
+
+  const db = getDb();
+  const revision = db.transaction(() => {
+    const saved = saveRevision("recipe", id, recipeSnapshot(recipe), updated);
+    db.query(`
+      UPDATE recipes SET name = ?, serving_size = ?, servings = ?,
+        calories = ?, protein = ?, carbs = ?, fat = ?, fiber = ?, sugar = ?, sodium = ?, nutrients = ?
+      WHERE id = ?
+    `).run(
+      fields.name, fields.serving, fields.servings,
+      fields.calories, fields.protein, fields.carbs, fields.fat, fields.fiber, fields.sugar, fields.sodium,
+      serializeNutrients(fields.nutrients), id
+    );
+    recomputeRecipe(id);
+    return saved;
+  })();
+
+  return { updated, revision };
+}
+
+/**
+ * Restore a recipe (fields and ingredient list) to a saved revision, the latest when omitted.
+ * Deleted recipes come back under the same id. The values being replaced are saved as a new revision.
+ */
+export function restoreRecipe(id: string, revision?: number): { restored: number; updated: string[]; revision: number | null } | null {
+  const target = getRevision("recipe", id, revision);
+  if (!target) return null;
+
+  const snapshot = readRecipeRevision(target.data);
+  const recipe = getRecipeById(id);
+  const before = recipe ? recipeSnapshot(recipe) : null;
+  const updated = before ? changedFields(before, snapshot) : ["restored"];
+
+  const db = getDb();
+  const saved = db.transaction(() => {
+    const newRevision = before && updated.length > 0 ? saveRevision("recipe", id, before, updated) : null;
+    if (!before) {
+      db.query("INSERT INTO recipes (id, name, serving_size, servings) VALUES (?, ?, ?, ?)")
+        .run(id, snapshot.name, snapshot.serving, snapshot.servings);
+    }
+    db.query(`
+      UPDATE recipes SET name = ?, serving_size = ?, servings = ?,
+        calories = ?, protein = ?, carbs = ?, fat = ?, fiber = ?, sugar = ?, sodium = ?, nutrients = ?
+      WHERE id = ?
+    `).run(
+      snapshot.name, snapshot.serving, snapshot.servings,
+      snapshot.calories, snapshot.protein, snapshot.carbs, snapshot.fat, snapshot.fiber, snapshot.sugar, snapshot.sodium,
+      serializeNutrients(snapshot.nutrients), id
+    );
+    db.query("DELETE FROM recipe_ingredients WHERE recipe_id = ?").run(id);
+    for (const ingredient of snapshot.ingredients) insertIngredientRow(id, ingredient);
+    recomputeRecipe(id);
+    return newRevision;
+  })();
+
+  return { restored: target.revision, updated, revision: saved };
+}
+
+export interface LogMealInput {
+  foodName: string;
+  foodId?: string;
+  barcode?: string;
+  quantity: number;
+  unit?: string;
+  mealType?: string;
+  notes?: string;
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  nutrients?: NutrientMap;
+  loggedAt?: string;
+  groupId?: string;
+}
+
+export function logMeal(input: LogMealInput): string {
+  const db = getDb();
+  const id = crypto.randomUUID();
+
+  // Use local datetime so date(logged_at) matches the user's local "today"
+  const localDatetime = input.loggedAt ?? formatLocalDateTime(new Date());
+
+  const stmt = db.query(`
+    INSERT INTO meals (id, food_name, food_id, barcode, quantity, unit, meal_type, notes,
+                       calories, protein, carbs, fat, fiber_g, sugar_g, sodium_mg, nutrients, logged_at, group_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    id,
+    input.foodName,
+    input.foodId ?? null,
+    input.barcode ?? null,
+    input.quantity,
+    input.unit ?? "serving",
+    input.mealType ?? "snack",
+    input.notes ?? null,
+    input.calories ?? null,
+    input.protein ?? null,
+    input.carbs ?? null,
+    input.fat ?? null,
+    input.fiber ?? null,
+    input.sugar ?? null,
+    input.sodium ?? null,
+    serializeNutrients(input.nutrients),
+    localDatetime,
+    input.groupId ?? null
+  );
+
+  return id;
+}
+
+const MEAL_COLUMNS = `id, food_name, food_id, barcode, quantity, unit, meal_type, logged_at, notes, group_id,
+           calories, protein, carbs, fat, fiber_g, sugar_g, sodium_mg, nutrients`;
+
+interface MealRow {
+  id: string;
+  food_name: string;
+  food_id: string | null;
+  barcode: string | null;
+  quantity: number;
+  unit: string;
+  meal_type: string;
+  logged_at: string;
+  notes: string | null;
+  group_id: string | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+  nutrients: string | null;
+}
+
+function rowToMealResult(row: MealRow): MealResult {
+  return {
     id: row.id,
     foodName: row.food_name,
+    foodId: row.food_id,
+    barcode: row.barcode,
     quantity: row.quantity,
     unit: row.unit,
     mealType: row.meal_type,
     loggedAt: row.logged_at,
     notes: row.notes,
+    groupId: row.group_id,
     calories: row.calories,
     protein: row.protein,
     carbs: row.carbs,
     fat: row.fat,
     fiber: row.fiber_g,
+    sugar: row.sugar_g,
+    sodium: row.sodium_mg,
     netCarbs: calculateNetCarbs(row.carbs, row.fiber_g),
-  }));
+    nutrients: parseNutrients(row.nutrients),
+  };
+}
+
+// Insert several meals and draw down the pantry for them atomically: either everything lands or nothing does
+export function logMeals(
+  inputs: LogMealInput[],
+  pantryNeeds: Array<Pick<IngredientNeed, "source" | "refId" | "quantity" | "unit">> = []
+): { ids: string[]; pantryUses: PantryUse[] } {
+  const db = getDb();
+  return db.transaction(() => {
+    const ids = inputs.map((item) => logMeal(item));
+    return { ids, pantryUses: usePantry(pantryNeeds) };
+  })();
+}
+
+export function getMealById(id: string): MealResult | null {
+  const db = getDb();
+  const row = db.query(`
+    SELECT ${MEAL_COLUMNS}
+    FROM meals WHERE id = ?
+  `).get(id) as MealRow | null;
+
+  if (!row) return null;
+  return rowToMealResult(row);
+}
+
+export function deleteMeal(id: string): boolean {
+  const db = getDb();
+  const result = db.query("DELETE FROM meals WHERE id = ?").run(id);
+  return result.changes > 0;
+}
+
+export function updateMeal(id: string, input: {
+  foodName: string;
+  quantity: number;
+  unit: string;
+  mealType: string;
+  notes: string | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  nutrients: NutrientMap;
+  loggedAt: string;
+}): boolean {
+  const db = getDb();
+  const result = db.query(`
+    UPDATE meals SET
+      food_name = ?, quantity = ?, unit = ?, meal_type = ?, notes = ?, logged_at = ?,
+      calories = ?, protein = ?, carbs = ?, fat = ?, fiber_g = ?, sugar_g = ?, sodium_mg = ?, nutrients = ?
+    WHERE id = ?
+  `).run(
+    input.foodName,
+    input.quantity,
+    input.unit,
+    input.mealType,
+    input.notes,
+    input.loggedAt,
+    input.calories,
+    input.protein,
+    input.carbs,
+    input.fat,
+    input.fiber,
+    input.sugar,
+    input.sodium,
+    serializeNutrients(input.nutrients),
+    id
+  );
+  return result.changes > 0;
+}
+
+export function getMealsByDate(date: string): MealResult[] {
+  const db = getDb();
+  const stmt = db.query(`
+    SELECT ${MEAL_COLUMNS}
+    FROM meals
+    WHERE date(logged_at) = date(?)
+    ORDER BY logged_at DESC
+  `);
+
+  const rows = stmt.all(date) as MealRow[];
+  return rows.map(rowToMealResult);
+}
+
+export function getMealHistory(limit: number = 20, offset: number = 0): MealResult[] {
+  const db = getDb();
+  const stmt = db.query(`
+    SELECT ${MEAL_COLUMNS}
+    FROM meals
+    ORDER BY logged_at DESC
+    LIMIT ?
+    OFFSET ?
+  `);
+
+  const rows = stmt.all(limit, offset) as MealRow[];
+  return rows.map(rowToMealResult);
+}
+
+export type MealTotals = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  netCarbs: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  mealCount: number;
+  nutrients: NutrientMap;
+};
+
+// planned_meals shares the meals nutrition columns so both sum the same way
+type MealTable = "meals" | "planned_meals";
+
+/** Per-key sums of the nutrient maps of the rows matching `where` (meals or planned meals) */
+function sumMealNutrients(where: string, params: string[], table: MealTable = "meals"): NutrientMap {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT n.key as key, SUM(n.value) as total
+    FROM ${table}, json_each(${table}.nutrients) n
+    WHERE ${table}.nutrients IS NOT NULL AND ${where}
+    GROUP BY n.key
+  `).all(...params) as Array<{ key: string; total: number }>;
+
+  return sumNutrients([Object.fromEntries(rows.map((r) => [r.key, r.total]))]);
+}
+
+function sumMeals(where: string, ...params: string[]): MealTotals {
+  return sumMealRows("meals", where, params);
+}
+
+function sumMealRows(table: MealTable, where: string, params: string[]): MealTotals {
+  const db = getDb();
+  const stmt = db.query(`
+    SELECT 
+      COALESCE(SUM(calories), 0) as calories,
+      COALESCE(SUM(protein), 0) as protein,
+      COALESCE(SUM(carbs), 0) as carbs,
+      COALESCE(SUM(fat), 0) as fat,
+      COALESCE(SUM(CASE WHEN carbs IS NULL THEN 0 ELSE carbs - COALESCE(fiber_g, 0) END), 0) as net_carbs,
+      COALESCE(SUM(fiber_g), 0) as fiber,
+      COALESCE(SUM(sugar_g), 0) as sugar,
+      COALESCE(SUM(sodium_mg), 0) as sodium,
+      COUNT(*) as meal_count
+    FROM ${table}
+    WHERE ${where}
+  `);
+
+  const row = stmt.get(...params) as {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    net_carbs: number;
+    fiber: number;
+    sugar: number;
+    sodium: number;
+    meal_count: number;
+  };
+
+  return {
+    calories: roundNutrition(row.calories),
+    protein: roundNutrition(row.protein),
+    carbs: roundNutrition(row.carbs),
+    fat: roundNutrition(row.fat),
+    netCarbs: roundNutrition(row.net_carbs),
+    fiber: roundNutrition(row.fiber),
+    sugar: roundNutrition(row.sugar),
+    sodium: roundNutrition(row.sodium),
+    mealCount: row.meal_count,
+    nutrients: sumMealNutrients(where, params, table),
+  };
+}
+
+export function getDailyTotals(date: string): MealTotals {
+  return sumMeals("date(logged_at) = date(?)", date);
+}
+
+export interface NutrientCoverage {
+  mealCount: number;
+  /** Meals that had a value, by nutrient key; a missing value isn't the same as zero */
+  withData: Record<string, number>;
+}
+
+export function getNutrientCoverage(from: string, to: string): NutrientCoverage {
+  const db = getDb();
+  const where = "date(meals.logged_at) >= date(?) AND date(meals.logged_at) <= date(?)";
+  const row = db.query(`
+    SELECT COUNT(*) as meal_count, COUNT(calories) as calories, COUNT(protein) as protein,
+           COUNT(carbs) as carbs, COUNT(fat) as fat, COUNT(fiber_g) as fiber,
+           COUNT(sugar_g) as sugar, COUNT(sodium_mg) as sodium
+    FROM meals WHERE ${where}
+  `).get(from, to) as { meal_count: number } & Record<string, number>;
+  const nutrientRows = db.query(`
+    SELECT n.key as key, COUNT(DISTINCT meals.id) as meals
+    FROM meals, json_each(meals.nutrients) n
+    WHERE meals.nutrients IS NOT NULL AND ${where}
+    GROUP BY n.key
+  `).all(from, to) as Array<{ key: string; meals: number }>;
+
+  const { meal_count, ...core } = row;
+  return {
+    mealCount: meal_count,
+    withData: { ...core, ...Object.fromEntries(nutrientRows.map((r) => [r.key, r.meals])) },
+  };
+}
+
+// ---- Meal groups ----
+
+const MEAL_GROUP_COLUMNS = `g.id, g.name, g.meal_type, g.logged_at, g.notes, g.created_at,
+           (SELECT COUNT(*) FROM meals m WHERE m.group_id = g.id) as meal_count`;
+
+interface MealGroupRow {
+  id: string;
+  name: string;
+  meal_type: string;
+  logged_at: string;
+  notes: string | null;
+  created_at: string;
+  meal_count: number;
+}
+
+function rowToMealGroup(row: MealGroupRow): MealGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    mealType: row.meal_type,
+    loggedAt: row.logged_at,
+    notes: row.notes,
+    createdAt: row.created_at,
+    mealCount: row.meal_count,
+  };
+}
+
+export function createMealGroup(input: {
+  name: string;
+  mealType: string;
+  loggedAt: string;
+  notes?: string;
+  mealIds?: string[];
+}): MealGroup {
+  const db = getDb();
+  const id = crypto.randomUUID();
+
+  db.transaction(() => {
+    db.query(`
+      INSERT INTO meal_groups (id, name, meal_type, logged_at, notes)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, input.name, input.mealType, input.loggedAt, input.notes ?? null);
+    if (input.mealIds && input.mealIds.length > 0) addMealsToGroup(id, input.mealIds);
+  })();
+
+  return getMealGroupById(id)!;
+}
+
+export function getMealGroupById(id: string): MealGroup | null {
+  const db = getDb();
+  const row = db.query(`SELECT ${MEAL_GROUP_COLUMNS} FROM meal_groups g WHERE g.id = ?`).get(id) as MealGroupRow | null;
+  return row ? rowToMealGroup(row) : null;
+}
+
+export function getMealGroupsByIds(ids: string[]): MealGroup[] {
+  if (ids.length === 0) return [];
+  const db = getDb();
+  const rows = db.query(`
+    SELECT ${MEAL_GROUP_COLUMNS}
+    FROM meal_groups g
+    WHERE g.id IN (${ids.map(() => "?").join(", ")})
+    ORDER BY g.logged_at DESC
+  `).all(...ids) as MealGroupRow[];
+  return rows.map(rowToMealGroup);
+}
+
+export function listMealGroups(options: { date?: string; limit?: number; offset?: number } = {}): MealGroup[] {
+  const db = getDb();
+  const where = options.date ? "WHERE date(g.logged_at) = date(?)" : "";
+  const params: Array<string | number> = options.date ? [options.date] : [];
+  const rows = db.query(`
+    SELECT ${MEAL_GROUP_COLUMNS}
+    FROM meal_groups g
+    ${where}
+    ORDER BY g.logged_at DESC
+    LIMIT ?
+    OFFSET ?
+  `).all(...params, options.limit ?? 20, options.offset ?? 0) as MealGroupRow[];
+  return rows.map(rowToMealGroup);
+}
+
+export function getMealsByGroup(groupId: string): MealResult[] {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT ${MEAL_COLUMNS}
+    FROM meals
+    WHERE group_id = ?
+    ORDER BY logged_at ASC, rowid ASC
+  `).all(groupId) as MealRow[];
+  return rows.map(rowToMealResult);
+}
+
+export function getMealGroupTotals(groupId: string): MealTotals {
+  return sumMeals("group_id = ?", groupId);
+}
+
+// Members share the group's occasion, so a new time or meal type moves them too
+export function updateMealGroup(id: string, input: {
+  name: string;
+  mealType: string;
+  loggedAt: string;
+  notes: string | null;
+}): boolean {
+  const db = getDb();
+  return db.transaction(() => {
+    const result = db.query(`
+      UPDATE meal_groups SET name = ?, meal_type = ?, logged_at = ?, notes = ?
+      WHERE id = ?
+    `).run(input.name, input.mealType, input.loggedAt, input.notes, id);
+    if (result.changes === 0) return false;
+    db.query("UPDATE meals SET logged_at = ?, meal_type = ? WHERE group_id = ?").run(input.loggedAt, input.mealType, id);
+    return true;
+  })();
+}
+
+/** Delete a group; its meals are ungrouped unless `deleteMeals` is set */
+export function deleteMealGroup(id: string, deleteMeals: boolean = false): { deleted: boolean; name: string | null; mealCount: number } {
+  const db = getDb();
+  const group = getMealGroupById(id);
+  if (!group) return { deleted: false, name: null, mealCount: 0 };
+
+  db.transaction(() => {
+    if (deleteMeals) {
+      db.query("DELETE FROM meals WHERE group_id = ?").run(id);
+    } else {
+      db.query("UPDATE meals SET group_id = NULL WHERE group_id = ?").run(id);
+    }
+    db.query("DELETE FROM meal_groups WHERE id = ?").run(id);
+  })();
+
+  return { deleted: true, name: group.name, mealCount: group.mealCount };
+}
+
+/** Move meals into a group, aligning their timestamp and meal type with it. Returns the ids that exist. */
+export function addMealsToGroup(groupId: string, mealIds: string[]): string[] {
+  const db = getDb();
+  const group = db.query("SELECT meal_type, logged_at FROM meal_groups WHERE id = ?").get(groupId) as
+    { meal_type: string; logged_at: string } | null;
+  if (!group) throw new Error(`Meal group not found: ${groupId}`);
+
+  const stmt = db.query("UPDATE meals SET group_id = ?, logged_at = ?, meal_type = ? WHERE id = ?");
+  return db.transaction(() => mealIds.filter((mealId) => stmt.run(groupId, group.logged_at, group.meal_type, mealId).changes > 0))();
+}
+
+/** Detach meals from whatever group they belong to. Returns the ids that were grouped. */
+export function removeMealsFromGroup(mealIds: string[]): string[] {
+  const db = getDb();
+  const stmt = db.query("UPDATE meals SET group_id = NULL WHERE id = ? AND group_id IS NOT NULL");
+  return db.transaction(() => mealIds.filter((mealId) => stmt.run(mealId).changes > 0))();
+}
+
+// ---- Meal plan ----
+//
+// Planned items snapshot their nutrition when added, like meals do. Logging one writes
+// a meal and links it through meal_id; deleting that meal puts the item back to pending.
+
+export type PlanSource = "recipe" | "usda" | "custom" | "manual";
+
+export interface PlannedMeal {
+  id: string;
+  plannedFor: string;
+  mealType: string;
+  source: PlanSource;
+  /** Recipe id, fdcId or custom food id; null for manual items */
+  refId: string | null;
+  foodName: string;
+  quantity: number;
+  unit: string;
+  notes: string | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  nutrients: NutrientMap;
+  /** The logged meal, once logged */
+  mealId: string | null;
+  createdAt: string;
+}
+
+export type PlannedMealInput = Omit<PlannedMeal, "id" | "mealId" | "createdAt">;
+
+// meal_id only counts while the meal still exists
+const PLANNED_MEAL_COLUMNS = `p.id, p.planned_for, p.meal_type, p.source, p.ref_id, p.food_name, p.quantity, p.unit, p.notes,
+           p.calories, p.protein, p.carbs, p.fat, p.fiber_g, p.sugar_g, p.sodium_mg, p.nutrients, p.created_at,
+           (SELECT m.id FROM meals m WHERE m.id = p.meal_id) as meal_id`;
+
+const PLAN_PENDING = "NOT EXISTS (SELECT 1 FROM meals m WHERE m.id = planned_meals.meal_id)";
+
+const MEAL_TYPE_ORDER = "CASE p.meal_type WHEN 'breakfast' THEN 0 WHEN 'lunch' THEN 1 WHEN 'dinner' THEN 2 ELSE 3 END";
+
+interface PlannedMealRow {
+  id: string;
+  planned_for: string;
+  meal_type: string;
+  source: string;
+  ref_id: string | null;
+  food_name: string;
+  quantity: number;
+  unit: string;
+  notes: string | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+  nutrients: string | null;
+  meal_id: string | null;
+  created_at: string;
+}
+
+function rowToPlannedMeal(row: PlannedMealRow): PlannedMeal {
+  return {
+    id: row.id,
+    plannedFor: row.planned_for,
+    mealType: row.meal_type,
+    source: row.source as PlanSource,
+    refId: row.ref_id,
+    foodName: row.food_name,
+    quantity: row.quantity,
+    unit: row.unit,
+    notes: row.notes,
+    calories: row.calories,
+    protein: row.protein,
+    carbs: row.carbs,
+    fat: row.fat,
+    fiber: row.fiber_g,
+    sugar: row.sugar_g,
+    sodium: row.sodium_mg,
+    nutrients: parseNutrients(row.nutrients),
+    mealId: row.meal_id,
+    createdAt: row.created_at,
+  };
+}
+
+export function addPlannedMeal(input: PlannedMealInput): PlannedMeal {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  db.query(`
+    INSERT INTO planned_meals (id, planned_for, meal_type, source, ref_id, food_name, quantity, unit, notes,
+                               calories, protein, carbs, fat, fiber_g, sugar_g, sodium_mg, nutrients)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    input.plannedFor,
+    input.mealType,
+    input.source,
+    input.refId,
+    input.foodName,
+    input.quantity,
+    input.unit,
+    input.notes,
+    input.calories,
+    input.protein,
+    input.carbs,
+    input.fat,
+    input.fiber,
+    input.sugar,
+    input.sodium,
+    serializeNutrients(input.nutrients)
+  );
+  return getPlannedMealById(id)!;
+}
+
+export function getPlannedMealById(id: string): PlannedMeal | null {
+  const db = getDb();
+  const row = db.query(`SELECT ${PLANNED_MEAL_COLUMNS} FROM planned_meals p WHERE p.id = ?`).get(id) as PlannedMealRow | null;
+  return row ? rowToPlannedMeal(row) : null;
+}
+
+/** Items planned between `from` and `to` (inclusive, either open), by day then meal */
+export function listPlannedMeals(range: { from?: string; to?: string } = {}): PlannedMeal[] {
+  const db = getDb();
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (range.from) {
+    conditions.push("p.planned_for >= ?");
+    params.push(range.from);
+  }
+  if (range.to) {
+    conditions.push("p.planned_for <= ?");
+    params.push(range.to);
+  }
+  const rows = db.query(`
+    SELECT ${PLANNED_MEAL_COLUMNS}
+    FROM planned_meals p
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY p.planned_for ASC, ${MEAL_TYPE_ORDER}, p.created_at ASC
+  `).all(...params) as PlannedMealRow[];
+  return rows.map(rowToPlannedMeal);
+}
+
+export function deletePlannedMeal(id: string): boolean {
+  const db = getDb();
+  return db.query("DELETE FROM planned_meals WHERE id = ?").run(id).changes > 0;
+}
+
+/**
+ * Write a planned item as a meal, link it and draw its needs from the pantry (unless
+ * `usePantryStock` is false), all in one transaction; throws if it is already logged
+ */
+export function logPlannedMeal(
+  id: string,
+  slot: { loggedAt: string; mealType?: string; groupId?: string },
+  usePantryStock: boolean = true
+): { mealId: string; pantryUses: PantryUse[] } {
+  const db = getDb();
+  return db.transaction(() => {
+    const plan = getPlannedMealById(id);
+    if (!plan) throw new Error(`Planned meal not found: ${id}`);
+    if (plan.mealId) throw new Error(`Planned meal already logged as meal ${plan.mealId}`);
+
+    const mealId = logMeal({
+      foodName: plan.foodName,
+      // Recipes aren't foods; only USDA and custom items keep a food link for later edits
+      foodId: plan.source === "usda" || plan.source === "custom" ? plan.refId ?? undefined : undefined,
+      quantity: plan.quantity,
+      unit: plan.unit,
+      mealType: slot.mealType ?? plan.mealType,
+      notes: plan.notes ?? undefined,
+      loggedAt: slot.loggedAt,
+      groupId: slot.groupId,
+      calories: plan.calories ?? undefined,
+      protein: plan.protein ?? undefined,
+      carbs: plan.carbs ?? undefined,
+      fat: plan.fat ?? undefined,
+      fiber: plan.fiber ?? undefined,
+      sugar: plan.sugar ?? undefined,
+      sodium: plan.sodium ?? undefined,
+      nutrients: plan.nutrients,
+    });
+    db.query("UPDATE planned_meals SET meal_id = ? WHERE id = ?").run(mealId, id);
+    return { mealId, pantryUses: usePantryStock ? usePantry(plannedMealNeeds(plan)) : [] };
+  })();
+}
+
+/** Totals of a day's plan; `pendingOnly` leaves out items already logged */
+export function getPlannedTotals(date: string, pendingOnly: boolean = false): MealTotals {
+  return sumMealRows("planned_meals", `planned_for = ?${pendingOnly ? ` AND ${PLAN_PENDING}` : ""}`, [date]);
+}
+
+/** End-of-day projection: what was logged plus what is still planned */
+export function getProjectedTotals(date: string): MealTotals {
+  const actual = getDailyTotals(date);
+  const pending = getPlannedTotals(date, true);
+  return {
+    calories: roundNutrition(actual.calories + pending.calories),
+    protein: roundNutrition(actual.protein + pending.protein),
+    carbs: roundNutrition(actual.carbs + pending.carbs),
+    fat: roundNutrition(actual.fat + pending.fat),
+    netCarbs: roundNutrition(actual.netCarbs + pending.netCarbs),
+    fiber: roundNutrition(actual.fiber + pending.fiber),
+    sugar: roundNutrition(actual.sugar + pending.sugar),
+    sodium: roundNutrition(actual.sodium + pending.sodium),
+    mealCount: actual.mealCount + pending.mealCount,
+    nutrients: sumNutrients([actual.nutrients, pending.nutrients]),
+  };
+}
+
+/** One food drawn on by a recipe, or a sub-recipe that can't be broken down further */
+export interface IngredientNeed {
+  source: IngredientSource;
+  refId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+/**
+ * The ingredients behind `batches` of a recipe (0.5 = half the yield), recursing into
+ * recipes used as ingredients. A sub-recipe without ingredients, or whose amount has no
+ * bridge to servings, stays as one line.
+ */
+export function recipeIngredientNeeds(recipe: Recipe, batches: number, visited: Set<string> = new Set([recipe.id])): IngredientNeed[] {
+  const needs: IngredientNeed[] = [];
+  for (const ing of recipe.ingredients) {
+    const quantity = ing.quantity * batches;
+    const sub = ing.source === "recipe" && !visited.has(ing.refId) ? getRecipeById(ing.refId) : null;
+    if (sub && sub.ingredients.length > 0) {
+      try {
+        const servings = linkRecipe(sub, quantity, ing.unit).multiplier;
+        needs.push(...recipeIngredientNeeds(sub, servings / sub.servings, new Set([...visited, sub.id])));
+        continue;
+      } catch {
+        // Fall through and list the sub-recipe itself
+      }
+    }
+    needs.push({ source: ing.source, refId: ing.refId, name: ing.name, quantity, unit: ing.unit });
+  }
+  return needs;
+}
+
+function measuresForNeed(item: { source: string; refId: string | null }): FoodMeasures | null {
+  return (item.source === "usda" || item.source === "custom") && item.refId ? foodMeasuresFor(item.source, item.refId) : null;
+}
+
+/**
+ * Ingredients needed for the items still pending between `from` and `to`. A recipe with
+ * ingredients is broken down by the share of its batch that was planned; any other item
+ * is needed as planned.
+ */
+export function getGroceryNeeds(range: { from?: string; to?: string }): GroceryNeed[] {
+  const needs: GroceryNeed[] = [];
+  for (const plan of listPlannedMeals(range)) {
+    if (plan.mealId) continue;
+    const recipe = plan.source === "recipe" && plan.refId ? getRecipeById(plan.refId) : null;
+    if (recipe && recipe.ingredients.length > 0) {
+      for (const need of recipeIngredientNeeds(recipe, plan.quantity / recipe.servings)) {
+        needs.push({ ...need, recipe: recipe.name, plannedFor: plan.plannedFor, measures: measuresForNeed(need) });
+      }
+    } else {
+      needs.push({
+        source: plan.source,
+        refId: plan.refId,
+        name: plan.foodName,
+        quantity: plan.quantity,
+        // A planned recipe's unit is its serving label; its quantity counts servings
+        unit: plan.source === "recipe" ? "serving" : plan.unit,
+        recipe: null,
+        plannedFor: plan.plannedFor,
+        measures: measuresForNeed(plan),
+      });
+    }
+  }
+  return needs;
+}
+
+/** What a planned item consumes when logged: a recipe's ingredients, else the food itself */
+export function plannedMealNeeds(plan: PlannedMeal): IngredientNeed[] {
+  const recipe = plan.source === "recipe" && plan.refId ? getRecipeById(plan.refId) : null;
+  if (recipe) return recipeIngredientNeeds(recipe, plan.quantity / recipe.servings);
+  if ((plan.source === "usda" || plan.source === "custom") && plan.refId) {
+    return [{ source: plan.source, refId: plan.refId, name: plan.foodName, quantity: plan.quantity, unit: plan.unit }];
+  }
+  return [];
+}
+
+// ---- Pantry ----
+//
+// Stock is kept per food in the unit it was first added in. Amounts in other units
+// convert through the food's measures, the same bridge logging uses to scale nutrition,
+// so 1 kg of oats can be drawn down by "1 cup" when the food knows what a cup weighs.
+// Only foods in the pantry are tracked, and stock never goes below zero.
+
+export type PantrySource = "usda" | "custom";
+
+export interface PantryItem {
+  source: PantrySource;
+  /** fdcId or custom food id */
+  refId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  /** Warn at or below this amount; null warns only when it runs out */
+  lowStock: number | null;
+  updatedAt: string;
+}
+
+export interface PantryUse {
+  source: PantrySource;
+  refId: string;
+  name: string;
+  /** Amount taken, in the pantry's unit; null when the logged unit couldn't be converted */
+  used: number | null;
+  unit: string;
+  remaining: number;
+  low: boolean;
+}
+
+interface PantryRow {
+  source: string;
+  ref_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  low_stock: number | null;
+  updated_at: string;
+}
+
+function rowToPantryItem(row: PantryRow): PantryItem {
+  return {
+    source: row.source as PantrySource,
+    refId: row.ref_id,
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit,
+    lowStock: row.low_stock,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function isLowStock(item: Pick<PantryItem, "quantity" | "lowStock">): boolean {
+  return item.quantity <= (item.lowStock ?? 0);
+}
+
+function foodMeasuresFor(source: PantrySource, refId: string): FoodMeasures | null {
+  if (source === "custom") {
+    const food = getCustomFoodById(refId);
+    return food ? customFoodMeasures(food.servingSize) : null;
+  }
+  const food = getFoodById(parseInt(refId, 10));
+  return food ? usdaFoodMeasures(food) : null;
+}
+
+/** `quantity` `unit` of a food expressed in `toUnit`; null when its measures can't bridge the two */
+export function convertFoodAmount(source: PantrySource, refId: string, quantity: number, unit: string, toUnit: string): number | null {
+  if (normalizeUnit(unit) === normalizeUnit(toUnit)) return quantity;
+  const from = getStandardUnit(unit);
+  const to = getStandardUnit(toUnit);
+  if (from && to && from.dimension === to.dimension) return (quantity * from.factor) / to.factor;
+
+  const measures = foodMeasuresFor(source, refId);
+  if (!measures) return null;
+  try {
+    return nutritionMultiplier(measures, quantity, unit) / nutritionMultiplier(measures, 1, toUnit);
+  } catch {
+    return null;
+  }
+}
+
+export function getPantryItem(source: PantrySource, refId: string): PantryItem | null {
+  const db = getDb();
+  const row = db.query(`
+    SELECT source, ref_id, name, quantity, unit, low_stock, updated_at
+    FROM pantry_items WHERE source = ? AND ref_id = ?
+  `).get(source, refId) as PantryRow | null;
+  return row ? rowToPantryItem(row) : null;
+}
+
+/** Find a pantry item by fdcId or custom food id alone */
+export function findPantryItem(refId: string): PantryItem | null {
+  const db = getDb();
+  const row = db.query(`
+    SELECT source, ref_id, name, quantity, unit, low_stock, updated_at
+    FROM pantry_items WHERE ref_id = ?
+  `).get(refId) as PantryRow | null;
+  return row ? rowToPantryItem(row) : null;
+}
+
+export function listPantryItems(): PantryItem[] {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT source, ref_id, name, quantity, unit, low_stock, updated_at
+    FROM pantry_items ORDER BY name COLLATE NOCASE ASC
+  `).all() as PantryRow[];
+  return rows.map(rowToPantryItem);
+}
+
+/**
+ * Add stock. A food already in the pantry keeps its unit and the amount is converted
+ * to it; throws when that isn't possible. `lowStock` (in the pantry's unit) replaces the
+ * threshold when given.
+ */
+export function addToPantry(input: {
+  source: PantrySource;
+  refId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  lowStock?: number | null;
+}): PantryItem {
+  if (!(input.quantity >= 0)) throw new Error("Pantry quantity must be 0 or more");
+  if (input.lowStock !== undefined && input.lowStock !== null && !(input.lowStock >= 0)) {
+    throw new Error("Low-stock threshold must be 0 or more");
+  }
+  const db = getDb();
+  const existing = getPantryItem(input.source, input.refId);
+
+  if (!existing) {
+    db.query(`
+      INSERT INTO pantry_items (source, ref_id, name, quantity, unit, low_stock, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    `).run(input.source, input.refId, input.name, input.quantity, input.unit, input.lowStock ?? null);
+  } else {
+    const amount = convertFoodAmount(input.source, input.refId, input.quantity, input.unit, existing.unit);
+    if (amount === null) {
+      throw new Error(`Cannot convert "${input.unit}" to ${existing.unit} for "${existing.name}". Add it in ${existing.unit}.`);
+    }
+    db.query(`
+      UPDATE pantry_items SET quantity = ?, low_stock = ?, updated_at = datetime('now')
+      WHERE source = ? AND ref_id = ?
+    `).run(
+      Math.round((existing.quantity + amount) * 100) / 100,
+      input.lowStock === undefined ? existing.lowStock : input.lowStock,
+      input.source,
+      input.refId
+    );
+  }
+  return getPantryItem(input.source, input.refId)!;
 }
 
-export function getMealHistory(limit: number = 20, offset: number = 0): MealResult[] {
+/** Draw down stock for foods that are tracked; anything else is ignored */
+export function usePantry(needs: Array<Pick<IngredientNeed, "source" | "refId" | "quantity" | "unit">>): PantryUse[] {
   const db = getDb();
-  const stmt = db.query(`
-    SELECT id, food_name, quantity, unit, meal_type, logged_at, notes,
-           calories, protein, carbs, fat, fiber_g
-    FROM meals
-    ORDER BY logged_at DESC
-    LIMIT ?
-    OFFSET ?
-  `);
-
-  const rows = stmt.all(limit, offset) as Array<{
-    id: string;
-    food_name: string;
-    quantity: number;
-    unit: string;
-    meal_type: string;
-    logged_at: string;
-    notes: string | null;
-    calories: number | null;
-    protein: number | null;
-    carbs: number | null;
-    fat: number | null;
-    fiber_g: number | null;
-  }>;
-
-  return rows.map((row) => ({
-    id: row.id,
-    foodName: row.food_name,
-    quantity: row.quantity,
-    unit: row.unit,
-    mealType: row.meal_type,
-    loggedAt: row.logged_at,
-    notes: row.notes,
-    calories: row.calories,
-    protein: row.protein,
-    carbs: row.carbs,
-    fat: row.fat,
-    fiber: row.fiber_g,
-    netCarbs: calculateNetCarbs(row.carbs, row.fiber_g),
-  }));
+  return db.transaction(() => {
+    const uses: PantryUse[] = [];
+    for (const need of needs) {
+      if (need.source === "recipe") continue;
+      const item = getPantryItem(need.source, need.refId);
+      if (!item) continue;
+
+      const amount = convertFoodAmount(item.source, item.refId, need.quantity, need.unit, item.unit);
+      const remaining = amount === null ? item.quantity : Math.max(0, Math.round((item.quantity - amount) * 100) / 100);
+      if (amount !== null) {
+        db.query("UPDATE pantry_items SET quantity = ?, updated_at = datetime('now') WHERE source = ? AND ref_id = ?")
+          .run(remaining, item.source, item.refId);
+      }
+      uses.push({
+        source: item.source,
+        refId: item.refId,
+        name: item.name,
+        used: amount === null ? null : Math.round(amount * 100) / 100,
+        unit: item.unit,
+        remaining,
+        low: isLowStock({ quantity: remaining, lowStock: item.lowStock }),
+      });
+    }
+    return uses;
+  })();
 }
 
-export function getDailyTotals(date: string): {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  netCarbs: number;
-  mealCount: number;
-} {
+export function removePantryItem(source: PantrySource, refId: string): boolean {
   const db = getDb();
-  const stmt = db.query(`
-    SELECT 
-      COALESCE(SUM(calories), 0) as calories,
-      COALESCE(SUM(protein), 0) as protein,
-      COALESCE(SUM(carbs), 0) as carbs,
-      COALESCE(SUM(fat), 0) as fat,
-      COALESCE(SUM(CASE WHEN carbs IS NULL THEN 0 ELSE carbs - COALESCE(fiber_g, 0) END), 0) as net_carbs,
-      COUNT(*) as meal_count
-    FROM meals
-    WHERE date(logged_at) = date(?)
-  `);
+  return db.query("DELETE FROM pantry_items WHERE source = ? AND ref_id = ?").run(source, refId).changes > 0;
+}
 
-  const row = stmt.get(date) as {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    net_carbs: number;
-    meal_count: number;
-  };
+export interface PantryRecipe {
+  recipe: Recipe;
+  /** Servings the pantry covers, to one decimal */
+  servings: number;
+  /** Ingredients that aren't in the pantry, or not in a unit it can convert */
+  missing: string[];
+  /** Ingredients in stock, but not enough for one serving */
+  short: string[];
+}
 
-  return {
-    calories: roundNutrition(row.calories),
-    protein: roundNutrition(row.protein),
-    carbs: roundNutrition(row.carbs),
-    fat: roundNutrition(row.fat),
-    netCarbs: roundNutrition(row.net_carbs),
-    mealCount: row.meal_count,
-  };
+/** How many servings of each recipe with ingredients the pantry covers, most first */
+export function getPantryRecipes(): PantryRecipe[] {
+  const results: PantryRecipe[] = [];
+  for (const recipe of listRecipes()) {
+    if (recipe.ingredients.length === 0) continue;
+
+    // Per serving, with repeated foods added up in the pantry's unit
+    const perServing = new Map<string, { item: PantryItem | null; name: string; amount: number | null }>();
+    for (const need of recipeIngredientNeeds(recipe, 1 / recipe.servings)) {
+      const key = `${need.source}:${need.refId}`;
+      const item = need.source === "recipe" ? null : getPantryItem(need.source, need.refId);
+      const amount = item ? convertFoodAmount(item.source, item.refId, need.quantity, need.unit, item.unit) : null;
+      const entry = perServing.get(key);
+      if (!entry) perServing.set(key, { item, name: need.name, amount });
+      else entry.amount = entry.amount === null || amount === null ? null : entry.amount + amount;
+    }
+
+    let servings = Infinity;
+    const missing: string[] = [];
+    const short: string[] = [];
+    for (const { item, name, amount } of perServing.values()) {
+      if (!item || amount === null) {
+        missing.push(name);
+        servings = 0;
+        continue;
+      }
+      if (amount <= 0) continue;
+      const covers = item.quantity / amount;
+      if (covers < 1) short.push(name);
+      servings = Math.min(servings, covers);
+    }
+    results.push({ recipe, servings: servings === Infinity ? 0 : Math.floor(servings * 10) / 10, missing, short });
+  }
+  return results.sort((a, b) => b.servings - a.servings || a.missing.length - b.missing.length);
 }
 
 export function isUSDBAvailable(): boolean {
@@ -1086,64 +3025,599 @@ export function getUSDAPath(): string {
 }
 
 // ---- Goals ----
+//
+// Goals are versioned: each change is a row in goal_history that takes effect from a
+// date, so past days are judged against the targets in force at the time. A row with
+// a NULL target removes the goal from that date on. A key's first version also covers
+// the days before it, so setting a goal for the first time counts earlier logging.
+//
+// Goals belong to a named profile ("default" unless given). Which profile applies on a
+// day comes from a per-date override, else the weekly schedule in force, else default.
+//
+// A range goal has direction "range": `min` is its floor and `target` its ceiling.
+
+export const DEFAULT_GOAL_PROFILE = "default";
+
+export type GoalDirection = "under" | "over" | "range";
 
 export interface Goal {
   key: string;
   target: number;
-  direction: "under" | "over";
+  direction: GoalDirection;
   tolerance: number;
+  min: number | null;
+  effectiveFrom: string;
   updatedAt: string;
 }
 
-const VALID_GOAL_KEYS = new Set(["calories", "protein", "carbs", "fat", "netCarbs"]);
+export interface GoalVersion {
+  id: number;
+  profile: string;
+  key: string;
+  /** null when this version removes the goal */
+  target: number | null;
+  direction: GoalDirection;
+  tolerance: number;
+  min: number | null;
+  effectiveFrom: string;
+  recordedAt: string;
+}
+
+export interface GoalChangeOptions {
+  /** YYYY-MM-DD; defaults to today */
+  effectiveFrom?: string;
+  profile?: string;
+}
+
+const VALID_GOAL_KEYS = new Set(GOAL_KEYS);
 const DEFAULT_DIRECTIONS: Record<string, "under" | "over"> = {
   calories: "under",
   protein: "over",
   carbs: "under",
   fat: "under",
   netCarbs: "under",
+  fiber: "over",
+  sugar: "under",
+  sodium: "under",
+  carbsPercent: "under",
+  proteinPercent: "over",
+  fatPercent: "under",
 };
 
-export function setGoal(key: string, target: number, direction?: "under" | "over", tolerance?: number): void {
-  if (!VALID_GOAL_KEYS.has(key)) throw new Error(`Invalid goal key: ${key}`);
+export function defaultGoalDirection(key: string): "under" | "over" {
+  return DEFAULT_DIRECTIONS[key] ?? (isLimitNutrient(key) ? "under" : "over");
+}
+
+type GoalTotals = Pick<MealTotals, "protein" | "carbs" | "fat" | "fiber" | "nutrients"> &
+  Partial<Pick<MealTotals, "calories" | "netCarbs" | "sugar" | "sodium">>;
+
+const SPLIT_MACRO_BY_KEY = new Map<string, SplitMacro>(SPLIT_MACROS.map((m) => [SPLIT_GOAL_KEYS[m], m]));
+
+/**
+ * A goal key's amount in a set of totals: a macro's share of energy for split keys,
+ * a core column, else the nutrient map (0 when absent)
+ */
+export function goalActual(totals: GoalTotals, key: string, factors: EnergyFactors = "4-4-9"): number {
+  const macro = SPLIT_MACRO_BY_KEY.get(key);
+  if (macro) return macroShares(totals, factors)[macro];
+  return coreValue(totals, key) ?? totals.nutrients[key] ?? 0;
+}
+
+function todayStr(): string {
+  return formatLocalDate(new Date());
+}
+
+function validateProfileName(name: string): void {
+  if (!/^[a-z0-9][a-z0-9_-]{0,31}$/i.test(name)) {
+    throw new Error(`Invalid goal profile name "${name}": use letters, digits, - and _ (max 32)`);
+  }
+}
+
+type GoalSpec = Pick<GoalVersion, "target" | "direction" | "tolerance" | "min">;
+
+function writeGoalVersion(profile: string, key: string, spec: GoalSpec, effectiveFrom: string): void {
   const db = getDb();
-  const dir = direction ?? DEFAULT_DIRECTIONS[key] ?? "under";
-  const tol = Math.max(0, Math.min(100, tolerance ?? 0));
+  // One version per profile, key and day: a second change on the same day replaces the first
   db.query(
-    `INSERT INTO goals (key, target, direction, tolerance, updated_at)
-     VALUES (?, ?, ?, ?, datetime('now'))
-     ON CONFLICT(key) DO UPDATE SET target = excluded.target, direction = excluded.direction, tolerance = excluded.tolerance, updated_at = datetime('now')`
-  ).run(key, target, dir, tol);
+    `INSERT INTO goal_history (profile, key, target, direction, tolerance, min, effective_from, recorded_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+     ON CONFLICT(profile, key, effective_from) DO UPDATE SET
+       target = excluded.target, direction = excluded.direction, tolerance = excluded.tolerance,
+       min = excluded.min, recorded_at = excluded.recorded_at`
+  ).run(profile, key, spec.target, spec.direction, spec.tolerance, spec.min, effectiveFrom);
+}
+
+function clampTolerance(tolerance: number | undefined): number {
+  return Math.max(0, Math.min(100, tolerance ?? 0));
+}
+
+export function setGoal(
+  key: string,
+  target: number,
+  direction?: "under" | "over",
+  tolerance?: number,
+  options: GoalChangeOptions = {}
+): void {
+  if (!VALID_GOAL_KEYS.has(key)) throw new Error(`Invalid goal key: ${key}`);
+  const profile = options.profile ?? DEFAULT_GOAL_PROFILE;
+  validateProfileName(profile);
+  const spec = { target, direction: direction ?? defaultGoalDirection(key), tolerance: clampTolerance(tolerance), min: null };
+  writeGoalVersion(profile, key, spec, options.effectiveFrom ?? todayStr());
+}
+
+/** A goal met anywhere between `min` and `max`; tolerance widens both ends */
+export function setGoalRange(
+  key: string,
+  min: number,
+  max: number,
+  tolerance?: number,
+  options: GoalChangeOptions = {}
+): void {
+  if (!VALID_GOAL_KEYS.has(key)) throw new Error(`Invalid goal key: ${key}`);
+  if (!(min >= 0) || !(max > min)) throw new Error(`Invalid range for ${key}: need 0 <= min < max (got ${min}-${max})`);
+  const profile = options.profile ?? DEFAULT_GOAL_PROFILE;
+  validateProfileName(profile);
+  const spec = { target: max, direction: "range" as const, tolerance: clampTolerance(tolerance), min };
+  writeGoalVersion(profile, key, spec, options.effectiveFrom ?? todayStr());
 }
 
-export function setGoalTolerance(key: string, tolerance: number): void {
+export function setGoalTolerance(key: string, tolerance: number, options: GoalChangeOptions = {}): void {
   if (!VALID_GOAL_KEYS.has(key)) throw new Error(`Invalid goal key: ${key}`);
+  const profile = options.profile ?? DEFAULT_GOAL_PROFILE;
+  const effectiveFrom = options.effectiveFrom ?? todayStr();
+  const current = getGoals(effectiveFrom, profile).find((g) => g.key === key);
+  if (!current) throw new Error(`No goal set for ${key}. Set a target first.`);
+  writeGoalVersion(profile, key, { ...current, tolerance: clampTolerance(tolerance) }, effectiveFrom);
+}
+
+/**
+ * Set a carbs/protein/fat energy split as three range goals, `points` either side of each
+ * share (narrowed near 0 and 100 so the midpoint stays the target share)
+ */
+export function setGoalSplit(split: MacroSplit, points: number = 5, options: GoalChangeOptions = {}): void {
+  if (!(points > 0 && points <= 50)) throw new Error(`Invalid split tolerance ${points}: must be above 0 and at most 50 points`);
   const db = getDb();
-  const existing = db.query("SELECT key FROM goals WHERE key = ?").get(key);
-  if (!existing) throw new Error(`No goal set for ${key}. Set a target first.`);
-  const tol = Math.max(0, Math.min(100, tolerance));
-  db.query(
-    "UPDATE goals SET tolerance = ?, updated_at = datetime('now') WHERE key = ?"
-  ).run(tol, key);
+  const tx = db.transaction(() => {
+    for (const macro of SPLIT_MACROS) {
+      const share = split[macro];
+      const spread = Math.min(points, share, 100 - share);
+      if (spread <= 0) throw new Error(`Invalid split: ${macro} share must be between 0 and 100 (got ${share})`);
+      setGoalRange(SPLIT_GOAL_KEYS[macro], share - spread, share + spread, 0, options);
+    }
+  });
+  tx();
+}
+
+/** Target split from the split goals in force (range midpoints), or null unless all three are set */
+export function goalSplit(goals: Goal[]): MacroSplit | null {
+  const split: Partial<MacroSplit> = {};
+  for (const macro of SPLIT_MACROS) {
+    const goal = goals.find((g) => g.key === SPLIT_GOAL_KEYS[macro]);
+    if (!goal) return null;
+    split[macro] = goal.direction === "range" ? Math.round(((goal.min ?? 0) + goal.target) * 5) / 10 : goal.target;
+  }
+  return split as MacroSplit;
 }
 
-export function getGoals(): Goal[] {
+/** Goal versions oldest first per profile and key; optionally for one key and/or profile */
+export function getGoalHistory(filter: { key?: string; profile?: string } = {}): GoalVersion[] {
   const db = getDb();
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.key) {
+    conditions.push("key = ?");
+    params.push(filter.key);
+  }
+  if (filter.profile) {
+    conditions.push("profile = ?");
+    params.push(filter.profile);
+  }
   const rows = db.query(
-    `SELECT key, target, direction, tolerance, updated_at FROM goals ORDER BY key`
-  ).all() as Array<{ key: string; target: number; direction: string; tolerance: number; updated_at: string }>;
+    `SELECT id, profile, key, target, direction, tolerance, min, effective_from, recorded_at
+     FROM goal_history
+     ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY profile, key, effective_from, id`
+  ).all(...params) as Array<{
+    id: number; profile: string; key: string; target: number | null; direction: string;
+    tolerance: number; min: number | null; effective_from: string; recorded_at: string;
+  }>;
   return rows.map((r) => ({
+    id: r.id,
+    profile: r.profile,
     key: r.key,
     target: r.target,
-    direction: r.direction as "under" | "over",
+    direction: r.direction as GoalDirection,
     tolerance: r.tolerance,
-    updatedAt: r.updated_at,
+    min: r.min,
+    effectiveFrom: r.effective_from,
+    recordedAt: r.recorded_at,
   }));
 }
 
-export function resetGoals(): void {
+/** The goals of `profile` in force on `date` (YYYY-MM-DD), given history from getGoalHistory */
+export function goalsInForce(history: GoalVersion[], date: string, profile: string = DEFAULT_GOAL_PROFILE): Goal[] {
+  const byKey = new Map<string, GoalVersion>();
+  for (const version of history) {
+    if (version.profile !== profile) continue;
+    const held = byKey.get(version.key);
+    // History is sorted, so the last version on or before the date wins; until then the first
+    if (!held || version.effectiveFrom <= date) byKey.set(version.key, version);
+  }
+
+  const goals: Goal[] = [];
+  for (const v of byKey.values()) {
+    if (v.target === null) continue;
+    goals.push({
+      key: v.key,
+      target: v.target,
+      direction: v.direction,
+      tolerance: v.tolerance,
+      min: v.min,
+      effectiveFrom: v.effectiveFrom,
+      updatedAt: v.recordedAt,
+    });
+  }
+  return goals;
+}
+
+/** Goals in force on a date (default today), for a profile or else the one active that day */
+export function getGoals(date: string = todayStr(), profile?: string): Goal[] {
+  if (profile) return goalsInForce(getGoalHistory({ profile }), date, profile);
+  return createGoalResolver().goalsOn(date);
+}
+
+/** Remove every goal of a profile from a date (default today) on; earlier days keep their goals */
+export function resetGoals(options: GoalChangeOptions = {}): void {
+  const db = getDb();
+  const profile = options.profile ?? DEFAULT_GOAL_PROFILE;
+  const effectiveFrom = options.effectiveFrom ?? todayStr();
+  const tx = db.transaction(() => {
+    for (const g of getGoals(effectiveFrom, profile)) {
+      writeGoalVersion(profile, g.key, { ...g, target: null }, effectiveFrom);
+    }
+  });
+  tx();
+}
+
+/** Make `to` hold the goals `from` has in force, from a date (default today) on */
+export function copyGoalProfile(from: string, to: string, effectiveFrom: string = todayStr()): string[] {
+  validateProfileName(to);
+  if (from === to) throw new Error("Cannot copy a goal profile onto itself");
+  const source = getGoals(effectiveFrom, from);
+  if (source.length === 0) throw new Error(`Goal profile "${from}" has no goals on ${effectiveFrom}`);
+
+  const db = getDb();
+  const tx = db.transaction(() => {
+    const keep = new Set(source.map((g) => g.key));
+    for (const g of getGoals(effectiveFrom, to)) {
+      if (!keep.has(g.key)) writeGoalVersion(to, g.key, { ...g, target: null }, effectiveFrom);
+    }
+    for (const g of source) writeGoalVersion(to, g.key, g, effectiveFrom);
+  });
+  tx();
+  return source.map((g) => g.key);
+}
+
+/** Every profile name that has goals, a schedule slot or an override, default first */
+export function listGoalProfiles(): string[] {
   const db = getDb();
-  db.query("DELETE FROM goals").run();
+  const rows = db.query(`
+    SELECT profile FROM goal_history
+    UNION SELECT profile FROM goal_schedule
+    UNION SELECT profile FROM goal_overrides
+  `).all() as Array<{ profile: string }>;
+  const names = new Set([DEFAULT_GOAL_PROFILE, ...rows.map((r) => r.profile).sort()]);
+  return [...names];
+}
+
+function assertGoalProfileExists(profile: string): void {
+  validateProfileName(profile);
+  if (profile === DEFAULT_GOAL_PROFILE) return;
+  const db = getDb();
+  const row = db.query("SELECT 1 FROM goal_history WHERE profile = ? LIMIT 1").get(profile);
+  if (!row) throw new Error(`Unknown goal profile "${profile}". Set goals with --profile ${profile} first.`);
+}
+
+// ---- Goal schedule ----
+
+/** Weekday names indexed like Date.getDay() */
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface GoalScheduleVersion {
+  weekday: Weekday;
+  profile: string;
+  effectiveFrom: string;
+}
+
+export interface GoalOverride {
+  date: string;
+  profile: string;
+}
+
+/** Assign profiles to weekdays from a date (default today) on; "default" unassigns */
+export function setGoalSchedule(assignments: Partial<Record<Weekday, string>>, effectiveFrom: string = todayStr()): void {
+  for (const profile of Object.values(assignments)) assertGoalProfileExists(profile!);
+  const db = getDb();
+  const tx = db.transaction(() => {
+    for (const [weekday, profile] of Object.entries(assignments)) {
+      db.query(
+        `INSERT INTO goal_schedule (weekday, profile, effective_from, recorded_at)
+         VALUES (?, ?, ?, datetime('now'))
+         ON CONFLICT(weekday, effective_from) DO UPDATE SET profile = excluded.profile, recorded_at = excluded.recorded_at`
+      ).run(WEEKDAYS.indexOf(weekday as Weekday), profile!, effectiveFrom);
+    }
+  });
+  tx();
+}
+
+function getGoalScheduleHistory(): GoalScheduleVersion[] {
+  const db = getDb();
+  const rows = db.query(
+    "SELECT weekday, profile, effective_from FROM goal_schedule ORDER BY weekday, effective_from"
+  ).all() as Array<{ weekday: number; profile: string; effective_from: string }>;
+  return rows.map((r) => ({ weekday: WEEKDAYS[r.weekday]!, profile: r.profile, effectiveFrom: r.effective_from }));
+}
+
+/** Set (or with null, clear) the profile used on one date regardless of the schedule */
+export function setGoalOverride(date: string, profile: string | null): void {
+  const db = getDb();
+  if (profile === null) {
+    db.query("DELETE FROM goal_overrides WHERE date = ?").run(date);
+    return;
+  }
+  assertGoalProfileExists(profile);
+  db.query(
+    `INSERT INTO goal_overrides (date, profile, created_at) VALUES (?, ?, datetime('now'))
+     ON CONFLICT(date) DO UPDATE SET profile = excluded.profile, created_at = excluded.created_at`
+  ).run(date, profile);
+}
+
+export function listGoalOverrides(): GoalOverride[] {
+  const db = getDb();
+  return db.query("SELECT date, profile FROM goal_overrides ORDER BY date").all() as GoalOverride[];
+}
+
+export interface GoalResolver {
+  /** Profile active on a date: override, else schedule, else default */
+  profileOn(date: string): string;
+  goalsOn(date: string): Goal[];
+  /** Weekday -> profile in force on a date */
+  scheduleOn(date: string): Record<Weekday, string>;
+}
+
+/** Load goal history, schedule and overrides once to resolve many dates (streaks, averages) */
+export function createGoalResolver(): GoalResolver {
+  const history = getGoalHistory();
+  const schedule = getGoalScheduleHistory();
+  const overrides = new Map(listGoalOverrides().map((o) => [o.date, o.profile]));
+  const cache = new Map<string, Goal[]>();
+
+  function scheduledProfile(weekday: Weekday, date: string): string {
+    // Unlike goals, a schedule only applies from its effective date
+    let profile = DEFAULT_GOAL_PROFILE;
+    for (const s of schedule) {
+      if (s.weekday === weekday && s.effectiveFrom <= date) profile = s.profile;
+    }
+    return profile;
+  }
+
+  function profileOn(date: string): string {
+    const override = overrides.get(date);
+    if (override) return override;
+    const [y, m, d] = date.split("-").map((n) => parseInt(n, 10));
+    return scheduledProfile(WEEKDAYS[new Date(y!, m! - 1, d!).getDay()]!, date);
+  }
+
+  return {
+    profileOn,
+    goalsOn(date) {
+      let goals = cache.get(date);
+      if (!goals) {
+        goals = goalsInForce(history, date, profileOn(date));
+        cache.set(date, goals);
+      }
+      return goals;
+    },
+    scheduleOn(date) {
+      return Object.fromEntries(WEEKDAYS.map((w) => [w, scheduledProfile(w, date)])) as Record<Weekday, string>;
+    },
+  };
+}
+
+// ---- Profile ----
+
+/** Personal details used to pick reference intakes; unset fields are null */
+export interface Profile {
+  age: number | null;
+  sex: Sex | null;
+  lifeStage: LifeStage | null;
+  heightCm: number | null;
+}
+
+const VALID_SEXES = new Set(["male", "female"]);
+const VALID_LIFE_STAGES = new Set(["pregnant", "lactating"]);
+
+export function getProfile(): Profile {
+  const db = getDb();
+  const rows = db.query("SELECT key, value FROM profile").all() as Array<{ key: string; value: string }>;
+  const values = new Map(rows.map((r) => [r.key, r.value]));
+  const age = values.get("age");
+  const heightCm = values.get("heightCm");
+  return {
+    age: age === undefined ? null : parseFloat(age),
+    sex: (values.get("sex") as Sex | undefined) ?? null,
+    lifeStage: (values.get("lifeStage") as LifeStage | undefined) ?? null,
+    heightCm: heightCm === undefined ? null : parseFloat(heightCm),
+  };
+}
+
+/** Set the given fields; null clears one */
+export function updateProfile(changes: Partial<Profile>): Profile {
+  if (changes.age != null && (!Number.isFinite(changes.age) || changes.age < 1 || changes.age > 120)) {
+    throw new Error(`Invalid age "${changes.age}". Must be between 1 and 120.`);
+  }
+  if (changes.sex != null && !VALID_SEXES.has(changes.sex)) {
+    throw new Error(`Invalid sex "${changes.sex}". Must be male or female.`);
+  }
+  if (changes.lifeStage != null && !VALID_LIFE_STAGES.has(changes.lifeStage)) {
+    throw new Error(`Invalid life stage "${changes.lifeStage}". Must be pregnant, lactating or none.`);
+  }
+  if (changes.heightCm != null && (!Number.isFinite(changes.heightCm) || changes.heightCm < 50 || changes.heightCm > 275)) {
+    throw new Error(`Invalid height "${changes.heightCm}". Must be between 50 and 275 cm.`);
+  }
+  const merged = { ...getProfile(), ...changes };
+  if (merged.lifeStage && merged.sex === "male") {
+    throw new Error("Pregnancy and lactation apply to the female reference groups. Use --life-stage none.");
+  }
+
+  const db = getDb();
+  db.transaction(() => {
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === undefined) continue;
+      if (value === null) {
+        db.query("DELETE FROM profile WHERE key = ?").run(key);
+      } else {
+        db.query(
+          `INSERT INTO profile (key, value, updated_at) VALUES (?, ?, datetime('now'))
+           ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`
+        ).run(key, String(value));
+      }
+    }
+  })();
+
+  return getProfile();
+}
+
+export function resetProfile(): void {
+  const db = getDb();
+  db.query("DELETE FROM profile").run();
+}
+
+/** The profile as a DRI profile, or null until both age and sex are set */
+export function getDriProfile(): DriProfile | null {
+  const profile = getProfile();
+  if (profile.age === null || profile.sex === null) return null;
+  return { age: profile.age, sex: profile.sex, lifeStage: profile.lifeStage };
+}
+
+// ---- Weigh-ins ----
+//
+// Stored in kg and cm whatever they were entered in; `unit` remembers the entry unit
+// for display. The smoothed trend lives in src/weight.ts.
+
+export interface WeighIn {
+  id: string;
+  weighedAt: string;
+  weightKg: number;
+  unit: WeightUnit;
+  bodyFatPct: number | null;
+  waistCm: number | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface WeighInInput {
+  weighedAt: string;
+  weightKg: number;
+  unit: WeightUnit;
+  bodyFatPct: number | null;
+  waistCm: number | null;
+  notes: string | null;
+}
+
+interface WeighInRow {
+  id: string;
+  weighed_at: string;
+  weight_kg: number;
+  unit: string;
+  body_fat_pct: number | null;
+  waist_cm: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+const WEIGH_IN_COLUMNS = "id, weighed_at, weight_kg, unit, body_fat_pct, waist_cm, notes, created_at";
+
+function rowToWeighIn(row: WeighInRow): WeighIn {
+  return {
+    id: row.id,
+    weighedAt: row.weighed_at,
+    weightKg: row.weight_kg,
+    unit: row.unit === "lb" ? "lb" : "kg",
+    bodyFatPct: row.body_fat_pct,
+    waistCm: row.waist_cm,
+    notes: row.notes,
+    createdAt: row.created_at,
+  };
+}
+
+function validateWeighIn(input: WeighInInput): void {
+  if (!isWeightInRange(input.weightKg, "kg")) {
+    throw new Error(`Invalid weight "${input.weightKg}". Must be a positive number.`);
+  }
+  if (input.bodyFatPct !== null && (!Number.isFinite(input.bodyFatPct) || input.bodyFatPct < 1 || input.bodyFatPct > 75)) {
+    throw new Error(`Invalid body fat "${input.bodyFatPct}". Must be a percentage between 1 and 75.`);
+  }
+  if (input.waistCm !== null && (!Number.isFinite(input.waistCm) || input.waistCm <= 0)) {
+    throw new Error(`Invalid waist "${input.waistCm}". Must be a positive number.`);
+  }
+}
+
+export function addWeighIn(input: WeighInInput): WeighIn {
+  validateWeighIn(input);
+  const db = getDb();
+  const id = crypto.randomUUID();
+  db.query(`
+    INSERT INTO weigh_ins (id, weighed_at, weight_kg, unit, body_fat_pct, waist_cm, notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, input.weighedAt, input.weightKg, input.unit, input.bodyFatPct, input.waistCm, input.notes);
+  return getWeighInById(id)!;
+}
+
+export function getWeighInById(id: string): WeighIn | null {
+  const db = getDb();
+  const row = db.query(`SELECT ${WEIGH_IN_COLUMNS} FROM weigh_ins WHERE id = ?`).get(id) as WeighInRow | null;
+  return row ? rowToWeighIn(row) : null;
+}
+
+/** Most recent first */
+export function listWeighIns(options: { limit?: number; offset?: number } = {}): WeighIn[] {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT ${WEIGH_IN_COLUMNS}
+    FROM weigh_ins
+    ORDER BY weighed_at DESC, created_at DESC
+    LIMIT ?
+    OFFSET ?
+  `).all(options.limit ?? 20, options.offset ?? 0) as WeighInRow[];
+  return rows.map(rowToWeighIn);
+}
+
+/** Every weigh-in, oldest first, for the trend */
+export function getAllWeighIns(): WeighIn[] {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT ${WEIGH_IN_COLUMNS}
+    FROM weigh_ins
+    ORDER BY weighed_at ASC, created_at ASC
+  `).all() as WeighInRow[];
+  return rows.map(rowToWeighIn);
+}
+
+export function updateWeighIn(id: string, input: WeighInInput): boolean {
+  validateWeighIn(input);
+  const db = getDb();
+  const result = db.query(`
+    UPDATE weigh_ins SET weighed_at = ?, weight_kg = ?, unit = ?, body_fat_pct = ?, waist_cm = ?, notes = ?
+    WHERE id = ?
+  `).run(input.weighedAt, input.weightKg, input.unit, input.bodyFatPct, input.waistCm, input.notes, id);
+  return result.changes > 0;
+}
+
+export function deleteWeighIn(id: string): boolean {
+  const db = getDb();
+  return db.query("DELETE FROM weigh_ins WHERE id = ?").run(id).changes > 0;
 }
 
 // ---- Daily Totals (all days) ----
@@ -1155,7 +3629,30 @@ export interface DailyTotal {
   carbs: number;
   fat: number;
   netCarbs: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
   mealCount: number;
+  nutrients: NutrientMap;
+}
+
+/** Nutrient maps summed per day for the meals matching `where` */
+function sumNutrientsByDate(where: string, params: string[]): Map<string, NutrientMap> {
+  const db = getDb();
+  const rows = db.query(`
+    SELECT date(meals.logged_at) as date, n.key as key, SUM(n.value) as total
+    FROM meals, json_each(meals.nutrients) n
+    WHERE meals.nutrients IS NOT NULL AND ${where}
+    GROUP BY date(meals.logged_at), n.key
+  `).all(...params) as Array<{ date: string; key: string; total: number }>;
+
+  const byDate = new Map<string, NutrientMap>();
+  for (const r of rows) {
+    const map = byDate.get(r.date) ?? {};
+    map[r.key] = r.total;
+    byDate.set(r.date, map);
+  }
+  return byDate;
 }
 
 export function getAllDailyTotals(): DailyTotal[] {
@@ -1168,6 +3665,9 @@ export function getAllDailyTotals(): DailyTotal[] {
       COALESCE(SUM(carbs), 0) as carbs,
       COALESCE(SUM(fat), 0) as fat,
       COALESCE(SUM(CASE WHEN carbs IS NULL THEN 0 ELSE carbs - COALESCE(fiber_g, 0) END), 0) as net_carbs,
+      COALESCE(SUM(fiber_g), 0) as fiber,
+      COALESCE(SUM(sugar_g), 0) as sugar,
+      COALESCE(SUM(sodium_mg), 0) as sodium,
       COUNT(*) as meal_count
     FROM meals
     GROUP BY date(logged_at)
@@ -1179,9 +3679,14 @@ export function getAllDailyTotals(): DailyTotal[] {
     carbs: number;
     fat: number;
     net_carbs: number;
+    fiber: number;
+    sugar: number;
+    sodium: number;
     meal_count: number;
   }>;
 
+  const nutrientsByDate = sumNutrientsByDate("1 = 1", []);
+
   return rows.map((r) => ({
     date: r.date,
     calories: roundNutrition(r.calories),
@@ -1189,7 +3694,11 @@ export function getAllDailyTotals(): DailyTotal[] {
     carbs: roundNutrition(r.carbs),
     fat: roundNutrition(r.fat),
     netCarbs: roundNutrition(r.net_carbs),
+    fiber: roundNutrition(r.fiber),
+    sugar: roundNutrition(r.sugar),
+    sodium: roundNutrition(r.sodium),
     mealCount: r.meal_count,
+    nutrients: sumNutrients([nutrientsByDate.get(r.date) ?? {}]),
   }));
 }
 
@@ -1198,7 +3707,10 @@ export function getAllDailyTotals(): DailyTotal[] {
 export interface TrendData {
   days: number;
   period: { from: string; to: string };
-  averages: { calories: number; protein: number; carbs: number; fat: number; netCarbs: number; daysWithData: number };
+  averages: {
+    calories: number; protein: number; carbs: number; fat: number; netCarbs: number;
+    fiber: number; sugar: number; sodium: number; nutrients: NutrientMap; daysWithData: number;
+  };
   daily: Array<{
     date: string;
     calories: number;
@@ -1206,7 +3718,11 @@ export interface TrendData {
     carbs: number;
     fat: number;
     netCarbs: number;
+    fiber: number;
+    sugar: number;
+    sodium: number;
     mealCount: number;
+    nutrients: NutrientMap;
   }>;
 }
 
@@ -1246,6 +3762,9 @@ export function getTrendData(days: number): TrendData {
       COALESCE(SUM(carbs), 0) as carbs,
       COALESCE(SUM(fat), 0) as fat,
       COALESCE(SUM(CASE WHEN carbs IS NULL THEN 0 ELSE carbs - COALESCE(fiber_g, 0) END), 0) as net_carbs,
+      COALESCE(SUM(fiber_g), 0) as fiber,
+      COALESCE(SUM(sugar_g), 0) as sugar,
+      COALESCE(SUM(sodium_mg), 0) as sodium,
       COUNT(*) as meal_count
     FROM meals
     WHERE date(logged_at) >= date(?) AND date(logged_at) <= date(?)
@@ -1258,9 +3777,17 @@ export function getTrendData(days: number): TrendData {
     carbs: number;
     fat: number;
     net_carbs: number;
+    fiber: number;
+    sugar: number;
+    sodium: number;
     meal_count: number;
   }>;
 
+  const nutrientsByDate = sumNutrientsByDate(
+    "date(meals.logged_at) >= date(?) AND date(meals.logged_at) <= date(?)",
+    [fromStr, toStr],
+  );
+
   const daily = rows.map(r => ({
     date: r.date,
     calories: roundNutrition(r.calories),
@@ -1268,7 +3795,11 @@ export function getTrendData(days: number): TrendData {
     carbs: roundNutrition(r.carbs),
     fat: roundNutrition(r.fat),
     netCarbs: roundNutrition(r.net_carbs),
+    fiber: roundNutrition(r.fiber),
+    sugar: roundNutrition(r.sugar),
+    sodium: roundNutrition(r.sodium),
     mealCount: r.meal_count,
+    nutrients: sumNutrients([nutrientsByDate.get(r.date) ?? {}]),
   }));
 
   const daysWithData = daily.length;
@@ -1279,9 +3810,13 @@ export function getTrendData(days: number): TrendData {
       carbs: roundNutrition(daily.reduce((s, d) => s + d.carbs, 0) / daysWithData),
       fat: roundNutrition(daily.reduce((s, d) => s + d.fat, 0) / daysWithData),
       netCarbs: roundNutrition(daily.reduce((s, d) => s + d.netCarbs, 0) / daysWithData),
+      fiber: roundNutrition(daily.reduce((s, d) => s + d.fiber, 0) / daysWithData),
+      sugar: roundNutrition(daily.reduce((s, d) => s + d.sugar, 0) / daysWithData),
+      sodium: roundNutrition(daily.reduce((s, d) => s + d.sodium, 0) / daysWithData),
+      nutrients: scaleNutrients(sumNutrients(daily.map((d) => d.nutrients)), 1 / daysWithData),
       daysWithData,
     }
-    : { calories: 0, protein: 0, carbs: 0, fat: 0, netCarbs: 0, daysWithData: 0 };
+    : { calories: 0, protein: 0, carbs: 0, fat: 0, netCarbs: 0, fiber: 0, sugar: 0, sodium: 0, nutrients: {}, daysWithData: 0 };
 
   return { days, period: { from: fromStr, to: toStr }, averages, daily };
 }
@@ -1313,8 +3848,14 @@ export function getRecipeSuggestions(days: number, minOccurrences: number = 3, l
         ON date(a.logged_at) = date(b.logged_at)
         AND a.id < b.id
         AND a.food_name != b.food_name
-       AND a.meal_type = b.meal_type
-       AND ABS(strftime('%s', a.logged_at) - strftime('%s', b.logged_at)) <= 7200
+        AND (
+          -- Explicit meal groups are authoritative; fall back to the time-window guess otherwise
+          CASE WHEN a.group_id IS NOT NULL AND b.group_id IS NOT NULL
+            THEN a.group_id = b.group_id
+            ELSE a.meal_type = b.meal_type
+              AND ABS(strftime('%s', a.logged_at) - strftime('%s', b.logged_at)) <= 7200
+          END
+        )
       WHERE date(a.logged_at) >= date(?) AND date(a.logged_at) <= date(?)
       GROUP BY meal_date, food_a, food_b
     )
@@ -12,6 +12,7 @@ import { Database } from "bun:sqlite";
 import { existsSync, mkdirSync, statSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import { NUTRIENTS } from "../nutrients";
 
 function getDefaultDataDir(): string {
   if (process.platform === "win32") {
@@ -25,7 +26,7 @@ const SRC_DB = join(DATA_DIR, "usda", "usda_fdc.sqlite");
 const OUT_DIR = join(import.meta.dir, "..", "..", "data");
 const OUT_DB = join(OUT_DIR, "usda_fdc.sqlite");
 
-// Nutrients the CLI actually uses
+// Core nutrients the CLI uses by name
 const KEY_NUTRIENTS: Record<number, string> = {
   1008: "cal",
   1003: "protein",
@@ -34,6 +35,8 @@ const KEY_NUTRIENTS: Record<number, string> = {
   1079: "fiber",
   1063: "sugar",
   1093: "sodium",
+  // Micronutrients and fat breakdown, under their short registry keys
+  ...Object.fromEntries(NUTRIENTS.map((n) => [n.usdaId, n.compact])),
 };
 
 const NUTRIENT_IDS = Object.keys(KEY_NUTRIENTS).join(",");
@@ -0,0 +1,207 @@
+/**
+ * Dietary Reference Intakes for a profile's life-stage group, falling back to the FDA
+ * label Daily Values when there is no profile.
+ */
+
+import { getNutrient } from "./nutrients";
+
+export type Sex = "male" | "female";
+export type LifeStage = "pregnant" | "lactating";
+export type ReferenceKind = "rda" | "ai" | "limit" | "dv";
+
+export interface DriProfile {
+  age: number;
+  sex: Sex;
+  lifeStage: LifeStage | null;
+}
+
+export interface ReferenceValue {
+  key: string;
+  name: string;
+  unit: string;
+  amount: number;
+  kind: ReferenceKind;
+}
+
+export interface ReferenceSet {
+  basis: "dri" | "dv";
+  group: string;
+  values: ReferenceValue[];
+}
+
+export interface DriRow extends ReferenceValue {
+  /** null when no meal had data for the nutrient */
+  intake: number | null;
+  percent: number | null;
+  /** below/met for targets, within/over for limits; unknown when missing data could change it */
+  status: "below" | "met" | "within" | "over" | "unknown";
+  mealsWithData: number;
+}
+
+export interface IntakeCoverage {
+  mealCount: number;
+  withData: Record<string, number>;
+}
+
+const CORE_NUTRIENTS: Record<string, { name: string; unit: string }> = {
+  calories: { name: "Calories", unit: "kcal" },
+  protein: { name: "Protein", unit: "g" },
+  carbs: { name: "Carbohydrate", unit: "g" },
+  fat: { name: "Fat", unit: "g" },
+  fiber: { name: "Fiber", unit: "g" },
+  sodium: { name: "Sodium", unit: "mg" },
+};
+
+// Retinol factor; overstates vitamin A from plant carotenoids
+const RAE_TO_IU = 10 / 3;
+const VITAMIN_D_UG_TO_IU = 40;
+
+// Life-stage groups, in the column order of DRI_TABLE
+const GROUPS = [
+  "child 1-3", "child 4-8",
+  "male 9-13", "male 14-18", "male 19-30", "male 31-50", "male 51-70", "male 71+",
+  "female 9-13", "female 14-18", "female 19-30", "female 31-50", "female 51-70", "female 71+",
+  "pregnant 14-18", "pregnant 19-30", "pregnant 31-50",
+  "lactating 14-18", "lactating 19-30", "lactating 31-50",
+] as const;
+
+type Row = [kind: ReferenceKind, ...values: number[]];
+
+// Columns:       c1-3  c4-8   m9   m14   m19   m31   m51   m71   f9   f14   f19   f31   f51   f71   p14   p19   p31   l14   l19   l31
+const DRI_TABLE: Record<string, Row> = {
+  protein:      ["rda", 13,   19,   34,   52,   56,   56,   56,   56,   34,   46,   46,   46,   46,   46,   71,   71,   71,   71,   71,   71],
+  carbs:        ["rda", 130,  130,  130,  130,  130,  130,  130,  130,  130,  130,  130,  130,  130,  130,  175,  175,  175,  210,  210,  210],
+  fiber:        ["ai",  19,   25,   31,   38,   38,   38,   30,   30,   26,   26,   25,   25,   21,   21,   28,   28,   28,   29,   29,   29],
+  sodium:       ["limit", 1200, 1500, 1800, 2300, 2300, 2300, 2300, 2300, 1800, 2300, 2300, 2300, 2300, 2300, 2300, 2300, 2300, 2300, 2300, 2300],
+  potassium:    ["ai",  2000, 2300, 2500, 3000, 3400, 3400, 3400, 3400, 2300, 2300, 2600, 2600, 2600, 2600, 2600, 2900, 2900, 2500, 2800, 2800],
+  calcium:      ["rda", 700,  1000, 1300, 1300, 1000, 1000, 1000, 1200, 1300, 1300, 1000, 1000, 1200, 1200, 1300, 1000, 1000, 1300, 1000, 1000],
+  iron:         ["rda", 7,    10,   8,    11,   8,    8,    8,    8,    8,    15,   18,   18,   8,    8,    27,   27,   27,   10,   9,    9],
+  magnesium:    ["rda", 80,   130,  240,  410,  400,  420,  420,  420,  240,  360,  310,  320,  320,  320,  400,  350,  360,  360,  310,  320],
+  phosphorus:   ["rda", 460,  500,  1250, 1250, 700,  700,  700,  700,  1250, 1250, 700,  700,  700,  700,  1250, 700,  700,  1250, 700,  700],
+  zinc:         ["rda", 3,    5,    8,    11,   11,   11,   11,   11,   8,    9,    8,    8,    8,    8,    12,   11,   11,   13,   12,   12],
+  copper:       ["rda", 0.34, 0.44, 0.7,  0.89, 0.9,  0.9,  0.9,  0.9,  0.7,  0.89, 0.9,  0.9,  0.9,  0.9,  1,    1,    1,    1.3,  1.3,  1.3],
+  manganese:    ["ai",  1.2,  1.5,  1.9,  2.2,  2.3,  2.3,  2.3,  2.3,  1.6,  1.6,  1.8,  1.8,  1.8,  1.8,  2,    2,    2,    2.6,  2.6,  2.6],
+  selenium:     ["rda", 20,   30,   40,   55,   55,   55,   55,   55,   40,   55,   55,   55,   55,   55,   60,   60,   60,   70,   70,   70],
+  vitaminA:     ["rda", 300,  400,  600,  900,  900,  900,  900,  900,  600,  700,  700,  700,  700,  700,  750,  770,  770,  1200, 1300, 1300],
+  vitaminC:     ["rda", 15,   25,   45,   75,   90,   90,   90,   90,   45,   65,   75,   75,   75,   75,   80,   85,   85,   115,  120,  120],
+  vitaminD:     ["rda", 15,   15,   15,   15,   15,   15,   15,   20,   15,   15,   15,   15,   15,   20,   15,   15,   15,   15,   15,   15],
+  vitaminE:     ["rda", 6,    7,    11,   15,   15,   15,   15,   15,   11,   15,   15,   15,   15,   15,   15,   15,   15,   19,   19,   19],
+  vitaminK:     ["ai",  30,   55,   60,   75,   120,  120,  120,  120,  60,   75,   90,   90,   90,   90,   75,   90,   90,   75,   90,   90],
+  thiamin:      ["rda", 0.5,  0.6,  0.9,  1.2,  1.2,  1.2,  1.2,  1.2,  0.9,  1,    1.1,  1.1,  1.1,  1.1,  1.4,  1.4,  1.4,  1.4,  1.4,  1.4],
+  riboflavin:   ["rda", 0.5,  0.6,  0.9,  1.3,  1.3,  1.3,  1.3,  1.3,  0.9,  1,    1.1,  1.1,  1.1,  1.1,  1.4,  1.4,  1.4,  1.6,  1.6,  1.6],
+  niacin:       ["rda", 6,    8,    12,   16,   16,   16,   16,   16,   12,   14,   14,   14,   14,   14,   18,   18,   18,   17,   17,   17],
+  vitaminB6:    ["rda", 0.5,  0.6,  1,    1.3,  1.3,  1.3,  1.7,  1.7,  1,    1.2,  1.3,  1.3,  1.5,  1.5,  1.9,  1.9,  1.9,  2,    2,    2],
+  folate:       ["rda", 150,  200,  300,  400,  400,  400,  400,  400,  300,  400,  400,  400,  400,  400,  600,  600,  600,  500,  500,  500],
+  vitaminB12:   ["rda", 0.9,  1.2,  1.8,  2.4,  2.4,  2.4,  2.4,  2.4,  1.8,  2.4,  2.4,  2.4,  2.4,  2.4,  2.6,  2.6,  2.6,  2.8,  2.8,  2.8],
+  choline:      ["ai",  200,  250,  375,  550,  550,  550,  550,  550,  375,  400,  425,  425,  425,  425,  450,  450,  450,  550,  550,  550],
+};
+
+// FDA label Daily Values for adults and children 4+ (21 CFR 101.9)
+const DAILY_VALUES: Record<string, [kind: ReferenceKind, amount: number]> = {
+  calories: ["dv", 2000],
+  protein: ["dv", 50],
+  carbs: ["dv", 275],
+  fat: ["dv", 78],
+  saturatedFat: ["limit", 20],
+  cholesterol: ["limit", 300],
+  fiber: ["dv", 28],
+  sodium: ["limit", 2300],
+  potassium: ["dv", 4700],
+  calcium: ["dv", 1300],
+  iron: ["dv", 18],
+  magnesium: ["dv", 420],
+  phosphorus: ["dv", 1250],
+  zinc: ["dv", 11],
+  copper: ["dv", 0.9],
+  manganese: ["dv", 2.3],
+  selenium: ["dv", 55],
+  vitaminA: ["dv", 900],
+  vitaminC: ["dv", 90],
+  vitaminD: ["dv", 20],
+  vitaminE: ["dv", 15],
+  vitaminK: ["dv", 120],
+  thiamin: ["dv", 1.2],
+  riboflavin: ["dv", 1.3],
+  niacin: ["dv", 16],
+  vitaminB6: ["dv", 1.7],
+  folate: ["dv", 400],
+  vitaminB12: ["dv", 2.4],
+  choline: ["dv", 550],
+};
+
+function describe(key: string): { name: string; unit: string } {
+  const core = CORE_NUTRIENTS[key];
+  if (core) return core;
+  const nutrient = getNutrient(key);
+  if (!nutrient) throw new Error(`Unknown nutrient: ${key}`);
+  return { name: nutrient.name, unit: nutrient.unit };
+}
+
+/** Tables list vitamin A in µg RAE and vitamin D in µg; intake is tracked in IU */
+function toTrackedUnit(key: string, amount: number): number {
+  if (key === "vitaminA") return Math.round(amount * RAE_TO_IU);
+  if (key === "vitaminD") return amount * VITAMIN_D_UG_TO_IU;
+  return amount;
+}
+
+function reference(key: string, kind: ReferenceKind, amount: number): ReferenceValue {
+  return { key, ...describe(key), amount: toTrackedUnit(key, amount), kind };
+}
+
+export function lifeStageGroup(profile: DriProfile): string {
+  const { age, sex, lifeStage } = profile;
+  if (age < 1) throw new Error("Reference intakes for infants under 1 year are not supported");
+
+  if (lifeStage && sex === "female") {
+    const band = age < 19 ? "14-18" : age < 31 ? "19-30" : "31-50";
+    return `${lifeStage} ${band}`;
+  }
+  if (age < 4) return "child 1-3";
+  if (age < 9) return "child 4-8";
+  const band = age < 14 ? "9-13" : age < 19 ? "14-18" : age < 31 ? "19-30" : age < 51 ? "31-50" : age < 71 ? "51-70" : "71+";
+  return `${sex} ${band}`;
+}
+
+/** Reference values for a profile, or the label Daily Values when there is none */
+export function getReferenceValues(profile: DriProfile | null): ReferenceSet {
+  if (!profile) {
+    return {
+      basis: "dv",
+      group: "FDA Daily Values (adults and children 4+)",
+      values: Object.entries(DAILY_VALUES).map(([key, [kind, amount]]) => reference(key, kind, amount)),
+    };
+  }
+
+  const group = lifeStageGroup(profile);
+  const column = GROUPS.indexOf(group as (typeof GROUPS)[number]);
+  return {
+    basis: "dri",
+    group,
+    values: Object.entries(DRI_TABLE).map(([key, [kind, ...values]]) => reference(key, kind, values[column]!)),
+  };
+}
+
+/**
+ * Compare intake (core totals plus the nutrient map) against a reference set. Meals
+ * without data for a nutrient leave its total a lower bound, so it can still be met or
+ * over, but not below or within.
+ */
+export function compareToReference(
+  intake: Record<string, number>,
+  references: ReferenceSet,
+  coverage: IntakeCoverage
+): DriRow[] {
+  return references.values.map((ref) => {
+    const mealsWithData = coverage.withData[ref.key] ?? 0;
+    if (mealsWithData === 0 && coverage.mealCount > 0) {
+      return { ...ref, intake: null, percent: null, status: "unknown", mealsWithData };
+    }
+    const amount = Math.round((intake[ref.key] ?? 0) * 100) / 100;
+    const percent = Math.round((amount / ref.amount) * 100);
+    const status = ref.kind === "limit"
+      ? (percent > 100 ? "over" : "within")
+      : (percent >= 100 ? "met" : "below");
+    const partial = mealsWithData < coverage.mealCount;
+    return { ...ref, intake: amount, percent, status: partial && (status === "below" || status === "within") ? "unknown" : status, mealsWithData };
+  });
+}
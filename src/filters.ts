@@ -0,0 +1,87 @@
+/**
+ * Nutrient filters and sorts for food search, compared per 100 g or per serving after
+ * converting each food through its measures.
+ */
+
+import type { NutritionValues } from "./db";
+import { CORE_GOAL_KEYS, NUTRIENTS, coreValue, goalFlag } from "./nutrients";
+import { nutritionMultiplier, type FoodMeasures } from "./units";
+
+export type FilterBasis = "100g" | "serving";
+
+export const FILTER_KEYS: string[] = [...CORE_GOAL_KEYS, ...NUTRIENTS.map((n) => n.key)];
+
+export interface NutrientBound {
+  key: string;
+  min: number | null;
+  max: number | null;
+}
+
+export interface NutrientSort {
+  key: string;
+  /** Rank by amount per 100 kcal instead of the amount itself */
+  perCalorie: boolean;
+  ascending: boolean;
+}
+
+/** --min-<key>/--max-<key> flags; `invalid` is the first one that isn't a known key with a number */
+export function readNutrientBounds(flags: Record<string, string>): { bounds: NutrientBound[]; invalid: string | null } {
+  const byFlag = new Map(FILTER_KEYS.map((key) => [goalFlag(key), key]));
+  const bounds = new Map<string, NutrientBound>();
+  for (const [flag, raw] of Object.entries(flags)) {
+    const match = flag.match(/^(min|max)-(.+)$/);
+    if (!match) continue;
+    const key = byFlag.get(match[2]!);
+    const value = parseFloat(raw);
+    if (!key || isNaN(value)) return { bounds: [], invalid: flag };
+    const bound = bounds.get(key) ?? { key, min: null, max: null };
+    bound[match[1] as "min" | "max"] = value;
+    bounds.set(key, bound);
+  }
+  return { bounds: [...bounds.values()], invalid: null };
+}
+
+/** "protein", "fiber-per-calorie" or "vitamin-c"; null when the key is unknown */
+export function parseNutrientSort(value: string, ascending: boolean = false): NutrientSort | null {
+  const perCalorie = value.endsWith("-per-calorie");
+  const name = perCalorie ? value.slice(0, -"-per-calorie".length) : value;
+  const key = FILTER_KEYS.find((k) => k === name || goalFlag(k) === name);
+  if (!key || (perCalorie && key === "calories")) return null;
+  return { key, perCalorie, ascending };
+}
+
+/** Multiples of the stored basis that make up one `basis`; null when the food can't bridge to it */
+export function basisMultiplier(measures: FoodMeasures, basis: FilterBasis): number | null {
+  const attempts: Array<[number, string]> = basis === "serving" ? [[1, "serving"]] : [[100, "g"], [100, "ml"]];
+  for (const [quantity, unit] of attempts) {
+    try {
+      return nutritionMultiplier(measures, quantity, unit);
+    } catch {
+      // Try the next unit
+    }
+  }
+  return null;
+}
+
+export function nutrientValue(values: NutritionValues, key: string): number | null {
+  if (key === "netCarbs") return values.carbs === null ? null : values.carbs - (values.fiber ?? 0);
+  const core = coreValue(values, key);
+  return core !== undefined ? core : values.nutrients[key] ?? null;
+}
+
+// A food missing a nutrient fails any bound on it
+export function matchesBounds(values: NutritionValues, bounds: NutrientBound[]): boolean {
+  return bounds.every((b) => {
+    const value = nutrientValue(values, b.key);
+    if (value === null) return false;
+    return (b.min === null || value >= b.min) && (b.max === null || value <= b.max);
+  });
+}
+
+/** The number a sort ranks by; null when the food lacks it (or has no calories, per calorie) */
+export function sortValue(values: NutritionValues, sort: NutrientSort): number | null {
+  const value = nutrientValue(values, sort.key);
+  if (value === null) return null;
+  if (!sort.perCalorie) return value;
+  return values.calories !== null && values.calories > 0 ? (value / values.calories) * 100 : null;
+}
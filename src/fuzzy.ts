@@ -0,0 +1,56 @@
+/**
+ * Typo tolerance for food search: a word the index doesn't have ("chiken") is swapped for
+ * the closest terms it does, by edit distance with adjacent swaps counted as one edit.
+ */
+
+export interface VocabTerm {
+  term: string;
+  /** Number of indexed rows the term appears in */
+  docs: number;
+}
+
+/** Lowercase and drop diacritics, as the FTS5 unicode61 tokenizer does */
+export function foldTerm(word: string): string {
+  return word.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+// Short words allow fewer edits: "egg" is one edit from a dozen other words
+export function maxEdits(word: string): number {
+  if (word.length <= 3) return 0;
+  return word.length <= 5 ? 1 : 2;
+}
+
+/** Optimal string alignment distance; anything above `max` comes back as `max + 1` */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prevPrev[j - 2]! + 1);
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return Math.min(prev[b.length]!, max + 1);
+}
+
+/** Up to `limit` vocabulary terms within reach of `word`, closest and most common first */
+export function closestTerms(word: string, vocab: VocabTerm[], limit: number = 3): string[] {
+  const folded = foldTerm(word);
+  const max = maxEdits(folded);
+  if (max === 0) return [];
+  return vocab
+    .map((v) => ({ ...v, distance: editDistance(folded, v.term, max) }))
+    .filter((v) => v.distance <= max)
+    .sort((a, b) => a.distance - b.distance || b.docs - a.docs)
+    .slice(0, limit)
+    .map((v) => v.term);
+}
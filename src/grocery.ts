@@ -0,0 +1,95 @@
+/**
+ * Shopping list from planned meals: recipes broken into scaled ingredients, one line per
+ * food, amounts in the unit the food is bought by.
+ */
+
+import { getStandardUnit, normalizeUnit, nutritionMultiplier, type FoodMeasures, type Measure } from "./units";
+
+/** One ingredient (or planned food) needed for one planned meal */
+export interface GroceryNeed {
+  source: "usda" | "custom" | "recipe" | "manual";
+  /** fdcId, custom food id or recipe id; null for manual items */
+  refId: string | null;
+  name: string;
+  quantity: number;
+  unit: string;
+  /** The planned recipe this ingredient is for; null when the food itself was planned */
+  recipe: string | null;
+  plannedFor: string;
+  /** The food's serving data, when it is a USDA or custom food */
+  measures: FoodMeasures | null;
+}
+
+export interface GroceryItem {
+  source: GroceryNeed["source"];
+  refId: string | null;
+  name: string;
+  quantities: Measure[];
+  recipes: string[];
+  dates: string[];
+}
+
+function round(value: number, places: number): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+/** Express a g or ml total in the unit it would be bought in */
+export function toPurchaseUnit(amount: number, unit: "g" | "ml"): Measure {
+  if (amount >= 1000) return { amount: round(amount / 1000, 2), unit: unit === "g" ? "kg" : "l" };
+  return { amount: round(amount, amount >= 100 ? 0 : amount >= 1 ? 1 : 2), unit };
+}
+
+/** g or ml, whichever the food's nutrition is measured by; null when it only knows servings */
+function purchaseBase(measures: FoodMeasures): "g" | "ml" | null {
+  return measures.basis.unit !== "serving" ? measures.basis.unit : measures.serving?.unit ?? null;
+}
+
+// Peanut butter planned in cups is bought by weight, so go through its serving data
+function toPurchaseBase(need: GroceryNeed): Measure | null {
+  const base = need.measures ? purchaseBase(need.measures) : null;
+  if (!base) return null;
+  try {
+    const amount = nutritionMultiplier(need.measures!, need.quantity, need.unit) / nutritionMultiplier(need.measures!, 1, base);
+    return { amount, unit: base };
+  } catch {
+    return null;
+  }
+}
+
+function needKey(need: GroceryNeed): string {
+  return need.refId !== null ? `${need.source}:${need.refId}` : `name:${need.name.trim().toLowerCase()}`;
+}
+
+/** Merge needs into one line per food, in the order foods are first needed */
+export function buildGroceryList(needs: GroceryNeed[]): GroceryItem[] {
+  const items = new Map<string, { item: GroceryItem; amounts: Map<string, number> }>();
+
+  for (const need of needs) {
+    const key = needKey(need);
+    let entry = items.get(key);
+    if (!entry) {
+      entry = {
+        item: { source: need.source, refId: need.refId, name: need.name, quantities: [], recipes: [], dates: [] },
+        amounts: new Map(),
+      };
+      items.set(key, entry);
+    }
+
+    const standard = getStandardUnit(need.unit);
+    const { amount, unit } = toPurchaseBase(need) ?? (standard
+      ? { amount: need.quantity * standard.factor, unit: standard.dimension === "mass" ? "g" : "ml" }
+      : { amount: need.quantity, unit: normalizeUnit(need.unit) });
+    entry.amounts.set(unit, (entry.amounts.get(unit) ?? 0) + amount);
+
+    if (need.recipe && !entry.item.recipes.includes(need.recipe)) entry.item.recipes.push(need.recipe);
+    if (!entry.item.dates.includes(need.plannedFor)) entry.item.dates.push(need.plannedFor);
+  }
+
+  return [...items.values()].map(({ item, amounts }) => ({
+    ...item,
+    quantities: [...amounts].map(([unit, amount]) =>
+      unit === "g" || unit === "ml" ? toPurchaseUnit(amount, unit) : { amount: round(amount, 2), unit }
+    ),
+  }));
+}
@@ -0,0 +1,196 @@
+/**
+ * Registry of nutrients beyond the core columns. They travel as a `nutrients` map, stored
+ * as JSON in the app database and under `compact` keys in the USDA `data` column.
+ */
+
+export interface NutrientDef {
+  key: string;
+  name: string;
+  unit: "g" | "mg" | "µg" | "IU";
+  /** FoodData Central nutrient id */
+  usdaId: number;
+  /** Key in the compact USDA database */
+  compact: string;
+  /** CLI flag, e.g. --saturated-fat */
+  flag: string;
+}
+
+export type NutrientMap = Record<string, number>;
+
+function def(key: string, name: string, unit: NutrientDef["unit"], usdaId: number, compact: string): NutrientDef {
+  return { key, name, unit, usdaId, compact, flag: key.replace(/[A-Z0-9]+/g, (m) => `-${m.toLowerCase()}`) };
+}
+
+export const NUTRIENTS: NutrientDef[] = [
+  def("saturatedFat", "Saturated fat", "g", 1258, "sfa"),
+  def("monounsaturatedFat", "Monounsaturated fat", "g", 1292, "mufa"),
+  def("polyunsaturatedFat", "Polyunsaturated fat", "g", 1293, "pufa"),
+  def("transFat", "Trans fat", "g", 1257, "tfa"),
+  def("cholesterol", "Cholesterol", "mg", 1253, "chol"),
+  def("sugarAlcohols", "Sugar alcohols", "g", 1086, "salc"),
+  def("calcium", "Calcium", "mg", 1087, "ca"),
+  def("iron", "Iron", "mg", 1089, "fe"),
+  def("magnesium", "Magnesium", "mg", 1090, "mg"),
+  def("phosphorus", "Phosphorus", "mg", 1091, "p"),
+  def("potassium", "Potassium", "mg", 1092, "k"),
+  def("zinc", "Zinc", "mg", 1095, "zn"),
+  def("copper", "Copper", "mg", 1098, "cu"),
+  def("manganese", "Manganese", "mg", 1101, "mn"),
+  def("selenium", "Selenium", "µg", 1103, "se"),
+  def("vitaminA", "Vitamin A", "IU", 1104, "va"),
+  def("vitaminC", "Vitamin C", "mg", 1162, "vc"),
+  def("vitaminD", "Vitamin D", "IU", 1110, "vd"),
+  def("vitaminE", "Vitamin E", "mg", 1109, "ve"),
+  def("vitaminK", "Vitamin K", "µg", 1183, "vk"),
+  def("thiamin", "Thiamin (B1)", "mg", 1165, "b1"),
+  def("riboflavin", "Riboflavin (B2)", "mg", 1166, "b2"),
+  def("niacin", "Niacin (B3)", "mg", 1167, "b3"),
+  def("vitaminB6", "Vitamin B6", "mg", 1175, "b6"),
+  def("folate", "Folate", "µg", 1177, "fol"),
+  def("vitaminB12", "Vitamin B12", "µg", 1178, "b12"),
+  def("choline", "Choline", "mg", 1180, "chl"),
+];
+
+/** Core nutrition columns goals can target, ahead of every registry nutrient */
+export const CORE_GOAL_KEYS = ["calories", "protein", "carbs", "fat", "netCarbs", "fiber", "sugar", "sodium"] as const;
+
+export type CoreGoalKey = (typeof CORE_GOAL_KEYS)[number];
+
+export function isCoreGoalKey(key: string): key is CoreGoalKey {
+  return (CORE_GOAL_KEYS as readonly string[]).includes(key);
+}
+
+/** A core column out of totals or nutrition values; undefined for other keys or when the record lacks it */
+export function coreValue(values: Partial<Record<CoreGoalKey, number | null>>, key: string): number | null | undefined {
+  return isCoreGoalKey(key) ? values[key] : undefined;
+}
+
+/** Percent of energy from each macro; set together by `goals --split` (see src/split.ts) */
+export const SPLIT_GOAL_KEYS = { carbs: "carbsPercent", protein: "proteinPercent", fat: "fatPercent" } as const;
+
+export const GOAL_KEYS: string[] = [...CORE_GOAL_KEYS, ...Object.values(SPLIT_GOAL_KEYS), ...NUTRIENTS.map((n) => n.key)];
+
+// Registry nutrients where less is better; goals on them default to "under"
+const LIMIT_NUTRIENTS = new Set(["saturatedFat", "transFat", "cholesterol"]);
+
+export function isLimitNutrient(key: string): boolean {
+  return LIMIT_NUTRIENTS.has(key);
+}
+
+const BY_KEY = new Map(NUTRIENTS.map((n) => [n.key, n]));
+const BY_COMPACT = new Map(NUTRIENTS.map((n) => [n.compact, n]));
+
+export function getNutrient(key: string): NutrientDef | null {
+  return BY_KEY.get(key) ?? null;
+}
+
+/** Pick registry nutrients out of a compact USDA `data` object */
+export function nutrientsFromCompact(data: Record<string, unknown>): NutrientMap {
+  const map: NutrientMap = {};
+  for (const [compact, value] of Object.entries(data)) {
+    const nutrient = BY_COMPACT.get(compact);
+    if (nutrient && typeof value === "number") map[nutrient.key] = value;
+  }
+  return map;
+}
+
+/** Parse a stored JSON nutrients column, dropping anything unknown or non-numeric */
+export function parseNutrients(json: string | null | undefined): NutrientMap {
+  if (!json) return {};
+  return readNutrientMap(JSON.parse(json));
+}
+
+/** Keep the known, numeric entries of an untrusted nutrients object */
+export function readNutrientMap(raw: unknown): NutrientMap {
+  const map: NutrientMap = {};
+  if (typeof raw !== "object" || raw === null) return map;
+  for (const [key, value] of Object.entries(raw)) {
+    if (BY_KEY.has(key) && typeof value === "number" && Number.isFinite(value)) map[key] = value;
+  }
+  return map;
+}
+
+/** Serialize for storage; empty maps are stored as NULL */
+export function serializeNutrients(map: NutrientMap | null | undefined): string | null {
+  if (!map || Object.keys(map).length === 0) return null;
+  return JSON.stringify(map);
+}
+
+export function scaleNutrients(map: NutrientMap, multiplier: number): NutrientMap {
+  const scaled: NutrientMap = {};
+  for (const [key, value] of Object.entries(map)) {
+    scaled[key] = roundAmount(value * multiplier);
+  }
+  return scaled;
+}
+
+export function sumNutrients(maps: NutrientMap[]): NutrientMap {
+  const total: NutrientMap = {};
+  for (const map of maps) {
+    for (const [key, value] of Object.entries(map)) total[key] = (total[key] ?? 0) + value;
+  }
+  for (const key of Object.keys(total)) total[key] = roundAmount(total[key]!);
+  return total;
+}
+
+/** Round to 2 decimals so µg-scale amounts (B12, selenium) survive scaling */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Read --<nutrient> flags; a flag without a number clears the nutrient (null) */
+export function nutrientsFromFlags(flags: Record<string, string>): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+  for (const nutrient of NUTRIENTS) {
+    const raw = flags[nutrient.flag];
+    if (raw === undefined) continue;
+    const n = parseFloat(raw);
+    values[nutrient.key] = isNaN(n) ? null : n;
+  }
+  return values;
+}
+
+/** Apply flag values (numbers set, nulls clear) on top of an existing map */
+export function mergeNutrients(base: NutrientMap, changes: Record<string, number | null>): NutrientMap {
+  const merged: NutrientMap = { ...base };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+  return merged;
+}
+
+/** "Iron 2.1 mg | Potassium 310 mg", in registry order */
+export function formatNutrients(map: NutrientMap): string {
+  return NUTRIENTS
+    .filter((n) => map[n.key] !== undefined)
+    .map((n) => `${n.name} ${map[n.key]} ${n.unit}`)
+    .join(" | ");
+}
+
+/** Flag list for help text, wrapped and indented */
+export function describeNutrientFlags(indent: string, width: number = 80): string {
+  const lines: string[] = [];
+  let line = "";
+  for (const item of NUTRIENTS.map((n) => `--${n.flag} (${n.unit})`)) {
+    const next = line ? `${line}, ${item}` : item;
+    if (indent.length + next.length + 1 > width && line) {
+      lines.push(`${indent}${line},`);
+      line = item;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(`${indent}${line}`);
+  return lines.join("\n");
+}
+
+/** CLI flag for a goal key: core keys keep their names (--netCarbs), nutrients use theirs (--vitamin-c) */
+export function goalFlag(key: string): string {
+  return BY_KEY.get(key)?.flag ?? key;
+}
+
+export function goalLabel(key: string): string {
+  if (key.endsWith("Percent")) return `${goalLabel(key.slice(0, -"Percent".length))} %`;
+  return BY_KEY.get(key)?.name ?? key.charAt(0).toUpperCase() + key.slice(1);
+}
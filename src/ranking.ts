@@ -0,0 +1,68 @@
+/**
+ * Personalized ranking for food search: a text score from each result's place in its own
+ * index (bm25 isn't comparable across indexes) plus a decaying score for past logs.
+ */
+
+import { daysBetween } from "./dates";
+import type { MatchType } from "./db";
+
+export const HISTORY_HALF_LIFE_DAYS = 30;
+
+// Weight of log1p(history) against a top text score of 1: a food logged weekly for a
+// couple of months outranks the best text match it hasn't been logged against
+const HISTORY_WEIGHT = 0.5;
+
+const MATCH_WEIGHT: Record<MatchType, number> = { exact: 1, prefix: 0.8, fuzzy: 0.6, browse: 1, none: 0 };
+
+export interface RankCandidate<T> {
+  item: T;
+  /** fdcId or custom food id, as stored in meals.food_id */
+  foodId: string;
+  name: string;
+  matchType: MatchType;
+  /** 0-based place in its own source's FTS order */
+  position: number;
+}
+
+export interface LoggedFood {
+  foodId: string | null;
+  name: string;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+export interface Ranked<T> {
+  item: T;
+  score: number;
+}
+
+// Prefix and fuzzy matches are discounted against exact ones
+export function textScore(matchType: MatchType, position: number): number {
+  return MATCH_WEIGHT[matchType] / (1 + 0.2 * position);
+}
+
+/** Sum of each log's weight, halving every HISTORY_HALF_LIFE_DAYS before `today` */
+export function historyScore(days: string[], today: string): number {
+  return days.reduce((sum, day) => sum + 0.5 ** (Math.max(0, daysBetween(day, today)) / HISTORY_HALF_LIFE_DAYS), 0);
+}
+
+/**
+ * Merge candidates from every source into one list, best first. A meal counts toward a
+ * food through its food id, or, when it was logged without one, by the same name.
+ */
+export function rankResults<T>(candidates: RankCandidate<T>[], history: LoggedFood[], today: string): Ranked<T>[] {
+  const byId = new Map<string, string[]>();
+  const byName = new Map<string, string[]>();
+  for (const log of history) {
+    const [map, key] = log.foodId !== null ? [byId, log.foodId] : [byName, log.name.trim().toLowerCase()];
+    map.set(key, [...(map.get(key) ?? []), log.date]);
+  }
+
+  return candidates
+    .map((c) => {
+      const days = [...(byId.get(c.foodId) ?? []), ...(byName.get(c.name.trim().toLowerCase()) ?? [])];
+      const score = textScore(c.matchType, c.position) + HISTORY_WEIGHT * Math.log1p(historyScore(days, today));
+      return { item: c.item, score: Math.round(score * 1000) / 1000 };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,57 @@
+/**
+ * Macro splits: each macro's share of energy, from grams at 4/4/9 kcal/g or the FAO
+ * modified Atwater factors (fiber at 2 kcal/g).
+ */
+
+import { SPLIT_GOAL_KEYS } from "./nutrients";
+
+export type EnergyFactors = "4-4-9" | "atwater";
+export type SplitMacro = keyof typeof SPLIT_GOAL_KEYS;
+
+/** Percent of energy per macro */
+export type MacroSplit = Record<SplitMacro, number>;
+
+interface MacroGrams {
+  carbs: number;
+  protein: number;
+  fat: number;
+  fiber: number;
+}
+
+export const SPLIT_MACROS: SplitMacro[] = ["carbs", "protein", "fat"];
+
+const FIBER_KCAL = 2;
+
+export function isEnergyFactors(value: string): value is EnergyFactors {
+  return value === "4-4-9" || value === "atwater";
+}
+
+/** "40/30/30" (carbs/protein/fat) -> split; parts must add up to 100 */
+export function parseSplit(value: string): MacroSplit | null {
+  const parts = value.split("/").map((p) => parseFloat(p.trim()));
+  if (parts.length !== 3 || parts.some((p) => isNaN(p) || p < 0)) return null;
+  const [carbs, protein, fat] = parts as [number, number, number];
+  if (Math.abs(carbs + protein + fat - 100) > 0.5) return null;
+  return { carbs, protein, fat };
+}
+
+export function macroEnergy(grams: MacroGrams, factors: EnergyFactors = "4-4-9"): MacroSplit {
+  const carbs = factors === "atwater"
+    ? Math.max(0, grams.carbs - grams.fiber) * 4 + Math.min(grams.fiber, grams.carbs) * FIBER_KCAL
+    : grams.carbs * 4;
+  return { carbs, protein: grams.protein * 4, fat: grams.fat * 9 };
+}
+
+/** Percent of macro energy per macro, 1 decimal; all 0 when nothing was eaten */
+export function macroShares(grams: MacroGrams, factors: EnergyFactors = "4-4-9"): MacroSplit {
+  const energy = macroEnergy(grams, factors);
+  const total = energy.carbs + energy.protein + energy.fat;
+  const share = (kcal: number) => (total > 0 ? Math.round((kcal / total) * 1000) / 10 : 0);
+  return { carbs: share(energy.carbs), protein: share(energy.protein), fat: share(energy.fat) };
+}
+
+/** Gram targets that put a split on a calorie anchor (carbs counted at 4 kcal/g) */
+export function splitToGrams(calories: number, split: MacroSplit): MacroSplit {
+  const grams = (percent: number, kcalPerGram: number) => Math.round((calories * percent) / 100 / kcalPerGram);
+  return { carbs: grams(split.carbs, 4), protein: grams(split.protein, 4), fat: grams(split.fat, 9) };
+}
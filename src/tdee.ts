@@ -0,0 +1,72 @@
+/**
+ * Adaptive TDEE: average logged intake minus the energy of the trend weight change,
+ * over the days that have meals logged (unlogged days are missing, not fasting).
+ */
+
+import { daysBetween } from "./dates";
+import type { TrendPoint } from "./weight";
+
+/** Approximate energy in a kilogram of body weight change */
+export const KCAL_PER_KG = 7700;
+
+/** Minimum logged days, and days between first and last weigh-in, for an estimate */
+export const MIN_TDEE_DAYS = 7;
+
+export interface TdeeEstimate {
+  /** null until there is enough data; see `reason` */
+  tdee: number | null;
+  confidence: number;
+  intakeDays: number;
+  weighInDays: number;
+  averageIntake: number | null;
+  /** Trend change between the first and last weigh-in in the window */
+  trendChangeKg: number | null;
+  trendDays: number;
+  reason?: string;
+}
+
+/** Intake and trend points should already be limited to the window */
+export function estimateTdee(
+  windowDays: number,
+  intake: Array<{ date: string; calories: number }>,
+  trend: TrendPoint[]
+): TdeeEstimate {
+  const intakeDays = intake.length;
+  const averageIntake = intakeDays > 0
+    ? Math.round(intake.reduce((sum, d) => sum + d.calories, 0) / intakeDays)
+    : null;
+  const first = trend[0];
+  const last = trend[trend.length - 1];
+  const trendDays = first && last ? daysBetween(first.date, last.date) : 0;
+  const trendChangeKg = first && last && trendDays > 0 ? Math.round((last.trendKg - first.trendKg) * 100) / 100 : null;
+
+  const base = { intakeDays, weighInDays: trend.length, averageIntake, trendChangeKg, trendDays };
+  if (intakeDays < MIN_TDEE_DAYS) {
+    return { ...base, tdee: null, confidence: 0, reason: `Needs at least ${MIN_TDEE_DAYS} days of logged meals (have ${intakeDays})` };
+  }
+  if (trendDays < MIN_TDEE_DAYS) {
+    return { ...base, tdee: null, confidence: 0, reason: `Needs weigh-ins at least ${MIN_TDEE_DAYS} days apart (span is ${trendDays})` };
+  }
+
+  const dailyStoredKcal = ((last!.trendKg - first!.trendKg) * KCAL_PER_KG) / trendDays;
+  const intakeCoverage = intakeDays / windowDays;
+  // Weighing every third day is as good as daily once smoothed
+  const weighInCoverage = Math.min(1, (trend.length * 3) / windowDays);
+  const spanCoverage = Math.min(1, trendDays / 14);
+  return {
+    ...base,
+    tdee: Math.round(averageIntake! - dailyStoredKcal),
+    confidence: Math.round(intakeCoverage * weighInCoverage * spanCoverage * 100) / 100,
+  };
+}
+
+export function confidenceLevel(confidence: number): "low" | "medium" | "high" {
+  if (confidence >= 0.7) return "high";
+  if (confidence >= 0.4) return "medium";
+  return "low";
+}
+
+/** Daily calories that gain (positive) or lose (negative) `perWeekKg`, to the nearest 10 */
+export function caloriesForRate(tdee: number, perWeekKg: number): number {
+  return Math.round((tdee + (perWeekKg * KCAL_PER_KG) / 7) / 10) * 10;
+}
@@ -0,0 +1,208 @@
+/**
+ * Unit conversion for logging foods by weight, volume, serving or household measure,
+ * bridging to a food's nutrition basis through its serving data ("1 cup" of a food per 100 g).
+ */
+
+export type Dimension = "mass" | "volume";
+
+interface StandardUnit {
+  unit: string;
+  dimension: Dimension;
+  /** Grams (mass) or millilitres (volume) in one unit */
+  factor: number;
+}
+
+const STANDARD_UNITS: StandardUnit[] = [
+  { unit: "g", dimension: "mass", factor: 1 },
+  { unit: "100g", dimension: "mass", factor: 100 },
+  { unit: "kg", dimension: "mass", factor: 1000 },
+  { unit: "mg", dimension: "mass", factor: 0.001 },
+  { unit: "oz", dimension: "mass", factor: 28.3495 },
+  { unit: "lb", dimension: "mass", factor: 453.592 },
+  { unit: "ml", dimension: "volume", factor: 1 },
+  { unit: "l", dimension: "volume", factor: 1000 },
+  { unit: "tsp", dimension: "volume", factor: 4.92892 },
+  { unit: "tbsp", dimension: "volume", factor: 14.7868 },
+  { unit: "fl oz", dimension: "volume", factor: 29.5735 },
+  { unit: "cup", dimension: "volume", factor: 236.588 },
+  { unit: "pint", dimension: "volume", factor: 473.176 },
+  { unit: "quart", dimension: "volume", factor: 946.353 },
+  { unit: "gallon", dimension: "volume", factor: 3785.41 },
+];
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g", grams: "g", gr: "g", grm: "g",
+  kilogram: "kg", kilograms: "kg", kgs: "kg",
+  milligram: "mg", milligrams: "mg",
+  ounce: "oz", ounces: "oz", onz: "oz",
+  pound: "lb", pounds: "lb", lbs: "lb",
+  milliliter: "ml", milliliters: "ml", millilitre: "ml", millilitres: "ml", mlt: "ml",
+  liter: "l", liters: "l", litre: "l", litres: "l",
+  teaspoon: "tsp", teaspoons: "tsp",
+  tablespoon: "tbsp", tablespoons: "tbsp", tbs: "tbsp", tbl: "tbsp",
+  floz: "fl oz", "fl. oz": "fl oz", "fluid ounce": "fl oz", "fluid ounces": "fl oz",
+  cups: "cup",
+  pints: "pint", pt: "pint",
+  quarts: "quart", qt: "quart",
+  gallons: "gallon", gal: "gallon",
+  servings: "serving",
+};
+
+export interface Measure {
+  amount: number;
+  unit: string;
+}
+
+export interface FoodMeasures {
+  /** Amount of food the stored nutrient values describe */
+  basis: { amount: number; unit: "g" | "ml" | "serving" };
+  /** Weight or volume of one serving, when known */
+  serving: { amount: number; unit: "g" | "ml" } | null;
+  /** Household description of one serving, e.g. { amount: 2, unit: "tbsp" } */
+  household: Measure | null;
+}
+
+export function normalizeUnit(unit: string): string {
+  const u = unit.trim().toLowerCase().replace(/\s+/g, " ");
+  return UNIT_ALIASES[u] ?? u;
+}
+
+export function getStandardUnit(unit: string): StandardUnit | null {
+  const u = normalizeUnit(unit);
+  return STANDARD_UNITS.find((s) => s.unit === u) ?? null;
+}
+
+function sameNamedUnit(a: string, b: string): boolean {
+  const x = normalizeUnit(a);
+  const y = normalizeUnit(b);
+  return x === y || `${x}s` === y || `${y}s` === x || `${x}es` === y || `${y}es` === x;
+}
+
+function parseAmount(text: string): number | null {
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return parseInt(mixed[1]!, 10) + parseInt(mixed[2]!, 10) / parseInt(mixed[3]!, 10);
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[1]!, 10) / parseInt(fraction[2]!, 10);
+  const n = parseFloat(text);
+  return isNaN(n) ? null : n;
+}
+
+/** Parse "2 tbsp", "1/2 cup", "1 1/2 cups" or "30g" into an amount and unit */
+export function parseMeasure(text: string | null | undefined): Measure | null {
+  if (!text) return null;
+  const match = text.trim().match(/^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+)\s*([^\d(][^(]*)?/);
+  if (!match) return null;
+  const amount = parseAmount(match[1]!);
+  const unit = (match[2] ?? "").trim().replace(/[.,;]+$/, "");
+  if (amount === null || amount <= 0 || !unit) return null;
+  return { amount, unit: normalizeUnit(unit) };
+}
+
+function toBaseMeasure(measure: Measure): { amount: number; unit: "g" | "ml" } | null {
+  const standard = getStandardUnit(measure.unit);
+  if (!standard) return null;
+  return { amount: measure.amount * standard.factor, unit: standard.dimension === "mass" ? "g" : "ml" };
+}
+
+/** Measures for a USDA food: nutrients are per 100 g, or per 100 ml when the serving is a volume */
+export function usdaFoodMeasures(food: {
+  servingAmount: number | null;
+  servingUnit: string | null;
+  householdServing: string | null;
+}): FoodMeasures {
+  const serving = food.servingAmount !== null && food.servingUnit
+    ? toBaseMeasure({ amount: food.servingAmount, unit: food.servingUnit })
+    : null;
+  return {
+    basis: { amount: 100, unit: serving?.unit === "ml" ? "ml" : "g" },
+    serving,
+    household: parseMeasure(food.householdServing),
+  };
+}
+
+/**
+ * Measures for a custom food: nutrients are per serving, and the free-text serving size
+ * may name a weight ("30g"), a household measure ("1 bottle") or both ("2 tbsp (32 g)").
+ */
+export function customFoodMeasures(servingSize: string | null): FoodMeasures {
+  const measures: FoodMeasures = { basis: { amount: 1, unit: "serving" }, serving: null, household: null };
+  if (!servingSize) return measures;
+
+  const lead = parseMeasure(servingSize.replace(/\(.*\)/, ""));
+  const paren = parseMeasure(servingSize.match(/\(([^)]*)\)/)?.[1]);
+  const leadBase = lead ? toBaseMeasure(lead) : null;
+  const parenBase = paren ? toBaseMeasure(paren) : null;
+
+  if (parenBase) {
+    measures.serving = parenBase;
+    measures.household = lead;
+  } else if (leadBase) {
+    measures.serving = leadBase;
+    measures.household = paren;
+  } else {
+    measures.household = lead ?? paren;
+  }
+  return measures;
+}
+
+export function describeMeasures(m: FoodMeasures): string[] {
+  const units = m.basis.unit === "serving" || m.serving || m.household ? ["serving"] : [];
+  if (m.household && !getStandardUnit(m.household.unit)) units.push(m.household.unit);
+  const dims = new Set<Dimension>();
+  if (m.basis.unit === "g" || m.serving?.unit === "g") dims.add("mass");
+  if (m.basis.unit === "ml" || m.serving?.unit === "ml") dims.add("volume");
+  const householdStandard = m.household ? getStandardUnit(m.household.unit) : null;
+  if (householdStandard) dims.add(householdStandard.dimension);
+  if (dims.has("mass")) units.push("g", "oz");
+  if (dims.has("volume")) units.push("ml", "cup", "tbsp", "tsp");
+  return units;
+}
+
+/** Convert a quantity to servings, or null when the food has no bridge for that unit */
+function toServings(m: FoodMeasures, quantity: number, unit: string): number | null {
+  const u = normalizeUnit(unit);
+  if (u === "serving") return quantity;
+
+  const standard = getStandardUnit(u);
+  if (!standard) {
+    if (m.household && !getStandardUnit(m.household.unit) && sameNamedUnit(m.household.unit, u)) {
+      return quantity / m.household.amount;
+    }
+    return null;
+  }
+
+  const base = quantity * standard.factor;
+  const baseUnit = standard.dimension === "mass" ? "g" : "ml";
+  const householdBase = m.household ? toBaseMeasure(m.household) : null;
+  for (const equivalent of [m.serving, householdBase]) {
+    if (equivalent && equivalent.unit === baseUnit) return base / equivalent.amount;
+  }
+  return null;
+}
+
+/**
+ * How many multiples of the food's nutrition basis `quantity` `unit` represents.
+ * Throws when the food has no serving data that connects the requested unit to its basis.
+ */
+export function nutritionMultiplier(m: FoodMeasures, quantity: number, unit: string, foodName: string = "this food"): number {
+  const u = normalizeUnit(unit);
+  const standard = getStandardUnit(u);
+
+  if (m.basis.unit !== "serving" && standard) {
+    const baseUnit = standard.dimension === "mass" ? "g" : "ml";
+    if (baseUnit === m.basis.unit) return (quantity * standard.factor) / m.basis.amount;
+  }
+
+  const servings = toServings(m, quantity, u);
+  if (servings !== null) {
+    if (m.basis.unit === "serving") return servings / m.basis.amount;
+    const householdBase = m.household ? toBaseMeasure(m.household) : null;
+    for (const equivalent of [m.serving, householdBase]) {
+      if (equivalent && equivalent.unit === m.basis.unit) return (servings * equivalent.amount) / m.basis.amount;
+    }
+  }
+
+  throw new Error(
+    `Cannot convert "${unit}" for ${foodName}. Supported units: ${describeMeasures(m).join(", ")}`
+  );
+}
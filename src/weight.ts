@@ -0,0 +1,99 @@
+/**
+ * Body weight units and the smoothed trend: an exponential moving average over days,
+ * as in The Hacker's Diet. Weigh-ins are stored in kg, waist in cm.
+ */
+
+import { daysBetween } from "./dates";
+
+export type WeightUnit = "kg" | "lb";
+export type LengthUnit = "cm" | "in";
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+
+/** Share of the gap between trend and scale weight closed each day */
+export const TREND_SMOOTHING = 0.1;
+
+/** Days the rate of change is measured over */
+export const RATE_WINDOW_DAYS = 14;
+
+export interface WeightPoint {
+  date: string;
+  weightKg: number;
+}
+
+export interface TrendPoint extends WeightPoint {
+  trendKg: number;
+}
+
+export function isWeightUnit(value: string): value is WeightUnit {
+  return value === "kg" || value === "lb";
+}
+
+export function lengthUnitFor(unit: WeightUnit): LengthUnit {
+  return unit === "lb" ? "in" : "cm";
+}
+
+export const MAX_WEIGHT_KG = 650;
+
+export function isWeightInRange(value: number, unit: WeightUnit): boolean {
+  const kg = toKg(value, unit);
+  return Number.isFinite(kg) && kg > 0 && kg <= MAX_WEIGHT_KG;
+}
+
+export function toKg(value: number, unit: WeightUnit): number {
+  return unit === "lb" ? value * KG_PER_LB : value;
+}
+
+export function fromKg(kg: number, unit: WeightUnit): number {
+  return Math.round((unit === "lb" ? kg / KG_PER_LB : kg) * 10) / 10;
+}
+
+export function toCm(value: number, unit: LengthUnit): number {
+  return unit === "in" ? value * CM_PER_IN : value;
+}
+
+export function fromCm(cm: number, unit: LengthUnit): number {
+  return Math.round((unit === "in" ? cm / CM_PER_IN : cm) * 10) / 10;
+}
+
+/** "180", "180cm" or "71in" to cm; a bare number is in `defaultUnit` */
+export function parseLength(value: string, defaultUnit: LengthUnit): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(cm|in)?$/);
+  if (!match) return null;
+  return toCm(parseFloat(match[1]!), (match[2] as LengthUnit | undefined) ?? defaultUnit);
+}
+
+/** One point per day (mean of that day's weigh-ins) with the trend; a gap of n days is n steps */
+export function weightTrend(points: WeightPoint[], smoothing: number = TREND_SMOOTHING): TrendPoint[] {
+  const byDate = new Map<string, number[]>();
+  for (const p of points) byDate.set(p.date, [...(byDate.get(p.date) ?? []), p.weightKg]);
+
+  const trend: TrendPoint[] = [];
+  for (const date of [...byDate.keys()].sort()) {
+    const weights = byDate.get(date)!;
+    const weightKg = weights.reduce((a, b) => a + b, 0) / weights.length;
+    const prev = trend[trend.length - 1];
+    const trendKg = prev
+      ? weightKg + (prev.trendKg - weightKg) * Math.pow(1 - smoothing, daysBetween(prev.date, date))
+      : weightKg;
+    trend.push({ date, weightKg, trendKg });
+  }
+  return trend;
+}
+
+/**
+ * Change in trend weight per week over the last `windowDays` (measured from the oldest
+ * point inside the window), or null with fewer than two days of weigh-ins
+ */
+export function trendRate(
+  trend: TrendPoint[],
+  windowDays: number = RATE_WINDOW_DAYS
+): { perWeekKg: number; days: number } | null {
+  const last = trend[trend.length - 1];
+  if (!last) return null;
+  const start = trend.find((p) => daysBetween(p.date, last.date) <= windowDays);
+  if (!start || start === last) return null;
+  const days = daysBetween(start.date, last.date);
+  return { perWeekKg: ((last.trendKg - start.trendKg) / days) * 7, days };
+}